@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { RefreshCw, Trash2 } from 'lucide-react';
+import type { DataQualityStats } from '@/lib/api/providers/validation';
 
 interface CacheStats {
   type: 'redis' | 'memory';
@@ -18,6 +19,7 @@ interface CacheStats {
 
 export default function CacheAdminPage() {
   const [stats, setStats] = useState<CacheStats | null>(null);
+  const [dataQuality, setDataQuality] = useState<DataQualityStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [clearSuccess, setClearSuccess] = useState<string | null>(null);
@@ -27,8 +29,11 @@ export default function CacheAdminPage() {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/cache/stats');
-      const data = await response.json();
+      const [response, qualityResponse] = await Promise.all([
+        fetch('/api/cache/stats'),
+        fetch('/api/data-quality'),
+      ]);
+      const [data, quality] = await Promise.all([response.json(), qualityResponse.json()]);
       
       if (data.success) {
         setStats({
@@ -38,6 +43,10 @@ export default function CacheAdminPage() {
       } else {
         setError(data.error || 'Failed to fetch cache statistics');
       }
+
+      if (quality.success) {
+        setDataQuality(quality.data);
+      }
     } catch (err) {
       setError('An error occurred while fetching cache statistics');
       console.error(err);
@@ -224,10 +233,17 @@ export default function CacheAdminPage() {
                     <div className="text-sm text-gray-500 dark:text-gray-400">Cache TTLs</div>
                     <div className="text-sm mt-1 space-y-1">
                       <div>Stock Details: 7 days</div>
-                      <div>Daily Prices: 1 day</div>
-                      <div>Weekly Prices: 2 days</div>
-                      <div>Monthly Prices: 7 days</div>
-                      <div>Yearly Prices: 30 days</div>
+                      <div>Minute Bars: 1 day</div>
+                      <div>Hourly Bars: 2 days</div>
+                      <div>Daily Bars: 7 days</div>
+                      <div>Weekly & Monthly Bars: 30 days</div>
+                      <div>Quarterly Financials: 7 days</div>
+                      <div>Annual Financials: 30 days</div>
+                      <div>Splits & Dividends: 1 day</div>
+                      <div>Earnings History: 12 hours</div>
+                      <div>Earnings Calendar: 1 hour</div>
+                      <div>Quotes: 1 minute</div>
+                      <div>Company News: 15 minutes</div>
                       <div>Search Results: 1 hour</div>
                     </div>
                   </div>
@@ -237,6 +253,61 @@ export default function CacheAdminPage() {
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Data Quality</CardTitle>
+          <CardDescription>
+            Provider records that failed validation since the server started
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {dataQuality && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Records Checked</div>
+                  <div className="text-xl font-semibold mt-1">{dataQuality.checked.toLocaleString()}</div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Records Quarantined</div>
+                  <div className={`text-xl font-semibold mt-1 ${dataQuality.quarantined > 0 ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                    {dataQuality.quarantined.toLocaleString()}
+                  </div>
+                </div>
+
+                <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg">
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Payloads Rejected</div>
+                  <div className={`text-xl font-semibold mt-1 ${dataQuality.rejected > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    {dataQuality.rejected.toLocaleString()}
+                  </div>
+                </div>
+              </div>
+
+              {dataQuality.recent.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No validation failures.</p>
+              ) : (
+                <div className="space-y-2">
+                  {dataQuality.recent.map((issue, index) => (
+                    <div key={`${issue.at}-${index}`} className="bg-gray-100 dark:bg-gray-800 p-3 rounded-lg text-sm">
+                      <div className="flex justify-between gap-4">
+                        <span className="font-medium">
+                          {issue.provider} {issue.operation}{issue.symbol ? ` (${issue.symbol})` : ''}: {issue.problem}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                          {new Date(issue.at).toLocaleString()}
+                        </span>
+                      </div>
+                      <pre className="mt-1 text-xs text-gray-600 dark:text-gray-400 whitespace-pre-wrap break-all">{issue.payload}</pre>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
-} 
\ No newline at end of file
+}
\ No newline at end of file
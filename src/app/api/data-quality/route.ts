@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getDataQualityStats } from '@/lib/api/providers/validation';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    data: getDataQualityStats(),
+    timestamp: new Date().toISOString()
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api/errors';
+import { getNewsFeed } from '@/lib/api/stockApi';
+import { parseSymbolList } from '@/lib/utils/symbols';
+import { MAX_WATCHLIST_SYMBOLS } from '@/store/watchlistStore';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+/**
+ * Combined news feed for ?symbols=AAPL,MSFT,... (a watchlist), newest first
+ */
+export async function GET(request: NextRequest) {
+  const symbols = parseSymbolList(request.nextUrl.searchParams.get('symbols'), MAX_WATCHLIST_SYMBOLS);
+
+  if (symbols.length === 0) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Provide one or more symbols, e.g. ?symbols=AAPL,MSFT'
+      },
+      { status: 400 }
+    );
+  }
+
+  const response = await getNewsFeed(symbols);
+
+  return NextResponse.json(response, { status: response.success ? 200 : errorStatus(response) });
+}
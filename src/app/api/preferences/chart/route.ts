@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ChartPreferencesValidationError,
+  getChartPreferences,
+  saveChartPreferences,
+} from '@/lib/preferences/chartPreferences.server';
+import { getOrCreateUserId } from '@/lib/screens/user.server';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+/**
+ * The current user's chart preferences, or null when none are saved yet
+ */
+export async function GET() {
+  try {
+    const userId = await getOrCreateUserId();
+    const preferences = await getChartPreferences(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    });
+  } catch (error) {
+    console.error('Error fetching chart preferences:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch chart preferences'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = await getOrCreateUserId();
+    const body = await request.json().catch(() => ({}));
+    const preferences = await saveChartPreferences(userId, body);
+
+    return NextResponse.json({
+      success: true,
+      data: preferences
+    });
+  } catch (error) {
+    if (error instanceof ChartPreferencesValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving chart preferences:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save chart preferences'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api/errors';
+import { getQuotes } from '@/lib/api/stockApi';
+import { parseSymbolList } from '@/lib/utils/symbols';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+// Most symbols quoted in one call
+const MAX_QUOTE_SYMBOLS = 500;
+
+/**
+ * Latest price, change, day range and volume for ?symbols=AAPL,MSFT,...
+ * in the order asked for. Symbols without a quote are listed in `missing`.
+ */
+export async function GET(request: NextRequest) {
+  const symbols = parseSymbolList(request.nextUrl.searchParams.get('symbols'), Infinity);
+
+  if (symbols.length === 0 || symbols.length > MAX_QUOTE_SYMBOLS) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Provide between 1 and ${MAX_QUOTE_SYMBOLS} symbols, e.g. ?symbols=AAPL,MSFT`
+      },
+      { status: 400 }
+    );
+  }
+
+  const response = await getQuotes(symbols);
+
+  if (!response.success) {
+    return NextResponse.json(response, { status: errorStatus(response) });
+  }
+
+  const quoted = new Set((response.data || []).map(quote => quote.symbol));
+
+  return NextResponse.json({
+    success: true,
+    data: response.data,
+    missing: symbols.filter(symbol => !quoted.has(symbol))
+  });
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteSavedScreen,
+  getSavedScreen,
+  SavedScreenValidationError,
+  updateSavedScreen,
+} from '@/lib/screens/savedScreens.server';
+import { getOrCreateUserId } from '@/lib/screens/user.server';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+const notFound = () => NextResponse.json(
+  {
+    success: false,
+    error: 'Screen not found'
+  },
+  { status: 404 }
+);
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = await getOrCreateUserId();
+    const screen = await getSavedScreen(userId, id);
+
+    if (!screen) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: screen
+    });
+  } catch (error) {
+    console.error('Error fetching saved screen:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch saved screen'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = await getOrCreateUserId();
+    const body = await request.json().catch(() => ({}));
+    const screen = await updateSavedScreen(userId, id, body);
+
+    if (!screen) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: screen
+    });
+  } catch (error) {
+    if (error instanceof SavedScreenValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating saved screen:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update saved screen'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const userId = await getOrCreateUserId();
+    const deleted = await deleteSavedScreen(userId, id);
+
+    if (!deleted) {
+      return notFound();
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Screen deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting saved screen:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to delete saved screen'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSavedScreen,
+  listSavedScreens,
+  SavedScreenValidationError,
+} from '@/lib/screens/savedScreens.server';
+import { getOrCreateUserId } from '@/lib/screens/user.server';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+export async function GET() {
+  try {
+    const userId = await getOrCreateUserId();
+    const screens = await listSavedScreens(userId);
+
+    return NextResponse.json({
+      success: true,
+      data: screens
+    });
+  } catch (error) {
+    console.error('Error listing saved screens:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to list saved screens'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getOrCreateUserId();
+    const body = await request.json().catch(() => ({}));
+    const screen = await createSavedScreen(userId, body);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: screen
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof SavedScreenValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving screen:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to save screen'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api/errors';
+import { getCompanyNews } from '@/lib/api/stockApi';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+interface RouteContext {
+  params: Promise<{
+    symbol: string;
+  }>;
+}
+
+/**
+ * Latest news articles tagged with a symbol, newest first
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { symbol } = await params;
+  const response = await getCompanyNews(symbol.toUpperCase());
+
+  return NextResponse.json(response, { status: response.success ? 200 : errorStatus(response) });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPeerGroup } from '@/lib/screener/peers';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+interface RouteContext {
+  params: Promise<{
+    symbol: string;
+  }>;
+}
+
+/**
+ * A company's industry or sector peers; data is null when it has neither
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { symbol } = await params;
+
+  try {
+    const group = await getPeerGroup(symbol);
+
+    return NextResponse.json({
+      success: true,
+      data: group
+    });
+  } catch (error) {
+    console.error(`Error loading peers for ${symbol}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load peers'
+      },
+      { status: 500 }
+    );
+  }
+}
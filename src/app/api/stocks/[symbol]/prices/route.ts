@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api/errors';
+import { getMarketDataProvider } from '@/lib/api/providers';
+import { DEFAULT_PRICE_ADJUSTMENT, isPriceAdjustment } from '@/lib/api/priceAdjustments';
+import { parseRangeSpec, RangeSpecError, resolveRangeSpec } from '@/lib/api/rangeSpec';
+import { getPriceHistory } from '@/lib/api/stockApi';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+interface RouteContext {
+  params: Promise<{
+    symbol: string;
+  }>;
+}
+
+/**
+ * OHLCV bars for a symbol over ?range=1D..MAX or ?from=&to=, with an
+ * optional &interval=1m|5m|1h|1d|1w|1mo and &adjustment=raw|split|total
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { symbol } = await params;
+
+  try {
+    const spec = parseRangeSpec(request.nextUrl.searchParams);
+    const adjustment = request.nextUrl.searchParams.get('adjustment') || DEFAULT_PRICE_ADJUSTMENT;
+
+    if (!isPriceAdjustment(adjustment)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown adjustment "${adjustment}", expected raw, split or total`
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reject ranges the configured providers cannot serve before looking anything up
+    const provider = await getMarketDataProvider();
+    resolveRangeSpec(spec, provider.limits);
+
+    const response = await getPriceHistory(symbol.toUpperCase(), spec, adjustment);
+
+    if (!response.success) {
+      return NextResponse.json(response, { status: errorStatus(response) });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: response.data || [],
+      provenance: response.provenance
+    });
+  } catch (error) {
+    if (error instanceof RangeSpecError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error(`Error fetching price history for ${symbol}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch price history'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorStatus } from '@/lib/api/errors';
+import { searchStocks } from '@/lib/api/stockApi';
+
+export const dynamic = 'force-dynamic'; // No caching for this route
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q') || '';
+
+  try {
+    // Search on the server so the configured market data providers are used
+    const response = await searchStocks(query);
+
+    if (!response.success) {
+      return NextResponse.json(response, { status: errorStatus(response) });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`Error searching stocks for "${query}":`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search stocks'
+      },
+      { status: 500 }
+    );
+  }
+}
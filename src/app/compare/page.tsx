@@ -0,0 +1,82 @@
+import { Metadata } from 'next';
+import CompareForm from '@/components/compare/CompareForm';
+import StockChart from '@/components/stock/StockChart';
+import { getEnhancedStockPrices } from '@/lib/api/stockApi';
+import { PAGE_MAX_TOKEN_WAIT_MS, withMaxTokenWait } from '@/lib/api/tokenWait.server';
+import { BENCHMARK_OPTIONS, parseCompareSymbols } from '@/lib/compare';
+import { StockPrices } from '@/types';
+
+export const dynamic = 'force-dynamic'; // Series depend on the query string
+
+export const metadata: Metadata = {
+  title: 'Compare Stocks - StockScreener',
+  description: 'Compare the relative performance of several stocks against a benchmark.',
+};
+
+interface ComparePageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const emptyPrices: StockPrices = { bars: {}, provenance: {} };
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const params = await searchParams;
+  const symbols = parseCompareSymbols(firstParam(params.symbols));
+
+  // Only known benchmarks, and not one that is already being compared
+  const requestedBenchmark = firstParam(params.benchmark)?.toUpperCase();
+  const benchmark = BENCHMARK_OPTIONS.some(option => option.symbol === requestedBenchmark)
+    && !symbols.includes(requestedBenchmark!)
+    ? requestedBenchmark!
+    : null;
+
+  const seriesSymbols = benchmark ? [...symbols, benchmark] : symbols;
+  const allPrices = await withMaxTokenWait(PAGE_MAX_TOKEN_WAIT_MS, () =>
+    Promise.all(
+      seriesSymbols.map(symbol =>
+        getEnhancedStockPrices(symbol).catch((error) => {
+          console.error(`Error fetching prices to compare ${symbol}:`, error);
+          return emptyPrices;
+        })
+      )
+    )
+  );
+
+  const [primary, ...others] = seriesSymbols.map((symbol, index) => ({
+    symbol,
+    prices: allPrices[index],
+    isBenchmark: symbol === benchmark,
+  }));
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Compare Stocks</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Returns over the selected range, each rebased to 0% at the start.
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <CompareForm initialSymbols={symbols} initialBenchmark={benchmark} />
+      </div>
+
+      {primary && symbols.length > 0 ? (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <StockChart
+            symbol={primary.symbol}
+            prices={primary.prices}
+            comparisons={others}
+          />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Enter one or more symbols to compare, e.g. AAPL, MSFT, NVDA.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import { getEarningsCalendar } from '@/lib/api/stockApi';
+import { surprisePercent, TIMING_LABELS, weekDays, weekStart } from '@/lib/earnings';
+import { calendarDay, formatCurrency, formatDay } from '@/lib/utils/formatters';
+import { EarningsReport } from '@/types';
+
+export const dynamic = 'force-dynamic'; // The week shown depends on the query string
+
+export const metadata: Metadata = {
+  title: 'Earnings Calendar - StockScreener',
+  description: 'Upcoming and recent earnings reports for the week, with estimates and surprises.',
+};
+
+interface EarningsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const formatWeekday = (date: string) =>
+  calendarDay(date).toLocaleDateString('en-US', { weekday: 'long' });
+
+const formatOptionalCurrency = (value: number | null) => (value === null ? '—' : formatCurrency(value));
+
+/**
+ * Monday of the week asked for in ?week= (any date in it), else this week
+ */
+function requestedWeek(param: string | undefined): string {
+  const date = param && /^\d{4}-\d{2}-\d{2}$/.test(param) ? new Date(`${param}T00:00:00Z`) : null;
+  return weekStart(date && !isNaN(date.getTime()) ? date : new Date());
+}
+
+function SurpriseCell({ report }: { report: EarningsReport }) {
+  const surprise = surprisePercent(report.epsActual, report.epsEstimate);
+
+  if (surprise === null) {
+    return <TableCell className="text-right tabular-nums text-gray-500">—</TableCell>;
+  }
+
+  return (
+    <TableCell
+      className={`text-right tabular-nums ${
+        surprise >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+      }`}
+    >
+      {surprise >= 0 ? '+' : ''}{surprise.toFixed(1)}%
+    </TableCell>
+  );
+}
+
+export default async function EarningsPage({ searchParams }: EarningsPageProps) {
+  const params = await searchParams;
+  const monday = requestedWeek(firstParam(params.week));
+  const days = weekDays(monday);
+  const today = new Date().toISOString().split('T')[0];
+
+  const response = await getEarningsCalendar(days[0], days[6]);
+  const reports = response.data || [];
+
+  // Weekdays always get a section; weekend days only when something reports
+  const shownDays = days.filter((day, index) => index < 5 || reports.some(report => report.reportDate === day));
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Earnings Calendar</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            Week of {formatDay(monday)}: {reports.length} report{reports.length === 1 ? '' : 's'}
+            <ProvenanceBadge provenance={response.provenance} className="ml-2" />
+          </p>
+        </div>
+        <div className="flex gap-4 text-sm">
+          <Link href={`/earnings?week=${weekDays(monday, -1)[0]}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+            ← Previous week
+          </Link>
+          <Link href="/earnings" className="text-blue-600 dark:text-blue-400 hover:underline">
+            This week
+          </Link>
+          <Link href={`/earnings?week=${weekDays(monday, 1)[0]}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+            Next week →
+          </Link>
+        </div>
+      </div>
+
+      {!response.success && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          The earnings calendar could not be loaded. Please try again later.
+        </p>
+      )}
+
+      {shownDays.map((day) => {
+        const dayReports = reports.filter(report => report.reportDate === day);
+
+        return (
+          <div key={day} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-4">
+              {formatWeekday(day)}, {formatDay(day)}
+              {day === today && <span className="ml-2 text-sm font-normal text-blue-600 dark:text-blue-400">Today</span>}
+            </h2>
+
+            {dayReports.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No earnings reports.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Quarter</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead className="text-right">EPS Est.</TableHead>
+                    <TableHead className="text-right">EPS</TableHead>
+                    <TableHead className="text-right">Surprise</TableHead>
+                    <TableHead className="text-right">Revenue Est.</TableHead>
+                    <TableHead className="text-right">Revenue</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dayReports.map((report) => (
+                    <TableRow key={report.symbol}>
+                      <TableCell>
+                        <Link href={`/stock/${report.symbol}`} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                          {report.symbol}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        {report.fiscalPeriod && report.fiscalYear ? `${report.fiscalPeriod} ${report.fiscalYear}` : '—'}
+                      </TableCell>
+                      <TableCell>{report.timing ? TIMING_LABELS[report.timing] : '—'}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatOptionalCurrency(report.epsEstimate)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatOptionalCurrency(report.epsActual)}</TableCell>
+                      <SurpriseCell report={report} />
+                      <TableCell className="text-right tabular-nums">{formatOptionalCurrency(report.revenueEstimate)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatOptionalCurrency(report.revenueActual)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { FEATURED_SYMBOLS } from '@/lib/cache/prefetch';
 import FeaturedStocks from '@/components/FeaturedStocks';
+import SavedScreens from '@/components/SavedScreens';
 
 export default function Home() {
   const [isDarkMode, setIsDarkMode] = useState(false);
@@ -73,6 +74,9 @@ export default function Home() {
       {/* Featured Stocks */}
       <FeaturedStocks />
       
+      {/* Saved Screens */}
+      <SavedScreens />
+      
       {/* Features Section */}
       <section className="py-16">
         <div className="container mx-auto px-4">
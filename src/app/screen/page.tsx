@@ -0,0 +1,102 @@
+import { Metadata } from 'next';
+import ScreenQueryForm from '@/components/screen/ScreenQueryForm';
+import ScreenResultsTable from '@/components/screen/ScreenResultsTable';
+import SaveScreenButton from '@/components/screen/SaveScreenButton';
+import { ScreenerSyntaxError } from '@/lib/screener';
+import { DEFAULT_SCREEN_COLUMNS, normalizeColumns, parseColumnsParam, parseSortParam } from '@/lib/screener/results';
+import { runScreenQuery } from '@/lib/screener/universe';
+import { ScreenResultRow } from '@/lib/screener/types';
+import { getSavedScreen } from '@/lib/screens/savedScreens.server';
+import { getUserId } from '@/lib/screens/user.server';
+
+export const dynamic = 'force-dynamic'; // Results depend on the query string
+
+export const metadata: Metadata = {
+  title: 'Stock Screener - StockScreener',
+  description: 'Screen stocks with custom queries on valuation, growth and returns.',
+};
+
+interface ScreenPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+export default async function ScreenPage({ searchParams }: ScreenPageProps) {
+  const params = await searchParams;
+  const query = firstParam(params.q)?.trim() || '';
+
+  let rows: ScreenResultRow[] | null = null;
+  let errorMessage: string | null = null;
+  let referencedFields: string[] = [];
+
+  if (query) {
+    try {
+      ({ rows, referencedFields } = await runScreenQuery(query));
+    } catch (error) {
+      if (error instanceof ScreenerSyntaxError) {
+        errorMessage = error.format(query);
+      } else {
+        console.error(`Error running screen "${query}":`, error);
+        errorMessage = 'Failed to run the screen. Please try again later.';
+      }
+    }
+  }
+
+  // Show the requested columns, or the defaults plus every field the query uses
+  const requestedColumns = parseColumnsParam(firstParam(params.columns));
+  const columns = requestedColumns.length > 0
+    ? requestedColumns
+    : normalizeColumns([...DEFAULT_SCREEN_COLUMNS, ...referencedFields]);
+  const page = Math.max(1, parseInt(firstParam(params.page) || '1', 10) || 1);
+
+  // The saved screen this view was opened from, if it belongs to the current user
+  const screenId = firstParam(params.screen);
+  const userId = screenId ? await getUserId() : null;
+  const savedScreen = screenId && userId ? await getSavedScreen(userId, screenId) : null;
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">{savedScreen ? savedScreen.name : 'Stock Screener'}</h1>
+          <p className="text-gray-500">
+            {savedScreen?.description || 'Combine conditions with AND, OR, NOT and parentheses. Numbers accept K, M, B and T suffixes.'}
+          </p>
+        </div>
+        {rows && (
+          <SaveScreenButton
+            query={query}
+            screen={savedScreen && { id: savedScreen.id, name: savedScreen.name, description: savedScreen.description }}
+          />
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <ScreenQueryForm initialQuery={query} />
+      </div>
+
+      {errorMessage && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+          <h2 className="text-xl font-semibold text-red-800 dark:text-red-400 mb-2">
+            Invalid Query
+          </h2>
+          <pre className="text-sm text-red-700 dark:text-red-300 whitespace-pre-wrap font-mono">{errorMessage}</pre>
+        </div>
+      )}
+
+      {rows && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <ScreenResultsTable
+            key={query}
+            rows={rows}
+            initialColumns={columns}
+            initialSort={parseSortParam(firstParam(params.sort))}
+            initialPage={page}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
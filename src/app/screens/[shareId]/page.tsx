@@ -0,0 +1,90 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import ScreenResultsTable from '@/components/screen/ScreenResultsTable';
+import { DEFAULT_SCREEN_COLUMNS, normalizeColumns } from '@/lib/screener/results';
+import { ScreenResultRow } from '@/lib/screener/types';
+import { runScreenQuery } from '@/lib/screener/universe';
+import { getSharedScreen } from '@/lib/screens/savedScreens.server';
+
+export const dynamic = 'force-dynamic'; // Results reflect the latest data
+
+interface SharedScreenPageProps {
+  params: Promise<{
+    shareId: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: SharedScreenPageProps): Promise<Metadata> {
+  const { shareId } = await params;
+  const screen = await getSharedScreen(shareId);
+
+  if (!screen) {
+    return {
+      title: 'Screen Not Found',
+      description: 'The requested screen could not be found.',
+    };
+  }
+
+  return {
+    title: `${screen.name} - StockScreener`,
+    description: screen.description || `Stock screen: ${screen.query}`,
+  };
+}
+
+export default async function SharedScreenPage({ params }: SharedScreenPageProps) {
+  const { shareId } = await params;
+  const screen = await getSharedScreen(shareId);
+
+  if (!screen) {
+    notFound();
+  }
+
+  let rows: ScreenResultRow[] = [];
+  let referencedFields: string[] = [];
+  let errorMessage: string | null = null;
+
+  try {
+    ({ rows, referencedFields } = await runScreenQuery(screen.query));
+  } catch (error) {
+    console.error(`Error running shared screen ${shareId}:`, error);
+    errorMessage = 'Failed to run this screen. Please try again later.';
+  }
+
+  const columns = screen.columns.length > 0
+    ? screen.columns
+    : normalizeColumns([...DEFAULT_SCREEN_COLUMNS, ...referencedFields]);
+
+  const openParams = new URLSearchParams({ q: screen.query, columns: columns.join(',') });
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div>
+          <p className="text-sm text-gray-500 mb-1">Shared screen</p>
+          <h1 className="text-3xl font-bold mb-2">{screen.name}</h1>
+          {screen.description && <p className="text-gray-500">{screen.description}</p>}
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={`/screen?${openParams.toString()}`}>Open in Screener</Link>
+        </Button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h2 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Query</h2>
+        <pre className="font-mono text-sm whitespace-pre-wrap">{screen.query}</pre>
+      </div>
+
+      {errorMessage ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-6">
+          <p className="text-red-700 dark:text-red-300">{errorMessage}</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <ScreenResultsTable rows={rows} initialColumns={columns} initialSort={[]} initialPage={1} />
+        </div>
+      )}
+    </div>
+  );
+}
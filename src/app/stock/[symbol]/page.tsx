@@ -2,15 +2,27 @@ import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import StockChart from '@/components/stock/StockChart';
 import StockInfo from '@/components/stock/StockInfo';
-import { getEnhancedStockDetails, getEnhancedStockPrices } from '@/lib/api/stockApi';
-import { Stock, StockPrices } from '@/types/stock';
+import FinancialsTabs from '@/components/stock/financials/FinancialsTabs';
+import PeerGroupPanel from '@/components/stock/PeerGroupPanel';
+import DividendsPanel from '@/components/stock/DividendsPanel';
+import EarningsPanel from '@/components/stock/EarningsPanel';
+import NewsList from '@/components/news/NewsList';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import WatchButton from '@/components/watchlist/WatchButton';
+import { DEFAULT_TIME_RANGE } from '@/lib/api/rangeSpec';
+import { getCompanyNews, getCorporateActions, getEarnings, getEnhancedStockDetails, getEnhancedStockPrices, getFinancials } from '@/lib/api/stockApi';
+import { PAGE_MAX_TOKEN_WAIT_MS, withMaxTokenWait } from '@/lib/api/tokenWait.server';
+import { summarizeDividends } from '@/lib/dividends';
+import { getCompanyRatios } from '@/lib/ratios';
+import { isSynthetic } from '@/lib/provenance';
+import { Company, CorporateActions, EarningsReport, Financials, NewsArticle, StockPrices } from '@/types';
 import Link from 'next/link';
 
 interface StockPageProps {
   params: Promise<{
     symbol: string;
   }>;
-  searchParams?: Record<string, string | string[] | undefined>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }
 
 export async function generateMetadata({ params }: StockPageProps): Promise<Metadata> {
@@ -62,33 +74,58 @@ function StockPageFallback() {
   );
 }
 
+// Headlines listed beside the chart
+const NEWS_ON_PAGE = 8;
+
 // Default empty prices object to prevent null/undefined errors
-const emptyPrices: StockPrices = {
-  daily: [],
-  weekly: [],
-  monthly: [],
-  threeMonth: [],
-  yearly: [],
-  fiveYear: []
-};
+const emptyPrices: StockPrices = { bars: {}, provenance: {} };
 
 export default async function StockPage({ params }: StockPageProps) {
   const resolvedParams = await params;
   const symbol = resolvedParams.symbol;
   console.log(`Fetching stock data for symbol: ${symbol}`);
   
-  let stock: Stock | null = null;
+  let stock: Company | null = null;
   let prices: StockPrices = emptyPrices;
+  let financials: Financials | null = null;
+  let corporateActions: CorporateActions | null = null;
+  let earnings: EarningsReport[] | null = null;
+  let news: NewsArticle[] | null = null;
   
   try {
-    // Fetch stock details and prices in parallel with simple Promise.all
-    const [stockData, pricesData] = await Promise.all([
-      getEnhancedStockDetails(symbol),
-      getEnhancedStockPrices(symbol).catch(() => emptyPrices)
-    ]);
+    // Fetch stock details, prices, statements, corporate actions, earnings and news in parallel with simple Promise.all;
+    // a request that would queue for the rate limiter fails fast rather than holding up the render
+    const [stockData, pricesData, financialsResponse, actionsResponse, earningsResponse, newsResponse] = await withMaxTokenWait(
+      PAGE_MAX_TOKEN_WAIT_MS,
+      () => Promise.all([
+        getEnhancedStockDetails(symbol),
+        getEnhancedStockPrices(symbol).catch(() => emptyPrices),
+        getFinancials(symbol),
+        getCorporateActions(symbol),
+        getEarnings(symbol),
+        getCompanyNews(symbol)
+      ])
+    );
     
     stock = stockData;
     prices = pricesData || emptyPrices;
+    financials = financialsResponse.data || null;
+    corporateActions = actionsResponse.data || null;
+    earnings = earningsResponse.data || null;
+    news = newsResponse.success ? newsResponse.data || [] : null;
+    
+    // Ratios reuse the statements, details and default-range bars cached above
+    const ratiosResponse = financials
+      ? await withMaxTokenWait(PAGE_MAX_TOKEN_WAIT_MS, () => getCompanyRatios(symbol))
+      : null;
+    
+    // Yield and payout use the same split-adjusted close and trailing EPS as the
+    // ratios, and are left unavailable rather than computed from generated prices
+    const recentBars = isSynthetic(prices.provenance[DEFAULT_TIME_RANGE]) ? [] : prices.bars[DEFAULT_TIME_RANGE] || [];
+    const latestClose = ratiosResponse?.data?.price ?? recentBars[recentBars.length - 1]?.close ?? null;
+    const dividendSummary = corporateActions
+      ? summarizeDividends(corporateActions, latestClose, ratiosResponse?.data?.ratios.eps.value ?? null)
+      : null;
     
     // If we couldn't get the stock details, show 404
     if (!stock) {
@@ -100,12 +137,9 @@ export default async function StockPage({ params }: StockPageProps) {
     console.log('Stock data loaded:', {
       symbol,
       hasStockDetails: !!stock,
-      dailyPrices: prices?.daily?.length || 0,
-      weeklyPrices: prices?.weekly?.length || 0,
-      monthlyPrices: prices?.monthly?.length || 0,
-      threeMonthPrices: prices?.threeMonth?.length || 0,
-      yearlyPrices: prices?.yearly?.length || 0,
-      fiveYearPrices: prices?.fiveYear?.length || 0
+      bars: Object.fromEntries(Object.entries(prices.bars).map(([range, bars]) => [range, bars.length])),
+      quarterlyFinancials: financials?.quarterly.length || 0,
+      annualFinancials: financials?.annual.length || 0
     });
     
     // Render the page with the data we have
@@ -114,21 +148,67 @@ export default async function StockPage({ params }: StockPageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2">
             <h1 className="text-3xl font-bold mb-2">{stock.name} ({stock.symbol})</h1>
-            <p className="text-gray-500 mb-6">{stock.exchange || 'Unknown Exchange'}</p>
+            <div className="flex items-center justify-between mb-6">
+              <p className="text-gray-500">{stock.exchange || 'Unknown Exchange'}</p>
+              <div className="flex items-center gap-4">
+                <WatchButton symbol={stock.symbol} />
+                <Link
+                  href={`/compare?symbols=${encodeURIComponent(stock.symbol)}&benchmark=SPY`}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Compare with others
+                </Link>
+              </div>
+            </div>
             
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-8">
               <StockChart 
+                symbol={stock.symbol}
                 prices={prices}
+                corporateActions={corporateActions}
+                earnings={earnings}
               />
             </div>
           </div>
           
-          <div>
+          <div className="space-y-8">
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
               <StockInfo stock={stock} />
             </div>
+            
+            {news && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <div className="flex items-center justify-between gap-2 mb-2">
+                  <h2 className="text-xl font-semibold">News</h2>
+                  <ProvenanceBadge provenance={newsResponse.provenance} />
+                </div>
+                <NewsList articles={news.slice(0, NEWS_ON_PAGE)} />
+              </div>
+            )}
           </div>
         </div>
+        
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-8">
+          <FinancialsTabs
+            financials={financials}
+            ratios={ratiosResponse?.data?.ratios || null}
+            provenance={financialsResponse.provenance}
+          />
+        </div>
+        
+        {earnings && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-8">
+            <EarningsPanel symbol={stock.symbol} reports={earnings} provenance={earningsResponse.provenance} />
+          </div>
+        )}
+        
+        {dividendSummary && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-8">
+            <DividendsPanel symbol={stock.symbol} summary={dividendSummary} provenance={actionsResponse.provenance} />
+          </div>
+        )}
+        
+        <PeerGroupPanel symbol={stock.symbol} />
       </div>
     );
   } catch (error) {
@@ -0,0 +1,22 @@
+import { Metadata } from 'next';
+import WatchlistFeed from '@/components/watchlist/WatchlistFeed';
+
+export const metadata: Metadata = {
+  title: 'Watchlist - StockScreener',
+  description: 'The stocks you watch and their latest news in one feed.',
+};
+
+export default function WatchlistPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Watchlist</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          The latest news across the stocks you watch, newest first.
+        </p>
+      </div>
+
+      <WatchlistFeed />
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import { Provenance } from '@/types';
 
 // Define the FeaturedStock type
 interface FeaturedStock {
@@ -12,7 +14,7 @@ interface FeaturedStock {
   price: number;
   change: number;
   percentChange: number;
-  isMockData: boolean;
+  provenance?: Provenance;
 }
 
 export default function FeaturedStocks() {
@@ -138,11 +140,7 @@ export default function FeaturedStocks() {
                         <div>
                           <h3 className="text-lg font-bold">{stock.symbol}</h3>
                           <p className="text-sm text-gray-500">{stock.name}</p>
-                          {stock.isMockData && (
-                            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800 mt-1">
-                              Mock Data
-                            </span>
-                          )}
+                          <ProvenanceBadge provenance={stock.provenance} className="mt-1" />
                         </div>
                         <div className={`text-right ${stock.change >= 0 ? 'text-green-500' : 'text-red-500'}`}>
                           <p className="text-lg font-bold">
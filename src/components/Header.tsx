@@ -20,6 +20,30 @@ export const Header: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-4">
+            <Link
+              href="/screen"
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+            >
+              Screener
+            </Link>
+            <Link
+              href="/compare"
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+            >
+              Compare
+            </Link>
+            <Link
+              href="/earnings"
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+            >
+              Earnings
+            </Link>
+            <Link
+              href="/watchlist"
+              className="text-sm font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+            >
+              Watchlist
+            </Link>
             <Link
               href="/login"
               className="text-sm font-medium text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
@@ -0,0 +1,45 @@
+import { describeProvenance } from '@/lib/provenance';
+import { formatDateTime } from '@/lib/utils/formatters';
+import { DataSource, Provenance } from '@/types';
+
+const BADGE_STYLES: Record<DataSource, string> = {
+  live: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  cached: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  fixture: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  synthetic: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+const BADGE_TITLES: Record<DataSource, string> = {
+  live: 'Fetched from the market data provider',
+  cached: 'Served from the cache',
+  fixture: 'Read from offline fixture or recorded files, not current market data',
+  synthetic: 'Randomly generated because no real data was available. Do not use these numbers.',
+};
+
+interface ProvenanceBadgeProps {
+  provenance?: Provenance;
+  // Prefix naming what the data is, e.g. the symbol when several series are shown
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Says where the data next to it came from: live, cached (with its age),
+ * fixture or synthetic
+ */
+export default function ProvenanceBadge({ provenance, label, className = '' }: ProvenanceBadgeProps) {
+  if (!provenance) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${BADGE_STYLES[provenance.source]} ${className}`}
+      title={`${BADGE_TITLES[provenance.source]} (${formatDateTime(new Date(provenance.fetchedAt))})`}
+      // The age of cached data depends on when the page is rendered
+      suppressHydrationWarning
+    >
+      {label ? `${label}: ${describeProvenance(provenance)}` : describeProvenance(provenance)}
+    </span>
+  );
+}
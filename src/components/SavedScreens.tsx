@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Pencil, Share2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import SavedScreenDialog from '@/components/screen/SavedScreenDialog';
+import { SavedScreen } from '@/lib/screens/types';
+
+/**
+ * URL that opens a saved screen in the screener for further editing
+ */
+const screenUrl = (screen: SavedScreen) => {
+  const params = new URLSearchParams({ q: screen.query, screen: screen.id });
+  if (screen.columns.length > 0) {
+    params.set('columns', screen.columns.join(','));
+  }
+  return `/screen?${params.toString()}`;
+};
+
+export default function SavedScreens() {
+  const [screens, setScreens] = useState<SavedScreen[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingScreen, setEditingScreen] = useState<SavedScreen | null>(null);
+
+  useEffect(() => {
+    const fetchScreens = async () => {
+      try {
+        const response = await fetch('/api/screens');
+        const result = await response.json();
+
+        if (result.success) {
+          setScreens(result.data);
+        } else {
+          console.warn('Failed to load saved screens:', result.error);
+        }
+      } catch (error) {
+        console.error('Error fetching saved screens:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchScreens();
+  }, []);
+
+  const shareScreen = async (screen: SavedScreen) => {
+    const url = `${window.location.origin}/screens/${screen.shareId}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Share link copied to clipboard');
+    } catch {
+      toast.info(url);
+    }
+  };
+
+  const deleteScreen = async (screen: SavedScreen) => {
+    if (!window.confirm(`Delete "${screen.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/screens/${screen.id}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        setScreens(screens.filter(existing => existing.id !== screen.id));
+        toast.success('Screen deleted');
+      } else {
+        toast.error(result.error || 'Failed to delete screen');
+      }
+    } catch (error) {
+      console.error('Error deleting screen:', error);
+      toast.error('An error occurred while deleting the screen');
+    }
+  };
+
+  const handleSaved = (saved: SavedScreen) => {
+    // "Save as New" returns a screen we have not seen yet
+    const exists = screens.some(screen => screen.id === saved.id);
+    setScreens(exists
+      ? screens.map(screen => (screen.id === saved.id ? saved : screen))
+      : [saved, ...screens]);
+  };
+
+  return (
+    <section className="py-16">
+      <div className="container mx-auto px-4">
+        <div className="flex items-center justify-between mb-8">
+          <h2 className="text-3xl font-bold">Your Screens</h2>
+          <Button asChild>
+            <Link href="/screen">New Screen</Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+          </div>
+        ) : screens.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">
+            You have no saved screens yet. Run a query in the <Link href="/screen" className="text-blue-600 dark:text-blue-400 hover:underline">screener</Link> and save it to see it here.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {screens.map((screen) => (
+              <Card key={screen.id} className="flex flex-col">
+                <CardHeader>
+                  <CardTitle>
+                    <Link href={screenUrl(screen)} className="hover:underline">{screen.name}</Link>
+                  </CardTitle>
+                  {screen.description && <CardDescription>{screen.description}</CardDescription>}
+                </CardHeader>
+                <CardContent className="flex-1">
+                  <pre className="font-mono text-xs whitespace-pre-wrap text-gray-600 dark:text-gray-300">{screen.query}</pre>
+                </CardContent>
+                <CardFooter className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => shareScreen(screen)}>
+                    <Share2 className="h-4 w-4" />
+                    Share
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setEditingScreen(screen)}>
+                    <Pencil className="h-4 w-4" />
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteScreen(screen)}>
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <SavedScreenDialog
+          open={editingScreen !== null}
+          onOpenChange={(open) => !open && setEditingScreen(null)}
+          screen={editingScreen}
+          query={editingScreen?.query || ''}
+          columns={editingScreen?.columns || []}
+          onSaved={handleSaved}
+        />
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BENCHMARK_OPTIONS, MAX_COMPARE_SYMBOLS, parseCompareSymbols } from '@/lib/compare';
+
+interface CompareFormProps {
+  initialSymbols: string[];
+  initialBenchmark: string | null;
+}
+
+// Radix Select items cannot have an empty value
+const NO_BENCHMARK = 'none';
+
+export default function CompareForm({ initialSymbols, initialBenchmark }: CompareFormProps) {
+  const [symbols, setSymbols] = useState(initialSymbols.join(', '));
+  const [benchmark, setBenchmark] = useState(initialBenchmark || NO_BENCHMARK);
+  const router = useRouter();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = parseCompareSymbols(symbols);
+    if (parsed.length === 0) return;
+
+    const params = new URLSearchParams({ symbols: parsed.join(',') });
+    if (benchmark !== NO_BENCHMARK) {
+      params.set('benchmark', benchmark);
+    }
+
+    router.push(`/compare?${params.toString()}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+      <div className="flex-1 space-y-1">
+        <label htmlFor="compare-symbols" className="text-sm font-medium text-gray-500 dark:text-gray-400">
+          Symbols (up to {MAX_COMPARE_SYMBOLS}, comma-separated)
+        </label>
+        <Input
+          id="compare-symbols"
+          value={symbols}
+          onChange={(e) => setSymbols(e.target.value)}
+          placeholder="AAPL, MSFT, NVDA"
+        />
+      </div>
+      <div className="space-y-1">
+        <span className="text-sm font-medium text-gray-500 dark:text-gray-400">Benchmark</span>
+        <Select value={benchmark} onValueChange={setBenchmark}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BENCHMARK}>None</SelectItem>
+            {BENCHMARK_OPTIONS.map((option) => (
+              <SelectItem key={option.symbol} value={option.symbol}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button type="submit">Compare</Button>
+    </form>
+  );
+}
@@ -0,0 +1,55 @@
+import Link from 'next/link';
+import { formatDateTime, formatRelativeTime } from '@/lib/utils/formatters';
+import { NewsArticle } from '@/types';
+
+interface NewsListProps {
+  articles: NewsArticle[];
+  // Tag each article with the symbols it covers, for feeds spanning several
+  showSymbols?: boolean;
+  emptyMessage?: string;
+}
+
+/**
+ * Headlines with their source and age, each linking to the full article
+ */
+export default function NewsList({ articles, showSymbols = false, emptyMessage = 'No recent news.' }: NewsListProps) {
+  if (articles.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+      {articles.map((article) => (
+        <li key={article.id} className="py-3">
+          <a
+            href={article.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400"
+          >
+            {article.title}
+          </a>
+          {article.summary && (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 line-clamp-2">{article.summary}</p>
+          )}
+          <div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+            <span>{article.source}</span>
+            <span aria-hidden="true">·</span>
+            <time dateTime={article.publishedAt} title={formatDateTime(article.publishedAt)}>
+              {formatRelativeTime(article.publishedAt)}
+            </time>
+            {showSymbols && article.symbols.map((symbol) => (
+              <Link
+                key={symbol}
+                href={`/stock/${symbol}`}
+                className="px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                {symbol}
+              </Link>
+            ))}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
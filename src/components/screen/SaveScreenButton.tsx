@@ -0,0 +1,50 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { parseColumnsParam } from '@/lib/screener/results';
+import { SavedScreen } from '@/lib/screens/types';
+import SavedScreenDialog from './SavedScreenDialog';
+
+interface SaveScreenButtonProps {
+  query: string;
+  // Saved screen this view was opened from, if any
+  screen?: Pick<SavedScreen, 'id' | 'name' | 'description'> | null;
+}
+
+export default function SaveScreenButton({ query, screen }: SaveScreenButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [columns, setColumns] = useState<string[]>([]);
+  const router = useRouter();
+
+  const openDialog = () => {
+    // Save the columns currently chosen in the results table
+    setColumns(parseColumnsParam(new URLSearchParams(window.location.search).get('columns')));
+    setOpen(true);
+  };
+
+  const handleSaved = (saved: SavedScreen) => {
+    const params = new URLSearchParams({ q: saved.query, screen: saved.id });
+    if (saved.columns.length > 0) {
+      params.set('columns', saved.columns.join(','));
+    }
+    router.replace(`/screen?${params.toString()}`);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog}>
+        {screen ? 'Update Saved Screen' : 'Save Screen'}
+      </Button>
+      <SavedScreenDialog
+        open={open}
+        onOpenChange={setOpen}
+        screen={screen}
+        query={query}
+        columns={columns}
+        onSaved={handleSaved}
+      />
+    </>
+  );
+}
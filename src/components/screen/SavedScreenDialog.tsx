@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { SavedScreen } from '@/lib/screens/types';
+
+interface SavedScreenDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Screen being edited; when omitted the dialog creates a new screen
+  screen?: Pick<SavedScreen, 'id' | 'name' | 'description'> | null;
+  query: string;
+  columns: string[];
+  onSaved: (screen: SavedScreen) => void;
+}
+
+export default function SavedScreenDialog({
+  open,
+  onOpenChange,
+  screen,
+  query,
+  columns,
+  onSaved,
+}: SavedScreenDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [draftQuery, setDraftQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(screen?.name || '');
+      setDescription(screen?.description || '');
+      setDraftQuery(query);
+      setError(null);
+    }
+  }, [open, screen, query]);
+
+  const save = async (asNew: boolean) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const updating = screen && !asNew;
+      const response = await fetch(updating ? `/api/screens/${screen.id}` : '/api/screens', {
+        method: updating ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description, query: draftQuery, columns }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(updating ? 'Screen updated' : 'Screen saved');
+        onSaved(result.data);
+        onOpenChange(false);
+      } else {
+        setError(result.error || 'Failed to save screen');
+      }
+    } catch (err) {
+      console.error('Error saving screen:', err);
+      setError('An error occurred while saving the screen');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{screen ? 'Edit Screen' : 'Save Screen'}</DialogTitle>
+          <DialogDescription>
+            Saved screens appear on your home page and can be shared with a read-only link.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(false);
+          }}
+        >
+          <div className="space-y-1">
+            <label htmlFor="screen-name" className="text-sm font-medium">Name</label>
+            <Input
+              id="screen-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Quality compounders"
+              maxLength={100}
+              required
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="screen-description" className="text-sm font-medium">Description</label>
+            <textarea
+              id="screen-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <label htmlFor="screen-saved-query" className="text-sm font-medium">Query</label>
+            <textarea
+              id="screen-saved-query"
+              value={draftQuery}
+              onChange={(e) => setDraftQuery(e.target.value)}
+              rows={3}
+              spellCheck={false}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400 whitespace-pre-wrap">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            {screen && (
+              <Button type="button" variant="secondary" disabled={saving} onClick={() => save(true)}>
+                Save as New
+              </Button>
+            )}
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { SCREEN_FIELDS } from '@/lib/screener/fields';
+
+interface ScreenQueryFormProps {
+  initialQuery: string;
+}
+
+// Example queries shown under the editor
+const EXAMPLE_QUERIES = [
+  'Market Cap > 500B AND Return 1Y > 10',
+  'PE < 25 AND ROE > 15',
+  'Sales growth 3Y > 15 AND Debt to Equity < 1',
+];
+
+export default function ScreenQueryForm({ initialQuery }: ScreenQueryFormProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const [showFields, setShowFields] = useState(false);
+  const router = useRouter();
+
+  const runQuery = (nextQuery: string) => {
+    const trimmed = nextQuery.trim();
+    if (!trimmed) return;
+
+    // Keep the columns currently chosen in the results table
+    const columns = new URLSearchParams(window.location.search).get('columns');
+    const params = new URLSearchParams({ q: trimmed });
+    if (columns) {
+      params.set('columns', columns);
+    }
+
+    router.push(`/screen?${params.toString()}`);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runQuery(query);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label htmlFor="screen-query" className="text-sm font-medium text-gray-500 dark:text-gray-400">
+        Query
+      </label>
+      <textarea
+        id="screen-query"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd+Enter runs the query
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            runQuery(query);
+          }
+        }}
+        rows={4}
+        spellCheck={false}
+        placeholder="Market Cap > 10B AND PE < 25 AND Sales growth 3Y > 15"
+        className="w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="submit">Run Query</Button>
+        <Button type="button" variant="outline" onClick={() => setShowFields(!showFields)}>
+          {showFields ? 'Hide Fields' : 'Show Fields'}
+        </Button>
+      </div>
+
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        Examples:{' '}
+        {EXAMPLE_QUERIES.map((example, index) => (
+          <span key={example}>
+            {index > 0 && ' · '}
+            <button
+              type="button"
+              className="text-blue-600 dark:text-blue-400 hover:underline font-mono"
+              onClick={() => {
+                setQuery(example);
+                runQuery(example);
+              }}
+            >
+              {example}
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {showFields && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 text-sm">
+          {SCREEN_FIELDS.map((field) => (
+            <button
+              key={field.key}
+              type="button"
+              title={field.description}
+              className="text-left px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+              onClick={() => setQuery(query ? `${query.trimEnd()} AND ${field.label} ` : `${field.label} `)}
+            >
+              <span className="font-medium">{field.label}</span>
+              <span className="text-gray-500 ml-2">{field.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </form>
+  );
+}
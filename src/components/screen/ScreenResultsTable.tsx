@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getScreenField, SCREEN_FIELDS } from '@/lib/screener/fields';
+import { formatScreenValue, serializeSort, sortScreenRows } from '@/lib/screener/results';
+import { ScreenResultRow, ScreenSort } from '@/lib/screener/types';
+
+interface ScreenResultsTableProps {
+  rows: ScreenResultRow[];
+  initialColumns: string[];
+  initialSort: ScreenSort[];
+  initialPage: number;
+  pageSize?: number;
+}
+
+export default function ScreenResultsTable({
+  rows,
+  initialColumns,
+  initialSort,
+  initialPage,
+  pageSize = 25,
+}: ScreenResultsTableProps) {
+  const [columns, setColumns] = useState<string[]>(initialColumns);
+  const [sorts, setSorts] = useState<ScreenSort[]>(initialSort);
+  const [page, setPage] = useState(initialPage);
+  const [editingColumns, setEditingColumns] = useState(false);
+  const [draftColumns, setDraftColumns] = useState<string[]>(initialColumns);
+
+  const sortedRows = useMemo(() => sortScreenRows(rows, sorts), [rows, sorts]);
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / pageSize));
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = sortedRows.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+
+  // Mirror table state in the URL so the view can be bookmarked and shared
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+
+    params.set('columns', columns.join(','));
+    if (sorts.length > 0) {
+      params.set('sort', serializeSort(sorts));
+    } else {
+      params.delete('sort');
+    }
+    if (currentPage > 1) {
+      params.set('page', String(currentPage));
+    } else {
+      params.delete('page');
+    }
+
+    window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}`);
+  }, [columns, sorts, currentPage]);
+
+  // Click sorts by a column; shift+click adds it as a secondary sort
+  const handleSort = (key: string, addLevel: boolean) => {
+    const existing = sorts.find(sort => sort.key === key);
+    const toggled: ScreenSort = {
+      key,
+      direction: existing ? (existing.direction === 'desc' ? 'asc' : 'desc') : 'desc',
+    };
+
+    if (!addLevel) {
+      setSorts([toggled]);
+    } else if (existing) {
+      setSorts(sorts.map(sort => (sort.key === key ? toggled : sort)));
+    } else {
+      setSorts([...sorts, toggled]);
+    }
+
+    setPage(1);
+  };
+
+  const sortIndicator = (key: string) => {
+    const index = sorts.findIndex(sort => sort.key === key);
+    if (index === -1) return null;
+
+    const arrow = sorts[index].direction === 'asc' ? '↑' : '↓';
+    return (
+      <span className="ml-1 text-blue-600 dark:text-blue-400">
+        {arrow}{sorts.length > 1 ? index + 1 : ''}
+      </span>
+    );
+  };
+
+  const saveColumns = () => {
+    setColumns(draftColumns);
+    setEditingColumns(false);
+  };
+
+  const toggleDraftColumn = (key: string) => {
+    setDraftColumns(draftColumns.includes(key)
+      ? draftColumns.filter(column => column !== key)
+      : [...draftColumns, key]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {rows.length} {rows.length === 1 ? 'company' : 'companies'} matched
+          {sorts.length > 0 && ' · Shift+click a column to add a secondary sort'}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setDraftColumns(columns);
+            setEditingColumns(true);
+          }}
+        >
+          Edit Columns
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-12">#</TableHead>
+            <TableHead>
+              <button type="button" onClick={(e) => handleSort('name', e.shiftKey)}>
+                Name{sortIndicator('name')}
+              </button>
+            </TableHead>
+            {columns.map((key) => (
+              <TableHead key={key} className="text-right">
+                <button
+                  type="button"
+                  title={getScreenField(key)?.description}
+                  onClick={(e) => handleSort(key, e.shiftKey)}
+                >
+                  {getScreenField(key)?.label || key}{sortIndicator(key)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {pageRows.map((row, index) => (
+            <TableRow key={row.symbol}>
+              <TableCell className="text-gray-500">{(currentPage - 1) * pageSize + index + 1}</TableCell>
+              <TableCell>
+                <Link href={`/stock/${row.symbol}`} className="text-blue-600 dark:text-blue-400 hover:underline font-medium">
+                  {row.name}
+                </Link>
+                <span className="ml-2 text-xs text-gray-500">{row.symbol}</span>
+              </TableCell>
+              {columns.map((key) => (
+                <TableCell key={key} className="text-right tabular-nums">
+                  {formatScreenValue(row.values[key] ?? null, getScreenField(key)?.unit || 'number')}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+        {rows.length === 0 && (
+          <TableCaption>No companies match this query.</TableCaption>
+        )}
+      </Table>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Page {currentPage} of {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" disabled={currentPage <= 1} onClick={() => setPage(currentPage - 1)}>
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" disabled={currentPage >= pageCount} onClick={() => setPage(currentPage + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={editingColumns} onOpenChange={setEditingColumns}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Columns</DialogTitle>
+            <DialogDescription>Choose the ratios shown in the results table.</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-80 overflow-y-auto">
+            {SCREEN_FIELDS.map((field) => (
+              <label key={field.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draftColumns.includes(field.key)}
+                  onChange={() => toggleDraftColumn(field.key)}
+                />
+                {field.label}
+              </label>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingColumns(false)}>Cancel</Button>
+            <Button onClick={saveColumns}>Save Columns</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
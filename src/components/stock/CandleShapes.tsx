@@ -0,0 +1,74 @@
+import { ChartRow } from './chartIndicators';
+
+export const UP_COLOR = '#10B981';
+export const DOWN_COLOR = '#EF4444';
+
+/**
+ * Props recharts passes to a custom Bar shape. The bar spans low to high,
+ * so y is the high and y + height the low.
+ */
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartRow;
+}
+
+/**
+ * Map the candle's prices to pixel positions within the bar
+ */
+function candleGeometry({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  const open = Number(payload?.open);
+  const high = Number(payload?.high);
+  const low = Number(payload?.low);
+  const close = Number(payload?.candleClose);
+
+  const range = high - low;
+  const toY = (price: number) => (range > 0 ? y + ((high - price) / range) * height : y);
+
+  return {
+    center: x + width / 2,
+    width,
+    x,
+    highY: y,
+    lowY: y + height,
+    openY: toY(open),
+    closeY: toY(close),
+    color: close >= open ? UP_COLOR : DOWN_COLOR,
+  };
+}
+
+export function CandlestickShape(props: CandleShapeProps) {
+  const { center, width, x, highY, lowY, openY, closeY, color } = candleGeometry(props);
+  const bodyWidth = Math.max(width * 0.7, 1);
+  const bodyTop = Math.min(openY, closeY);
+  const bodyHeight = Math.max(Math.abs(closeY - openY), 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={highY} y2={lowY} stroke={color} strokeWidth={1} />
+      <rect
+        x={x + (width - bodyWidth) / 2}
+        y={bodyTop}
+        width={bodyWidth}
+        height={bodyHeight}
+        fill={color}
+        stroke={color}
+      />
+    </g>
+  );
+}
+
+export function OhlcShape(props: CandleShapeProps) {
+  const { center, width, highY, lowY, openY, closeY, color } = candleGeometry(props);
+  const tick = Math.max(width * 0.4, 2);
+
+  return (
+    <g stroke={color} strokeWidth={1.5}>
+      <line x1={center} x2={center} y1={highY} y2={lowY} />
+      <line x1={center - tick} x2={center} y1={openY} y2={openY} />
+      <line x1={center} x2={center + tick} y1={closeY} y2={closeY} />
+    </g>
+  );
+}
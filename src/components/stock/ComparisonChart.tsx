@@ -0,0 +1,147 @@
+'use client';
+
+import { ReactNode } from 'react';
+import Link from 'next/link';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine
+} from 'recharts';
+import { BENCHMARK_COLOR, buildComparison, COMPARE_COLORS } from '@/lib/compare';
+import { StockPrice } from '@/types';
+
+interface ComparisonChartProps {
+  series: { symbol: string; bars: StockPrice[]; isBenchmark: boolean }[];
+  rangeControls: ReactNode;
+  // Shown instead of the chart while prices load or when they failed to
+  statusMessage?: string | null;
+  formatAxisDate: (date: string) => string;
+  formatTooltipDate: (date: string) => string;
+}
+
+const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * Returns of several symbols over the selected range, each rebased to 0% at its first close
+ */
+export default function ComparisonChart({
+  series,
+  rangeControls,
+  statusMessage,
+  formatAxisDate,
+  formatTooltipDate,
+}: ComparisonChartProps) {
+  const { rows, totalReturns } = buildComparison(series);
+
+  let colorIndex = 0;
+  const colors = series.map(item =>
+    item.isBenchmark ? BENCHMARK_COLOR : COMPARE_COLORS[colorIndex++ % COMPARE_COLORS.length]
+  );
+
+  const CompareTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: { date: string }; value: number | null; name: string; color?: string }>;
+  }) => {
+    if (!active || !payload || !payload.length || !payload[0]?.payload?.date) {
+      return null;
+    }
+
+    return (
+      <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded shadow-lg">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{formatTooltipDate(payload[0].payload.date)}</p>
+        {[...payload]
+          .filter(entry => typeof entry.value === 'number')
+          .sort((a, b) => (b.value as number) - (a.value as number))
+          .map(entry => (
+            <p key={entry.name} className="text-sm">
+              <span style={{ color: entry.color }}>{entry.name}: </span>
+              <span className="font-semibold">{formatReturn(entry.value as number)}</span>
+            </p>
+          ))}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <ul className="flex flex-wrap gap-x-6 gap-y-2">
+          {series.map((item, index) => {
+            const total = totalReturns[item.symbol];
+
+            return (
+              <li key={item.symbol} className="flex items-center gap-2 text-sm">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: colors[index] }} />
+                {item.isBenchmark ? (
+                  <span className="font-medium">{item.symbol} <span className="text-gray-500">(benchmark)</span></span>
+                ) : (
+                  <Link href={`/stock/${item.symbol}`} className="font-medium hover:underline">{item.symbol}</Link>
+                )}
+                <span
+                  className={`tabular-nums ${
+                    total === null ? 'text-gray-500' : total >= 0 ? 'text-green-600' : 'text-red-600'
+                  }`}
+                >
+                  {total === null ? 'No data' : formatReturn(total)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        {rangeControls}
+      </div>
+
+      <div className="h-96">
+        {statusMessage || rows.length === 0 ? (
+          <p className="flex h-full items-center justify-center text-gray-500">
+            {statusMessage || 'No price data available for this time range.'}
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={rows} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
+              <XAxis
+                dataKey="date"
+                tickFormatter={formatAxisDate}
+                interval="preserveStartEnd"
+                minTickGap={30}
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#374151', opacity: 0.3 }}
+                tickLine={{ stroke: '#374151', opacity: 0.3 }}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => `${value.toFixed(0)}%`}
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#374151', opacity: 0.3 }}
+                tickLine={{ stroke: '#374151', opacity: 0.3 }}
+              />
+              <Tooltip content={<CompareTooltip />} />
+              <ReferenceLine y={0} stroke="#374151" strokeDasharray="3 3" />
+              {series.map((item, index) => (
+                <Line
+                  key={item.symbol}
+                  type="monotone"
+                  dataKey={item.symbol}
+                  name={item.symbol}
+                  stroke={colors[index]}
+                  strokeWidth={item.isBenchmark ? 1.5 : 2}
+                  strokeDasharray={item.isBenchmark ? '5 5' : undefined}
+                  dot={false}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DividendSummary, FREQUENCY_LABELS } from '@/lib/dividends';
+import { formatCurrency, formatDay } from '@/lib/utils/formatters';
+import { Provenance } from '@/types';
+
+interface DividendsPanelProps {
+  symbol: string;
+  summary: DividendSummary;
+  provenance?: Provenance;
+}
+
+// Payments listed before "Show all"
+const RECENT_PAYMENTS = 8;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}%`);
+
+const formatOptionalDate = (date?: string) => (date ? formatDay(date) : '—');
+
+// Dividends are often fractions of a cent after splits
+const formatAmount = (value: number) =>
+  value > 0 && value < 0.1 ? `$${value.toFixed(4).replace(/0+$/, '')}` : formatCurrency(value);
+
+/**
+ * Dividend history: trailing yield and payout, annual totals and each payment
+ */
+export default function DividendsPanel({ symbol, summary, provenance }: DividendsPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  if (summary.payments.length === 0) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold mb-2">Dividends</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{symbol} has not paid any cash dividends.</p>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: 'Dividend (TTM)', value: formatAmount(summary.ttmAmount), title: 'Per share, ex-dates in the last 12 months' },
+    { label: 'Yield (TTM)', value: formatPercent(summary.ttmYield), title: 'Trailing dividends as a percentage of the latest close' },
+    { label: 'Payout Ratio', value: formatPercent(summary.payoutRatio), title: 'Trailing dividends as a percentage of trailing EPS' },
+    {
+      label: 'Frequency',
+      value: summary.frequency === null ? '—' : FREQUENCY_LABELS[summary.frequency] || `${summary.frequency}× a year`,
+      title: 'Payments per year of the latest dividend',
+    },
+    {
+      label: 'Paid Every Year',
+      value: `${summary.consecutiveYears} yr`,
+      title: 'Complete calendar years in a row with at least one payment',
+    },
+    {
+      label: 'Raised',
+      value: `${summary.increaseYears} of ${Math.max(summary.consecutiveYears - 1, 0)} yr`,
+      title: 'Years whose total beat the year before, within that streak',
+    },
+  ];
+
+  const payments = showAll ? summary.payments : summary.payments.slice(0, RECENT_PAYMENTS);
+  const isSplitAdjusted = summary.payments.some(payment => payment.adjustedAmount !== payment.cashAmount);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Dividends</h2>
+        <ProvenanceBadge provenance={provenance} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-gray-100 dark:bg-gray-900 p-3 rounded-lg" title={stat.title}>
+            <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+            <div className="text-lg font-semibold tabular-nums">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Dividends per share by year</h3>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={summary.annual} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
+              <XAxis
+                dataKey="year"
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#374151', opacity: 0.3 }}
+                tickLine={{ stroke: '#374151', opacity: 0.3 }}
+              />
+              <YAxis
+                tickFormatter={(value) => formatAmount(value)}
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#374151', opacity: 0.3 }}
+                tickLine={{ stroke: '#374151', opacity: 0.3 }}
+              />
+              <Tooltip
+                formatter={(value: number, _name, item) => [
+                  `${formatAmount(value)} (${item.payload.payments} payment${item.payload.payments === 1 ? '' : 's'})`,
+                  item.payload.partial ? 'Year to date' : 'Dividends',
+                ]}
+              />
+              <Bar dataKey="amount" isAnimationActive={false}>
+                {summary.annual.map((year) => (
+                  <Cell key={year.year} fill="#10B981" fillOpacity={year.partial ? 0.4 : 0.8} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Declared</TableHead>
+              <TableHead>Ex-Date</TableHead>
+              <TableHead>Record Date</TableHead>
+              <TableHead>Pay Date</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {payments.map((payment) => (
+              <TableRow key={payment.exDividendDate}>
+                <TableCell>{formatOptionalDate(payment.declarationDate)}</TableCell>
+                <TableCell>{formatOptionalDate(payment.exDividendDate)}</TableCell>
+                <TableCell>{formatOptionalDate(payment.recordDate)}</TableCell>
+                <TableCell>{formatOptionalDate(payment.payDate)}</TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatAmount(payment.adjustedAmount)}
+                  {payment.adjustedAmount !== payment.cashAmount && (
+                    <span className="ml-2 text-xs text-gray-500">({formatAmount(payment.cashAmount)} as paid)</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="flex items-center justify-between mt-2 text-sm text-gray-500 dark:text-gray-400">
+          <span>{isSplitAdjusted ? 'Amounts are adjusted for later stock splits.' : ''}</span>
+          {summary.payments.length > RECENT_PAYMENTS && (
+            <button
+              type="button"
+              onClick={() => setShowAll(!showAll)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {showAll ? 'Show recent' : `Show all ${summary.payments.length}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
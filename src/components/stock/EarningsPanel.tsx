@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import { summarizeEarnings, TIMING_LABELS } from '@/lib/earnings';
+import { isSynthetic } from '@/lib/provenance';
+import { formatCurrency, formatDay } from '@/lib/utils/formatters';
+import { EarningsReport, Provenance, StockPrice } from '@/types';
+
+interface EarningsPanelProps {
+  symbol: string;
+  reports: EarningsReport[];
+  provenance?: Provenance;
+}
+
+// Post-earnings moves need real daily closes: five years of them where the
+// provider keeps daily bars that long, otherwise one
+const DAILY_BAR_RANGES = ['5Y', '1Y'];
+
+/**
+ * Daily bars to measure post-earnings moves against, or none when every range
+ * failed or only generated prices were available
+ */
+async function loadDailyBars(symbol: string, signal: AbortSignal): Promise<StockPrice[]> {
+  for (const range of DAILY_BAR_RANGES) {
+    const response = await fetch(
+      `/api/stocks/${encodeURIComponent(symbol)}/prices?range=${range}&interval=1d`,
+      { signal }
+    );
+    const result = await response.json();
+
+    if (result.success && !isSynthetic(result.provenance)) {
+      return result.data;
+    }
+  }
+
+  return [];
+}
+
+// Quarters listed before "Show all"
+const RECENT_RESULTS = 8;
+
+const formatOptionalCurrency = (value: number | null) => (value === null ? '—' : formatCurrency(value));
+
+const formatChange = (value: number | null, digits = 1) =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+
+const changeClass = (value: number | null) =>
+  value === null
+    ? 'text-gray-500'
+    : value >= 0
+      ? 'text-green-600 dark:text-green-400'
+      : 'text-red-600 dark:text-red-400';
+
+/**
+ * Earnings history: the next report date, EPS and revenue against estimates
+ * and how the stock moved after each report
+ */
+export default function EarningsPanel({ symbol, reports, provenance }: EarningsPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  // Moves are shown as unavailable until the daily bars arrive
+  const [dailyBars, setDailyBars] = useState<StockPrice[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    loadDailyBars(symbol, controller.signal)
+      .then(setDailyBars)
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error(`Error loading daily bars for ${symbol}:`, error);
+      });
+
+    return () => controller.abort();
+  }, [symbol]);
+
+  const summary = useMemo(() => summarizeEarnings(reports, dailyBars), [reports, dailyBars]);
+
+  if (summary.results.length === 0 && !summary.next) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold mb-2">Earnings</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">No earnings reports found for {symbol}.</p>
+      </div>
+    );
+  }
+
+  const { next } = summary;
+  const stats = [
+    {
+      label: 'Next Report',
+      value: next ? formatDay(next.reportDate) : '—',
+      title: next?.timing ? TIMING_LABELS[next.timing] : 'Scheduled report date',
+    },
+    {
+      label: 'EPS Estimate',
+      value: formatOptionalCurrency(next?.epsEstimate ?? null),
+      title: 'Consensus EPS for the next report',
+    },
+    {
+      label: 'Revenue Estimate',
+      value: formatOptionalCurrency(next?.revenueEstimate ?? null),
+      title: 'Consensus revenue for the next report',
+    },
+    {
+      label: 'EPS Beats',
+      value: summary.epsCompared > 0 ? `${summary.epsBeats} of ${summary.epsCompared}` : '—',
+      title: 'Reported quarters whose EPS beat the estimate',
+    },
+    {
+      label: 'Avg. Move',
+      value: summary.averageMove === null ? '—' : `±${summary.averageMove.toFixed(1)}%`,
+      title: 'Average size of the one-day move after a report',
+    },
+  ];
+
+  const results = showAll ? summary.results : summary.results.slice(0, RECENT_RESULTS);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Earnings</h2>
+        <ProvenanceBadge provenance={provenance} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
+        {stats.map((stat) => (
+          <div key={stat.label} className="bg-gray-100 dark:bg-gray-900 p-3 rounded-lg" title={stat.title}>
+            <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+            <div className="text-lg font-semibold tabular-nums">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {summary.results.length > 0 && (
+        <div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quarter</TableHead>
+                <TableHead>Reported</TableHead>
+                <TableHead className="text-right">EPS Est.</TableHead>
+                <TableHead className="text-right">EPS</TableHead>
+                <TableHead className="text-right">Surprise</TableHead>
+                <TableHead className="text-right">Revenue Est.</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Surprise</TableHead>
+                <TableHead className="text-right">1-Day Move</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result) => (
+                <TableRow key={result.reportDate}>
+                  <TableCell>
+                    {result.fiscalPeriod && result.fiscalYear ? `${result.fiscalPeriod} ${result.fiscalYear}` : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {formatDay(result.reportDate)}
+                    {result.timing && (
+                      <span className="ml-2 text-xs text-gray-500">{TIMING_LABELS[result.timing]}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatOptionalCurrency(result.epsEstimate)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatOptionalCurrency(result.epsActual)}</TableCell>
+                  <TableCell className={`text-right tabular-nums ${changeClass(result.epsSurprise)}`}>
+                    {formatChange(result.epsSurprise)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatOptionalCurrency(result.revenueEstimate)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatOptionalCurrency(result.revenueActual)}</TableCell>
+                  <TableCell className={`text-right tabular-nums ${changeClass(result.revenueSurprise)}`}>
+                    {formatChange(result.revenueSurprise)}
+                  </TableCell>
+                  <TableCell className={`text-right tabular-nums ${changeClass(result.move)}`}>
+                    {formatChange(result.move, 2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between mt-2 text-sm text-gray-500 dark:text-gray-400">
+            <span>Moves run from the last close before a report to the first close after it.</span>
+            {summary.results.length > RECENT_RESULTS && (
+              <button
+                type="button"
+                onClick={() => setShowAll(!showAll)}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {showAll ? 'Show recent' : `Show all ${summary.results.length}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
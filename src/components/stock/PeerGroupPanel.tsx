@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import PeerTable from '@/components/stock/PeerTable';
+import type { PeerGroup } from '@/lib/screener/peers';
+
+interface PeerGroupPanelProps {
+  symbol: string;
+}
+
+type PeerGroupState =
+  | { status: 'loading' }
+  | { status: 'loaded'; group: PeerGroup | null }
+  | { status: 'error'; error: string };
+
+/**
+ * Peer comparison, loaded once the page has rendered since it needs the whole
+ * screening universe; hidden when the company has no industry or sector
+ */
+export default function PeerGroupPanel({ symbol }: PeerGroupPanelProps) {
+  const [state, setState] = useState<PeerGroupState>({ status: 'loading' });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+
+    fetch(`/api/stocks/${encodeURIComponent(symbol)}/peers`, { signal: controller.signal })
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load peers');
+        }
+        setState({ status: 'loaded', group: result.data });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error(`Error loading peers for ${symbol}:`, error);
+        setState({ status: 'error', error: error.message });
+      });
+
+    return () => controller.abort();
+  }, [symbol]);
+
+  if (state.status === 'loaded' && !state.group) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mt-8">
+      {state.status === 'loaded' && state.group ? (
+        <PeerTable
+          symbol={state.group.symbol}
+          basis={state.group.basis}
+          group={state.group.group}
+          rows={state.group.rows}
+          median={state.group.median}
+          columns={state.group.columns}
+        />
+      ) : (
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Peer Comparison</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {state.status === 'error' ? `Peers could not be loaded: ${state.error}` : 'Loading peers…'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MAX_COMPARE_SYMBOLS } from '@/lib/compare';
+import { getScreenField } from '@/lib/screener/fields';
+import { formatScreenValue, sortScreenRows } from '@/lib/screener/results';
+import { ScreenResultRow, ScreenSort } from '@/lib/screener/types';
+
+interface PeerTableProps {
+  symbol: string;
+  basis: 'industry' | 'sector';
+  group: string;
+  rows: ScreenResultRow[];
+  median: Record<string, number | null>;
+  columns: string[];
+}
+
+export default function PeerTable({ symbol, basis, group, rows, median, columns }: PeerTableProps) {
+  const [sort, setSort] = useState<ScreenSort>({ key: 'marketCap', direction: 'desc' });
+
+  const sortedRows = useMemo(() => sortScreenRows(rows, [sort]), [rows, sort]);
+
+  const handleSort = (key: string) => {
+    setSort(current => ({
+      key,
+      direction: current.key === key && current.direction === 'desc' ? 'asc' : 'desc',
+    }));
+  };
+
+  const sortIndicator = (key: string) => {
+    if (sort.key !== key) return null;
+    return (
+      <span className="ml-1 text-blue-600 dark:text-blue-400">
+        {sort.direction === 'asc' ? '↑' : '↓'}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <h2 className="text-xl font-semibold mb-1">Peer Comparison</h2>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Companies in the same {basis}: {group}
+        </p>
+        {rows.length > 1 && (
+          <Link
+            href={`/compare?symbols=${[symbol, ...sortedRows.map(row => row.symbol).filter(peer => peer !== symbol)]
+              .slice(0, MAX_COMPARE_SYMBOLS)
+              .join(',')}`}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Compare performance
+          </Link>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>
+              <button type="button" onClick={() => handleSort('name')}>
+                Name{sortIndicator('name')}
+              </button>
+            </TableHead>
+            {columns.map((key) => (
+              <TableHead key={key} className="text-right">
+                <button
+                  type="button"
+                  title={getScreenField(key)?.description}
+                  onClick={() => handleSort(key)}
+                >
+                  {getScreenField(key)?.label || key}{sortIndicator(key)}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sortedRows.map((row) => {
+            const isCurrent = row.symbol === symbol;
+
+            return (
+              <TableRow
+                key={row.symbol}
+                className={isCurrent ? 'bg-blue-50 dark:bg-blue-900/20 font-semibold' : undefined}
+                aria-current={isCurrent ? 'true' : undefined}
+              >
+                <TableCell>
+                  {isCurrent ? (
+                    <span>{row.name}</span>
+                  ) : (
+                    <Link href={`/stock/${row.symbol}`} className="text-blue-600 dark:text-blue-400 hover:underline font-medium">
+                      {row.name}
+                    </Link>
+                  )}
+                  <span className="ml-2 text-xs text-gray-500">{row.symbol}</span>
+                </TableCell>
+                {columns.map((key) => (
+                  <TableCell key={key} className="text-right tabular-nums">
+                    {formatScreenValue(row.values[key] ?? null, getScreenField(key)?.unit || 'number')}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Median of {rows.length} companies</TableCell>
+            {columns.map((key) => (
+              <TableCell key={key} className="text-right tabular-nums">
+                {formatScreenValue(median[key] ?? null, getScreenField(key)?.unit || 'number')}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableFooter>
+        {rows.length < 2 && (
+          <TableCaption>No other companies in this {basis} are tracked yet.</TableCaption>
+        )}
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BAR_INTERVALS, isBarInterval, RANGE_PRESETS, rangeSpecInterval } from '@/lib/api/rangeSpec';
+import { BarInterval, RangeSpec } from '@/types';
+
+interface RangeControlsProps {
+  value: RangeSpec;
+  onChange: (value: RangeSpec) => void;
+}
+
+// Radix Select items cannot have an empty value
+const AUTO_INTERVAL = 'auto';
+
+const buttonClass = (selected: boolean) =>
+  `px-3 py-1 text-sm rounded-md ${
+    selected
+      ? 'bg-blue-600 text-white'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+  }`;
+
+/**
+ * Preset range buttons, a custom from/to picker and the bar interval select
+ */
+export default function RangeControls({ value, onChange }: RangeControlsProps) {
+  const [showCustom, setShowCustom] = useState(value.range === 'custom');
+  const [from, setFrom] = useState(value.from || '');
+  const [to, setTo] = useState(value.to || '');
+
+  const defaultInterval = rangeSpecInterval({ ...value, interval: undefined });
+
+  // A new range starts from its own default interval
+  const handleCustomSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!from) return;
+
+    onChange({ range: 'custom', from, to: to || undefined });
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <div className="flex flex-wrap justify-end gap-2">
+        {RANGE_PRESETS.map((preset) => (
+          <button
+            key={preset}
+            onClick={() => {
+              setShowCustom(false);
+              onChange({ range: preset });
+            }}
+            className={buttonClass(value.range === preset)}
+          >
+            {preset}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowCustom(!showCustom)}
+          className={buttonClass(value.range === 'custom')}
+          aria-expanded={showCustom}
+        >
+          Custom
+        </button>
+        <Select
+          value={value.interval || AUTO_INTERVAL}
+          onValueChange={(interval) =>
+            onChange({ ...value, interval: isBarInterval(interval) ? interval : undefined })
+          }
+        >
+          <SelectTrigger className="h-8 w-36" aria-label="Bar interval">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO_INTERVAL}>Auto ({BAR_INTERVALS[defaultInterval].label})</SelectItem>
+            {(Object.keys(BAR_INTERVALS) as BarInterval[]).map((interval) => (
+              <SelectItem key={interval} value={interval}>
+                {BAR_INTERVALS[interval].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {showCustom && (
+        <form onSubmit={handleCustomSubmit} className="flex items-center gap-2 text-sm">
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="h-8 w-40"
+            aria-label="From date"
+            required
+          />
+          <span className="text-gray-500">to</span>
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="h-8 w-40"
+            aria-label="To date"
+          />
+          <Button type="submit" size="sm" disabled={!from}>
+            Apply
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { 
   LineChart, 
   Line, 
+  BarChart,
+  Bar,
+  Area,
+  Cell,
+  ComposedChart,
   XAxis, 
   YAxis, 
   CartesianGrid, 
@@ -11,54 +16,207 @@ import {
   ResponsiveContainer,
   ReferenceLine
 } from 'recharts';
-import { StockPrices, TimeRange } from '@/types/stock';
-import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils/formatters';
+import { CorporateActions, EarningsReport, PriceAdjustment, Provenance, RangeSpec, StockPrice, StockPrices } from '@/types';
+import { formatCurrency, formatDate, formatDateTime, formatNumber } from '@/lib/utils/formatters';
+import { percentChange as getPercentChange } from '@/lib/ratios/compute';
+import { isRetryable, UpstreamError } from '@/lib/api/errors';
+import { DEFAULT_PRICE_ADJUSTMENT, PRICE_ADJUSTMENT_OPTIONS } from '@/lib/api/priceAdjustments';
+import { isIntradayInterval, isTimeRange, parseRangeSpec, rangeSpecInterval, rangeSpecKey, rangeSpecToParams } from '@/lib/api/rangeSpec';
+import { ChartPane } from '@/lib/preferences/types';
+import { loadChartPreferences, useChartStore } from '@/store/chartStore';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import { BAR_CHART_TYPES, buildChartRows, CHART_TYPE_OPTIONS, ChartRow, OVERLAY_OPTIONS, PANE_OPTIONS } from './chartIndicators';
+import { CandlestickShape, DOWN_COLOR, OhlcShape, UP_COLOR } from './CandleShapes';
+import { buildEventMarkers } from './chartMarkers';
+import ComparisonChart from './ComparisonChart';
+import RangeControls from './RangeControls';
+
+// Charts sharing this id move their cursors and tooltips together
+const CHART_SYNC_ID = 'stock-chart';
+
+// Fixed axis width keeps the price pane and sub-panes aligned
+const Y_AXIS_WIDTH = 64;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A price load that failed with a transient provider error (rate limit,
+// timeout, outage) is retried this many times, this long apart
+const MAX_LOAD_RETRIES = 3;
+const LOAD_RETRY_DELAY_MS = 5000;
+
+interface LoadedPrices {
+  key: string;
+  series: Record<string, StockPrice[]>;
+  provenance?: Record<string, Provenance | undefined>;
+  error?: string;
+  // The load failed but another attempt is scheduled
+  retrying?: boolean;
+}
+
+/**
+ * Fetch the price history of each symbol for a range spec
+ */
+async function fetchPriceHistory(
+  symbols: string[],
+  spec: RangeSpec,
+  adjustment: PriceAdjustment,
+  signal: AbortSignal
+) {
+  const params = rangeSpecToParams(spec);
+  params.set('adjustment', adjustment);
+  const series: Record<string, StockPrice[]> = {};
+  const provenance: Record<string, Provenance | undefined> = {};
+
+  await Promise.all(symbols.map(async (symbol) => {
+    const response = await fetch(`/api/stocks/${encodeURIComponent(symbol)}/prices?${params}`, { signal });
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new UpstreamError(result.code || 'unknown', result.error || `Failed to load prices for ${symbol}`);
+    }
+
+    series[symbol] = result.data;
+    provenance[symbol] = result.provenance;
+  }));
+
+  return { series, provenance };
+}
+
+export interface ComparisonSeries {
+  symbol: string;
+  prices: StockPrices;
+  isBenchmark?: boolean;
+}
 
 interface StockChartProps {
   symbol: string;
   name: string;
   prices: StockPrices;
+  // Splits and dividends marked on the price chart
+  corporateActions?: CorporateActions | null;
+  // Earnings reports marked on the price chart
+  earnings?: EarningsReport[] | null;
+  // Other symbols to plot against this one; when given (even empty) the chart
+  // shows returns rebased to 0% instead of prices
+  comparisons?: ComparisonSeries[];
 }
 
-export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' | 'name'>) {
-  const [timeRange, setTimeRange] = useState<TimeRange>('1D');
+export default function StockChart({ symbol, prices, corporateActions, earnings, comparisons }: Omit<StockChartProps, 'name'>) {
+  const {
+    range: rangeSpec,
+    adjustment,
+    showEvents,
+    chartType,
+    overlays,
+    panes,
+    setRange,
+    setAdjustment,
+    toggleEvents,
+    setChartType,
+    toggleOverlay,
+    togglePane,
+  } = useChartStore();
+  const [loaded, setLoaded] = useState<LoadedPrices | null>(null);
+  const [retry, setRetry] = useState({ key: '', attempt: 0 });
+  
+  // Load the user's saved indicator selection once mounted
+  useEffect(() => {
+    loadChartPreferences().catch(error => console.error('Error loading chart preferences:', error));
+  }, []);
   
   // Ensure prices is always a valid object
-  const safetyPrices = prices || {
-    daily: [],
-    weekly: [],
-    monthly: [],
-    threeMonth: [],
-    yearly: [],
-    fiveYear: []
+  const safetyPrices: StockPrices = prices || { bars: {}, provenance: {} };
+  
+  const interval = rangeSpecInterval(rangeSpec);
+  const rangeKey = rangeSpecKey(rangeSpec);
+  // The store hands out a new range spec object whenever saved preferences load, so
+  // the one the loader depends on is rebuilt only when its parameters change
+  const rangeParams = rangeSpecToParams(rangeSpec).toString();
+  const requestedRange = useMemo(() => parseRangeSpec(new URLSearchParams(rangeParams)), [rangeParams]);
+  // The page preloads the split-adjusted bars of some time ranges at their default interval
+  const { range } = rangeSpec;
+  const preloadedRange = isTimeRange(range) && !rangeSpec.interval && adjustment === DEFAULT_PRICE_ADJUSTMENT
+    && [safetyPrices, ...(comparisons || []).map(series => series.prices)].every(source => source.bars[range])
+    ? range
+    : null;
+  const symbols = [symbol, ...(comparisons || []).map(series => series.symbol)];
+  const symbolsKey = symbols.join(',');
+  const loadKey = `${symbolsKey}|${rangeKey}|${adjustment}`;
+  const attempt = retry.key === loadKey ? retry.attempt : 0;
+  
+  // Other ranges, intervals and adjustments are loaded on demand
+  useEffect(() => {
+    if (preloadedRange) return;
+    
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    
+    fetchPriceHistory(symbolsKey.split(','), requestedRange, adjustment, controller.signal)
+      .then(({ series, provenance }) => setLoaded({ key: loadKey, series, provenance }))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading price history:', error);
+        
+        const retrying = error instanceof UpstreamError && isRetryable(error.code) && attempt < MAX_LOAD_RETRIES;
+        setLoaded({ key: loadKey, series: {}, error: error.message, retrying });
+        
+        if (retrying) {
+          retryTimer = setTimeout(() => setRetry({ key: loadKey, attempt: attempt + 1 }), LOAD_RETRY_DELAY_MS);
+        }
+      });
+    
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [preloadedRange, symbolsKey, requestedRange, adjustment, loadKey, attempt]);
+  
+  const current = loaded?.key === loadKey ? loaded : null;
+  const isLoading = !preloadedRange && !current;
+  const loadError = preloadedRange ? undefined : current?.error;
+  const isRetrying = !preloadedRange && !!current?.retrying;
+  
+  // Get the price data for the selected range
+  const getPriceData = (seriesSymbol: string, source: StockPrices = safetyPrices): StockPrice[] => {
+    if (preloadedRange) {
+      return source.bars[preloadedRange] || [];
+    }
+    return current?.series[seriesSymbol] || [];
   };
   
-  // Get the appropriate price data based on the selected time range
-  const getPriceData = () => {
-    try {
-      switch (timeRange) {
-        case '1D':
-          return safetyPrices.daily || [];
-        case '1W':
-          return safetyPrices.weekly || [];
-        case '1M':
-          return safetyPrices.monthly || [];
-        case '3M':
-          return safetyPrices.threeMonth || [];
-        case '1Y':
-          return safetyPrices.yearly || [];
-        case '5Y':
-          return safetyPrices.fiveYear || [];
-        default:
-          return safetyPrices.daily || [];
-      }
-    } catch (error) {
-      console.error('Error getting price data:', error);
-      return [];
+  // Where the series for the selected range came from
+  const getProvenance = (seriesSymbol: string, source: StockPrices = safetyPrices): Provenance | undefined => {
+    if (preloadedRange) {
+      return source.provenance[preloadedRange];
     }
+    return current?.provenance?.[seriesSymbol];
   };
   
-  const priceData = getPriceData();
+  const priceData = getPriceData(symbol);
+  const isCompareMode = comparisons !== undefined;
+  const comparisonSeries = comparisons
+    ? [
+        { symbol, bars: priceData, isBenchmark: false },
+        ...comparisons.map(series => ({
+          symbol: series.symbol,
+          bars: getPriceData(series.symbol, series.prices),
+          isBenchmark: !!series.isBenchmark,
+        })),
+      ]
+    : [];
+  const spanDays = priceData.length > 1
+    ? (priceData[priceData.length - 1].timestamp - priceData[0].timestamp) / DAY_MS
+    : 0;
+  const chartRows = useMemo(
+    () => buildChartRows(priceData, chartType, overlays, panes),
+    [priceData, chartType, overlays, panes]
+  );
+  const isBarChart = BAR_CHART_TYPES.includes(chartType);
+  const markers = useMemo(
+    () => (showEvents ? buildEventMarkers(priceData, corporateActions, earnings) : []),
+    [showEvents, corporateActions, earnings, priceData]
+  );
+  const markerByDate = new Map(markers.map(marker => [marker.date, marker]));
   
   // Calculate price change
   const calculatePriceChange = () => {
@@ -67,18 +225,16 @@ export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' |
         return { change: 0, percentChange: 0 };
       }
       
-      const firstPrice = priceData[0]?.price || 0;
-      const lastPrice = priceData[priceData.length - 1]?.price || 0;
+      const firstPrice = priceData[0]?.close || 0;
+      const lastPrice = priceData[priceData.length - 1]?.close || 0;
+      const percentChange = getPercentChange(firstPrice, lastPrice);
       
       // Prevent division by zero
-      if (firstPrice === 0) {
+      if (percentChange === null) {
         return { change: 0, percentChange: 0 };
       }
       
-      const change = lastPrice - firstPrice;
-      const percentChange = (change / firstPrice) * 100;
-      
-      return { change, percentChange };
+      return { change: lastPrice - firstPrice, percentChange };
     } catch (error) {
       console.error('Error calculating price change:', error);
       return { change: 0, percentChange: 0 };
@@ -88,14 +244,14 @@ export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' |
   const { change, percentChange } = calculatePriceChange();
   const isPositive = change >= 0;
   
-  // Format the date for the tooltip based on the time range
+  // Format the date for the tooltip based on the bar interval
   const formatTooltipDate = (date: string) => {
     if (!date) return '';
     
     try {
       const dateObj = new Date(date);
       
-      if (timeRange === '1D') {
+      if (isIntradayInterval(interval)) {
         return formatDateTime(dateObj);
       } else {
         return formatDate(dateObj);
@@ -107,16 +263,50 @@ export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' |
   };
   
   // Custom tooltip component
-  const CustomTooltip = ({ active, payload }: { active?: boolean; payload?: Array<{ payload: { date: string }; value: number }> }) => {
+  const CustomTooltip = ({
+    active,
+    payload,
+    formatValue = formatCurrency,
+    showCandle = false,
+    showMarkers = false,
+  }: {
+    active?: boolean;
+    payload?: Array<{ payload: ChartRow; value: number | number[]; name: string; color?: string }>;
+    formatValue?: (value: number) => string;
+    showCandle?: boolean;
+    showMarkers?: boolean;
+  }) => {
     if (active && payload && payload.length && payload[0]?.payload?.date) {
+      const row = payload[0].payload;
+      const marker = showMarkers ? markerByDate.get(row.date) : undefined;
       return (
         <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded shadow-lg">
           <p className="text-sm text-gray-500 dark:text-gray-400">
-            {formatTooltipDate(payload[0].payload.date)}
-          </p>
-          <p className="text-sm font-semibold">
-            {formatCurrency(payload[0].value || 0)}
+            {formatTooltipDate(row.date)}
           </p>
+          {showCandle && (
+            <p className="text-sm tabular-nums">
+              O {formatCurrency(Number(row.open))} H {formatCurrency(Number(row.high))}{' '}
+              L {formatCurrency(Number(row.low))} C {formatCurrency(Number(row.candleClose))}
+            </p>
+          )}
+          {marker && (
+            <p className="text-sm" style={{ color: marker.color }}>{marker.title}</p>
+          )}
+          {payload.length === 1 && typeof payload[0].value === 'number' ? (
+            <p className="text-sm font-semibold">
+              {formatValue(payload[0].value || 0)}
+            </p>
+          ) : (
+            payload
+              .filter(entry => typeof entry.value === 'number')
+              .map(entry => (
+                <p key={entry.name} className="text-sm">
+                  <span style={{ color: entry.color }}>{entry.name}: </span>
+                  <span className="font-semibold">{formatValue(entry.value as number)}</span>
+                </p>
+              ))
+          )}
         </div>
       );
     }
@@ -124,41 +314,202 @@ export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' |
     return null;
   };
   
+  // Format X-axis ticks based on the bar interval and the span shown
+  const formatAxisDate = (date: string) => {
+    if (!date) return '';
+    
+    try {
+      const dateObj = new Date(date);
+      
+      if (isIntradayInterval(interval) && spanDays <= 2) {
+        return dateObj.toLocaleTimeString([], { hour: 'numeric' });
+      }
+      if (spanDays <= 10) {
+        return dateObj.toLocaleDateString([], { weekday: 'short' });
+      }
+      if (spanDays <= 45) {
+        return dateObj.getDate() === 1 || dateObj.getDate() === 15 
+          ? dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' })
+          : dateObj.getDate().toString();
+      }
+      if (spanDays <= 120) {
+        return dateObj.getDate() === 1
+          ? dateObj.toLocaleDateString([], { month: 'short' })
+          : '';
+      }
+      if (spanDays <= 400) {
+        return dateObj.getMonth() % 2 === 0
+          ? dateObj.toLocaleDateString([], { month: 'short' })
+          : '';
+      }
+      if (spanDays <= 6 * 366) {
+        return dateObj.getMonth() === 0
+          ? dateObj.toLocaleDateString([], { year: 'numeric' })
+          : dateObj.getMonth() === 6
+            ? 'Jul'
+            : '';
+      }
+      return dateObj.getMonth() === 0 ? dateObj.toLocaleDateString([], { year: 'numeric' }) : '';
+    } catch (error) {
+      console.error('Error formatting X-axis date:', error);
+      return '';
+    }
+  };
+  
+  // Only the bottom pane shows dates, so the panes read as one chart
+  const renderXAxis = (visible: boolean) => (
+    <XAxis 
+      dataKey="date" 
+      hide={!visible}
+      tickFormatter={formatAxisDate}
+      interval="preserveStartEnd"
+      minTickGap={30}
+      tick={{ fontSize: 12 }}
+      axisLine={{ stroke: '#374151', opacity: 0.3 }}
+      tickLine={{ stroke: '#374151', opacity: 0.3 }}
+    />
+  );
+  
+  const paneOption = (pane: ChartPane) => PANE_OPTIONS.find(option => option.key === pane)!;
+  
+  // Render one indicator pane below the price chart
+  const renderPane = (pane: ChartPane, isLast: boolean) => {
+    const axisProps = {
+      width: Y_AXIS_WIDTH,
+      tick: { fontSize: 11 },
+      axisLine: { stroke: '#374151', opacity: 0.3 },
+      tickLine: { stroke: '#374151', opacity: 0.3 },
+    };
+    
+    switch (pane) {
+      case 'volume':
+        return (
+          <BarChart data={chartRows} syncId={CHART_SYNC_ID} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+            {renderXAxis(isLast)}
+            <YAxis {...axisProps} tickFormatter={(value) => formatNumber(value)} />
+            <Tooltip content={<CustomTooltip formatValue={formatNumber} />} />
+            <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+              {chartRows.map((row) => (
+                <Cell
+                  key={row.date}
+                  fill={Number(row.candleClose) >= Number(row.open) ? UP_COLOR : DOWN_COLOR}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        );
+      case 'rsi':
+        return (
+          <LineChart data={chartRows} syncId={CHART_SYNC_ID} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+            {renderXAxis(isLast)}
+            <YAxis {...axisProps} domain={[0, 100]} ticks={[30, 70]} />
+            <Tooltip content={<CustomTooltip formatValue={(value) => value.toFixed(2)} />} />
+            <ReferenceLine y={70} stroke="#EF4444" strokeDasharray="3 3" />
+            <ReferenceLine y={30} stroke="#10B981" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="rsi" name="RSI" stroke={paneOption('rsi').color} dot={false} isAnimationActive={false} />
+          </LineChart>
+        );
+      case 'macd':
+        return (
+          <ComposedChart data={chartRows} syncId={CHART_SYNC_ID} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+            {renderXAxis(isLast)}
+            <YAxis {...axisProps} tickFormatter={(value) => value.toFixed(1)} />
+            <Tooltip content={<CustomTooltip formatValue={(value) => value.toFixed(2)} />} />
+            <ReferenceLine y={0} stroke="#374151" opacity={0.3} />
+            <Bar dataKey="macdHistogram" name="Histogram" fill="#9CA3AF" isAnimationActive={false} />
+            <Line type="monotone" dataKey="macd" name="MACD" stroke={paneOption('macd').color} dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="macdSignal" name="Signal" stroke="#F59E0B" dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        );
+    }
+  };
+  
+  // Keyed by range so the custom date inputs pick up a range loaded from the saved preferences
+  const renderRangeControls = () => (
+    <RangeControls key={rangeKey} value={rangeSpec} onChange={setRange} />
+  );
+  
+  const renderAdjustmentButtons = () => (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-gray-500 dark:text-gray-400">Prices:</span>
+      {PRICE_ADJUSTMENT_OPTIONS.map((option) => (
+        <button
+          key={option.key}
+          onClick={() => setAdjustment(option.key)}
+          title={option.description}
+          className={`px-2 py-1 rounded-md border ${
+            adjustment === option.key
+              ? 'bg-blue-600 border-transparent text-white'
+              : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+          }`}
+          aria-pressed={adjustment === option.key}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+  
+  const statusMessage = isLoading
+    ? 'Loading prices...'
+    : isRetrying
+      ? `${loadError}, retrying...`
+      : loadError || (priceData.length === 0 ? 'No price data available for this time range.' : null);
+  
+  if (isCompareMode) {
+    return (
+      <ComparisonChart
+        series={comparisonSeries}
+        rangeControls={
+          <div className="flex flex-col items-end gap-2">
+            {renderRangeControls()}
+            {renderAdjustmentButtons()}
+            <div className="flex flex-wrap justify-end gap-1">
+              <ProvenanceBadge label={symbol} provenance={getProvenance(symbol)} />
+              {(comparisons || []).map(series => (
+                <ProvenanceBadge
+                  key={series.symbol}
+                  label={series.symbol}
+                  provenance={getProvenance(series.symbol, series.prices)}
+                />
+              ))}
+            </div>
+          </div>
+        }
+        statusMessage={isLoading || loadError ? statusMessage : null}
+        formatAxisDate={formatAxisDate}
+        formatTooltipDate={formatTooltipDate}
+      />
+    );
+  }
+  
   // If there's no price data, show a message
-  if (!priceData || priceData.length === 0) {
+  if (statusMessage) {
     return (
       <div className="flex flex-col items-center justify-center h-80">
-        <p className="text-gray-500">No price data available for this time range.</p>
-        <div className="flex space-x-2 mt-4">
-          {(['1D', '1W', '1M', '3M', '1Y', '5Y'] as TimeRange[]).map((range) => (
-            <button
-              key={range}
-              onClick={() => setTimeRange(range)}
-              className={`px-3 py-1 text-sm rounded-md ${
-                timeRange === range
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
-              }`}
-            >
-              {range}
-            </button>
-          ))}
+        <p className={loadError && !isRetrying ? 'text-red-600' : 'text-gray-500'}>{statusMessage}</p>
+        <div className="mt-4">
+          {renderRangeControls()}
         </div>
       </div>
     );
   }
   
   // Get the latest price safely
-  const latestPrice = priceData[priceData.length - 1]?.price || 0;
+  const latestPrice = priceData[priceData.length - 1]?.close || 0;
   
   // Get the reference price (first price) safely
-  const referencePrice = priceData[0]?.price;
+  const referencePrice = priceData[0]?.close;
   
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <div>
-          <h2 className="text-2xl font-bold">{formatCurrency(latestPrice)}</h2>
+          <div className="flex items-center gap-2">
+            <h2 className="text-2xl font-bold">{formatCurrency(latestPrice)}</h2>
+            <ProvenanceBadge provenance={getProvenance(symbol)} />
+          </div>
           <div className={`flex items-center ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
             <span className="font-medium">
               {isPositive ? '+' : ''}{formatCurrency(change)}
@@ -169,94 +520,180 @@ export default function StockChart({ prices }: Omit<StockChartProps, 'symbol' |
           </div>
         </div>
         
-        <div className="flex space-x-2">
-          {(['1D', '1W', '1M', '3M', '1Y', '5Y'] as TimeRange[]).map((range) => (
-            <button
-              key={range}
-              onClick={() => setTimeRange(range)}
-              className={`px-3 py-1 text-sm rounded-md ${
-                timeRange === range
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
-              }`}
-            >
-              {range}
-            </button>
-          ))}
-        </div>
+        {renderRangeControls()}
+      </div>
+      
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {renderAdjustmentButtons()}
+        {(corporateActions || (earnings && earnings.length > 0)) && (
+          <button
+            onClick={toggleEvents}
+            className={`px-2 py-1 rounded-md border text-xs ${
+              showEvents
+                ? 'bg-blue-600 border-transparent text-white'
+                : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            title="Mark earnings reports, splits and ex-dividend dates"
+            aria-pressed={showEvents}
+          >
+            Events
+          </button>
+        )}
+      </div>
+      
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+        <span className="text-gray-500 dark:text-gray-400">Chart:</span>
+        {CHART_TYPE_OPTIONS.map((option) => (
+          <button
+            key={option.key}
+            onClick={() => setChartType(option.key)}
+            className={`px-2 py-1 rounded-md border ${
+              chartType === option.key
+                ? 'bg-blue-600 border-transparent text-white'
+                : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            aria-pressed={chartType === option.key}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="text-gray-500 dark:text-gray-400 ml-2">Overlays:</span>
+        {OVERLAY_OPTIONS.map((option) => (
+          <button
+            key={option.key}
+            onClick={() => toggleOverlay(option.key)}
+            className={`px-2 py-1 rounded-md border ${
+              overlays.includes(option.key)
+                ? 'border-transparent text-white'
+                : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            style={overlays.includes(option.key) ? { backgroundColor: option.color } : undefined}
+            aria-pressed={overlays.includes(option.key)}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="text-gray-500 dark:text-gray-400 ml-2">Panes:</span>
+        {PANE_OPTIONS.map((option) => (
+          <button
+            key={option.key}
+            onClick={() => togglePane(option.key)}
+            className={`px-2 py-1 rounded-md border ${
+              panes.includes(option.key)
+                ? 'bg-blue-600 border-transparent text-white'
+                : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+            }`}
+            aria-pressed={panes.includes(option.key)}
+          >
+            {option.label}
+          </button>
+        ))}
       </div>
       
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart
-            data={priceData}
+          <ComposedChart
+            data={chartRows}
+            syncId={CHART_SYNC_ID}
             margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
           >
             <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.1} />
-            <XAxis 
-              dataKey="date" 
-              tickFormatter={(date) => {
-                if (!date) return '';
-                
-                try {
-                  const dateObj = new Date(date);
-                  switch (timeRange) {
-                    case '1D':
-                      return dateObj.toLocaleTimeString([], { hour: 'numeric' });
-                    case '1W':
-                      return dateObj.toLocaleDateString([], { weekday: 'short' });
-                    case '1M':
-                      return dateObj.getDate() === 1 || dateObj.getDate() === 15 
-                        ? dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' })
-                        : dateObj.getDate().toString();
-                    case '3M':
-                      return dateObj.getDate() === 1
-                        ? dateObj.toLocaleDateString([], { month: 'short' })
-                        : '';
-                    case '1Y':
-                      return dateObj.getMonth() % 2 === 0
-                        ? dateObj.toLocaleDateString([], { month: 'short' })
-                        : '';
-                    case '5Y':
-                      return dateObj.getMonth() === 0
-                        ? dateObj.toLocaleDateString([], { year: 'numeric' })
-                        : dateObj.getMonth() === 6
-                          ? 'Jul'
-                          : '';
-                    default:
-                      return dateObj.toLocaleDateString([], { month: 'short', day: 'numeric' });
-                  }
-                } catch (error) {
-                  console.error('Error formatting X-axis date:', error);
-                  return '';
-                }
-              }}
-              interval="preserveStartEnd"
-              minTickGap={30}
-              tick={{ fontSize: 12 }}
-              axisLine={{ stroke: '#374151', opacity: 0.3 }}
-              tickLine={{ stroke: '#374151', opacity: 0.3 }}
-            />
+            {renderXAxis(panes.length === 0)}
             <YAxis 
               domain={['auto', 'auto']}
+              width={Y_AXIS_WIDTH}
               tickFormatter={(value) => formatCurrency(value).replace('.00', '')}
               tick={{ fontSize: 12 }}
               axisLine={{ stroke: '#374151', opacity: 0.3 }}
               tickLine={{ stroke: '#374151', opacity: 0.3 }}
             />
-            <Tooltip content={<CustomTooltip />} />
+            <Tooltip content={<CustomTooltip showCandle={isBarChart} showMarkers />} />
             {referencePrice && <ReferenceLine y={referencePrice} stroke="#374151" strokeDasharray="3 3" />}
-            <Line
-              type="monotone"
-              dataKey="price"
-              stroke={isPositive ? '#10B981' : '#EF4444'}
-              strokeWidth={2}
-              dot={false}
-              activeDot={{ r: 6 }}
-            />
-          </LineChart>
+            {markers.map((marker) => (
+              <ReferenceLine
+                key={marker.date}
+                x={marker.date}
+                stroke={marker.color}
+                strokeDasharray="2 4"
+                label={{ value: marker.label, position: 'insideTopLeft', fill: marker.color, fontSize: 11 }}
+              />
+            ))}
+            <defs>
+              <linearGradient id="priceAreaFill" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor={isPositive ? UP_COLOR : DOWN_COLOR} stopOpacity={0.3} />
+                <stop offset="95%" stopColor={isPositive ? UP_COLOR : DOWN_COLOR} stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            {chartType === 'line' && (
+              <Line
+                type="monotone"
+                dataKey="price"
+                name="Price"
+                stroke={isPositive ? UP_COLOR : DOWN_COLOR}
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 6 }}
+              />
+            )}
+            {chartType === 'area' && (
+              <Area
+                type="monotone"
+                dataKey="price"
+                name="Price"
+                stroke={isPositive ? UP_COLOR : DOWN_COLOR}
+                strokeWidth={2}
+                fill="url(#priceAreaFill)"
+                activeDot={{ r: 6 }}
+              />
+            )}
+            {isBarChart && (
+              <Bar
+                dataKey={(row: ChartRow) => [Number(row.low), Number(row.high)]}
+                name="Price"
+                shape={chartType === 'ohlc' ? <OhlcShape /> : <CandlestickShape />}
+                isAnimationActive={false}
+              />
+            )}
+            {OVERLAY_OPTIONS.filter(option => overlays.includes(option.key) && option.key !== 'bollinger').map((option) => (
+              <Line
+                key={option.key}
+                type="monotone"
+                dataKey={option.key}
+                name={option.label}
+                stroke={option.color}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            {overlays.includes('bollinger') && [
+              { key: 'bollingerUpper', name: 'Upper Band' },
+              { key: 'bollingerMiddle', name: 'Middle Band' },
+              { key: 'bollingerLower', name: 'Lower Band' },
+            ].map((band) => (
+              <Line
+                key={band.key}
+                type="monotone"
+                dataKey={band.key}
+                name={band.name}
+                stroke="#6B7280"
+                strokeWidth={1}
+                strokeDasharray={band.key === 'bollingerMiddle' ? undefined : '4 4'}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
+      
+      {panes.map((pane, index) => (
+        <div key={pane} className={index === panes.length - 1 ? 'h-32' : 'h-24'}>
+          <ResponsiveContainer width="100%" height="100%">
+            {renderPane(pane, index === panes.length - 1)}
+          </ResponsiveContainer>
+        </div>
+      ))}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,8 +1,9 @@
-import { Stock } from '@/types/stock';
+import { Company } from '@/types';
 import { formatCurrency, formatNumber } from '@/lib/utils/formatters';
+import ProvenanceBadge from '@/components/ProvenanceBadge';
 
 interface StockInfoProps {
-  stock: Stock;
+  stock: Company;
 }
 
 export default function StockInfo({ stock }: StockInfoProps) {
@@ -18,18 +19,21 @@ export default function StockInfo({ stock }: StockInfoProps) {
 
   // Format IPO date safely
   let formattedIpoDate = null;
-  if (stock.ipo_date) {
+  if (stock.ipoDate) {
     try {
-      formattedIpoDate = new Date(stock.ipo_date).toLocaleDateString();
+      formattedIpoDate = new Date(stock.ipoDate).toLocaleDateString();
     } catch (error) {
       console.error('Error formatting IPO date:', error);
-      formattedIpoDate = stock.ipo_date;
+      formattedIpoDate = stock.ipoDate;
     }
   }
 
   return (
     <div className="space-y-6">
-      <h2 className="text-xl font-semibold mb-4">Company Information</h2>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">Company Information</h2>
+        <ProvenanceBadge provenance={stock.provenance} />
+      </div>
       
       {stock.description && (
         <div className="mb-6">
@@ -39,10 +43,11 @@ export default function StockInfo({ stock }: StockInfoProps) {
       )}
       
       <div className="space-y-4">
-        <InfoItem label="Market Cap" value={formatCurrency(stock.market_cap || 0)} />
+        <InfoItem label="Market Cap" value={formatCurrency(stock.marketCap || 0)} />
+        {stock.sector && <InfoItem label="Sector" value={stock.sector} />}
         {stock.industry && <InfoItem label="Industry" value={stock.industry} />}
         {stock.exchange && <InfoItem label="Exchange" value={stock.exchange} />}
-        {stock.employees > 0 && <InfoItem label="Employees" value={formatNumber(stock.employees)} />}
+        {!!stock.employees && <InfoItem label="Employees" value={formatNumber(stock.employees)} />}
         {stock.ceo && <InfoItem label="CEO" value={stock.ceo} />}
         {stock.country && <InfoItem label="Country" value={stock.country} />}
         {formattedIpoDate && <InfoItem label="IPO Date" value={formattedIpoDate} />}
@@ -0,0 +1,124 @@
+/**
+ * Indicator options for StockChart and the code that merges indicator values
+ * into the chart rows
+ */
+
+import { bollingerBands, ema, heikinAshi, IndicatorSeries, macd, rsi, sma } from '@/lib/indicators';
+import { ChartOverlay, ChartPane, ChartType } from '@/lib/preferences/types';
+import { StockPrice } from '@/types';
+
+export interface IndicatorOption<T extends string> {
+  key: T;
+  label: string;
+  color: string;
+}
+
+export const OVERLAY_OPTIONS: IndicatorOption<ChartOverlay>[] = [
+  { key: 'sma20', label: 'SMA 20', color: '#F59E0B' },
+  { key: 'sma50', label: 'SMA 50', color: '#3B82F6' },
+  { key: 'sma200', label: 'SMA 200', color: '#8B5CF6' },
+  { key: 'ema20', label: 'EMA 20', color: '#EC4899' },
+  { key: 'ema50', label: 'EMA 50', color: '#14B8A6' },
+  { key: 'bollinger', label: 'Bollinger (20, 2)', color: '#6B7280' },
+];
+
+export const PANE_OPTIONS: IndicatorOption<ChartPane>[] = [
+  { key: 'volume', label: 'Volume', color: '#9CA3AF' },
+  { key: 'rsi', label: 'RSI 14', color: '#8B5CF6' },
+  { key: 'macd', label: 'MACD (12, 26, 9)', color: '#3B82F6' },
+];
+
+// A bar as drawn: its ISO date on the x axis and its close as the price line,
+// plus the indicator values merged in by key
+export type ChartRow = {
+  date: string;
+  price: number;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+} & Record<string, number | string | null | undefined>;
+
+export const CHART_TYPE_OPTIONS: { key: ChartType; label: string }[] = [
+  { key: 'line', label: 'Line' },
+  { key: 'area', label: 'Area' },
+  { key: 'candlestick', label: 'Candles' },
+  { key: 'ohlc', label: 'OHLC' },
+  { key: 'heikinAshi', label: 'Heikin-Ashi' },
+];
+
+// Chart types drawn from open/high/low/close rather than the close alone
+export const BAR_CHART_TYPES: ChartType[] = ['candlestick', 'ohlc', 'heikinAshi'];
+
+/**
+ * Turn bars into chart rows with the values of the selected indicators.
+ * Indicators are computed over the bars shown, so long averages need enough
+ * bars before they produce values. Every row also gets the candle it is drawn
+ * with (open/high/low/candleClose): the bar itself or its Heikin-Ashi candle.
+ */
+export function buildChartRows(
+  bars: StockPrice[],
+  chartType: ChartType,
+  overlays: ChartOverlay[],
+  panes: ChartPane[]
+): ChartRow[] {
+  const closes = bars.map(bar => bar.close);
+
+  const series: Record<string, IndicatorSeries> = {};
+
+  for (const overlay of overlays) {
+    switch (overlay) {
+      case 'sma20':
+        series.sma20 = sma(closes, 20);
+        break;
+      case 'sma50':
+        series.sma50 = sma(closes, 50);
+        break;
+      case 'sma200':
+        series.sma200 = sma(closes, 200);
+        break;
+      case 'ema20':
+        series.ema20 = ema(closes, 20);
+        break;
+      case 'ema50':
+        series.ema50 = ema(closes, 50);
+        break;
+      case 'bollinger': {
+        const bands = bollingerBands(bars);
+        series.bollingerUpper = bands.upper;
+        series.bollingerMiddle = bands.middle;
+        series.bollingerLower = bands.lower;
+        break;
+      }
+    }
+  }
+
+  if (panes.includes('rsi')) {
+    series.rsi = rsi(bars);
+  }
+
+  if (panes.includes('macd')) {
+    const result = macd(bars);
+    series.macd = result.macd;
+    series.macdSignal = result.signal;
+    series.macdHistogram = result.histogram;
+  }
+
+  const candles = chartType === 'heikinAshi' ? heikinAshi(bars) : bars;
+
+  return bars.map((bar, index) => {
+    const row: ChartRow = {
+      date: new Date(bar.timestamp).toISOString(),
+      price: bar.close,
+      volume: bar.volume,
+      open: candles[index].open,
+      high: candles[index].high,
+      low: candles[index].low,
+      candleClose: candles[index].close,
+    };
+    for (const [key, values] of Object.entries(series)) {
+      row[key] = values[index];
+    }
+    return row;
+  });
+}
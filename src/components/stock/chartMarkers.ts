@@ -0,0 +1,100 @@
+/**
+ * Event markers (earnings, splits, ex-dividend dates) drawn on the price chart
+ */
+
+import { surprisePercent } from '@/lib/earnings';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { CorporateActions, EarningsReport, StockPrice } from '@/types';
+
+export interface ChartMarker {
+  date: string;  // ISO date of the bar the marker is drawn at (or YYYY-MM-DD of the event, before placing)
+  label: string; // Short text drawn on the chart
+  title: string; // Longer description shown in the tooltip
+  color: string;
+}
+
+export const SPLIT_MARKER_COLOR = '#8B5CF6';
+export const DIVIDEND_MARKER_COLOR = '#10B981';
+export const EARNINGS_MARKER_COLOR = '#F59E0B';
+
+/**
+ * Move each event onto the first bar on or after its date, skipping events
+ * outside the bars shown. Events that land on the same bar share a marker.
+ */
+function placeMarkers(bars: StockPrice[], events: ChartMarker[]): ChartMarker[] {
+  if (bars.length === 0) return [];
+
+  const dates = bars.map(bar => new Date(bar.timestamp).toISOString());
+  const days = dates.map(date => date.slice(0, 10));
+  const markers = new Map<string, ChartMarker>();
+
+  for (const event of events) {
+    if (event.date < days[0] || event.date > days[days.length - 1]) continue;
+
+    const date = dates[days.findIndex(day => day >= event.date)];
+    const existing = markers.get(date);
+
+    markers.set(date, existing
+      ? { ...existing, label: `${existing.label} ${event.label}`, title: `${existing.title}; ${event.title}` }
+      : { ...event, date });
+  }
+
+  return [...markers.values()];
+}
+
+/**
+ * Split and ex-dividend events, before placing
+ */
+function corporateActionEvents(actions: CorporateActions): ChartMarker[] {
+  return [
+    ...actions.splits.map(split => ({
+      date: split.executionDate,
+      label: `${split.splitTo}:${split.splitFrom}`,
+      title: `${split.splitTo}-for-${split.splitFrom} split`,
+      color: SPLIT_MARKER_COLOR,
+    })),
+    ...actions.dividends.map(dividend => ({
+      date: dividend.exDividendDate,
+      label: 'D',
+      title: `Ex-dividend ${formatCurrency(dividend.cashAmount)}`,
+      color: DIVIDEND_MARKER_COLOR,
+    })),
+  ];
+}
+
+/**
+ * Tooltip text for an earnings report: EPS against the estimate once reported
+ */
+function earningsTitle(report: EarningsReport): string {
+  const period = report.fiscalPeriod && report.fiscalYear ? `${report.fiscalPeriod} ${report.fiscalYear} earnings` : 'Earnings';
+
+  if (report.epsActual === null) {
+    return report.epsEstimate === null ? `${period} expected` : `${period} expected, EPS est. ${formatCurrency(report.epsEstimate)}`;
+  }
+
+  const surprise = surprisePercent(report.epsActual, report.epsEstimate);
+
+  return surprise === null
+    ? `${period}: EPS ${formatCurrency(report.epsActual)}`
+    : `${period}: EPS ${formatCurrency(report.epsActual)} vs ${formatCurrency(report.epsEstimate!)} est. (${surprise >= 0 ? '+' : ''}${surprise.toFixed(1)}%)`;
+}
+
+/**
+ * Markers for the earnings reports, splits and ex-dividend dates within the
+ * bars shown
+ */
+export function buildEventMarkers(
+  bars: StockPrice[],
+  actions: CorporateActions | null | undefined,
+  earnings: EarningsReport[] | null | undefined
+): ChartMarker[] {
+  return placeMarkers(bars, [
+    ...(earnings || []).map(report => ({
+      date: report.reportDate,
+      label: 'E',
+      title: earningsTitle(report),
+      color: EARNINGS_MARKER_COLOR,
+    })),
+    ...(actions ? corporateActionEvents(actions) : []),
+  ]);
+}
@@ -0,0 +1,70 @@
+import ProvenanceBadge from '@/components/ProvenanceBadge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Ratios } from '@/lib/ratios';
+import { Financials, Provenance } from '@/types';
+import RatiosPanel from './RatiosPanel';
+import StatementTable from './StatementTable';
+import {
+  BALANCE_SHEET_ROWS,
+  CASH_FLOW_ROWS,
+  PROFIT_AND_LOSS_ROWS,
+  QUARTERLY_RESULT_ROWS,
+} from './statementRows';
+
+interface FinancialsTabsProps {
+  financials: Financials | null;
+  ratios: Ratios | null;
+  provenance?: Provenance;
+}
+
+/**
+ * Quarterly results, annual statements and ratios for a company, one tab each
+ */
+export default function FinancialsTabs({ financials, ratios, provenance }: FinancialsTabsProps) {
+  if (!financials) {
+    return (
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Financials</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Financial statements are not available for this company.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-semibold">Financials</h2>
+        <ProvenanceBadge provenance={provenance} />
+      </div>
+      <Tabs defaultValue="quarterly">
+        <TabsList className="mb-4 flex-wrap h-auto">
+          <TabsTrigger value="quarterly">Quarterly Results</TabsTrigger>
+          <TabsTrigger value="profit-loss">Profit &amp; Loss</TabsTrigger>
+          <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+          <TabsTrigger value="cash-flow">Cash Flow</TabsTrigger>
+          <TabsTrigger value="ratios">Ratios</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="quarterly">
+          <StatementTable periods={financials.quarterly} rows={QUARTERLY_RESULT_ROWS} />
+        </TabsContent>
+
+        <TabsContent value="profit-loss">
+          <StatementTable periods={financials.annual} rows={PROFIT_AND_LOSS_ROWS} />
+        </TabsContent>
+
+        <TabsContent value="balance-sheet">
+          <StatementTable periods={financials.annual} rows={BALANCE_SHEET_ROWS} />
+        </TabsContent>
+
+        <TabsContent value="cash-flow">
+          <StatementTable periods={financials.annual} rows={CASH_FLOW_ROWS} />
+        </TabsContent>
+
+        <TabsContent value="ratios">
+          <RatiosPanel ratios={ratios} annual={financials.annual} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { computeRatios, getRatioDefinition, RATIO_DEFINITIONS, RatioKey, Ratios } from '@/lib/ratios';
+import { formatScreenValue } from '@/lib/screener/results';
+import { FinancialPeriod } from '@/types';
+import { periodLabel } from './statementRows';
+
+interface RatiosPanelProps {
+  ratios: Ratios | null;
+  annual: FinancialPeriod[];
+}
+
+// Ratios that do not depend on the share price, so they can be shown for past years
+const HISTORY_RATIOS: RatioKey[] = [
+  'roe',
+  'roce',
+  'operatingMargin',
+  'netMargin',
+  'debtToEquity',
+  'currentRatio',
+  'salesGrowth3Y',
+  'profitGrowth3Y',
+];
+
+/**
+ * Current ratios followed by a year-by-year history of the fundamental ones
+ */
+export default function RatiosPanel({ ratios, annual }: RatiosPanelProps) {
+  // Compute each year's ratios as if it were the latest reported year
+  const history = annual.map((period, index) =>
+    computeRatios({ price: null, quarterly: [], annual: annual.slice(0, index + 1) })
+  );
+
+  return (
+    <div className="space-y-6">
+      {ratios && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {RATIO_DEFINITIONS.map((definition) => {
+            const result = ratios[definition.key];
+
+            return (
+              <div
+                key={definition.key}
+                className="bg-gray-100 dark:bg-gray-900 p-3 rounded-lg"
+                title={result.reason || definition.description}
+              >
+                <div className="text-xs text-gray-500 dark:text-gray-400">{definition.label}</div>
+                <div className="text-lg font-semibold tabular-nums">
+                  {formatScreenValue(result.value, definition.unit)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {annual.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="sticky left-0 bg-white dark:bg-gray-800 min-w-40" />
+              {annual.map((period) => (
+                <TableHead key={periodLabel(period)} className="text-right">{periodLabel(period)}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {HISTORY_RATIOS.map((key) => {
+              const definition = getRatioDefinition(key);
+              if (!definition) return null;
+
+              return (
+                <TableRow key={key}>
+                  <TableCell className="sticky left-0 bg-white dark:bg-gray-800 font-medium" title={definition.description}>
+                    {definition.label}
+                  </TableCell>
+                  {history.map((yearRatios, index) => (
+                    <TableCell
+                      key={periodLabel(annual[index])}
+                      className="text-right tabular-nums"
+                      title={yearRatios[key].reason}
+                    >
+                      {formatScreenValue(yearRatios[key].value, definition.unit)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
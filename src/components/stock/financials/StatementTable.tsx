@@ -0,0 +1,83 @@
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatCurrency, formatNumber } from '@/lib/utils/formatters';
+import { FinancialPeriod } from '@/types';
+import { findYearAgoPeriod, periodLabel, StatementRow, StatementUnit, yoyGrowth } from './statementRows';
+
+interface StatementTableProps {
+  periods: FinancialPeriod[];
+  rows: StatementRow[];
+}
+
+function formatStatementValue(value: number | null, unit: StatementUnit): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '—';
+  }
+
+  switch (unit) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    default:
+      return formatNumber(value);
+  }
+}
+
+/**
+ * One statement as a table with a column per period, oldest on the left
+ */
+export default function StatementTable({ periods, rows }: StatementTableProps) {
+  if (periods.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-4">No statements available.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="sticky left-0 bg-white dark:bg-gray-800 min-w-40" />
+          {periods.map((period) => (
+            <TableHead key={periodLabel(period)} className="text-right" title={`${period.startDate} to ${period.endDate}`}>
+              {periodLabel(period)}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.label}>
+            <TableCell className="sticky left-0 bg-white dark:bg-gray-800 font-medium">{row.label}</TableCell>
+            {periods.map((period) => {
+              const value = row.value(period);
+              const yearAgo = row.growth ? findYearAgoPeriod(periods, period) : undefined;
+              const growth = yearAgo ? yoyGrowth(value, row.value(yearAgo)) : null;
+
+              return (
+                <TableCell key={periodLabel(period)} className="text-right tabular-nums align-top">
+                  <div>{formatStatementValue(value, row.unit)}</div>
+                  {growth !== null && (
+                    <div
+                      className={`text-xs ${growth >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                      title="Year-over-year change"
+                    >
+                      {growth >= 0 ? '+' : ''}{growth.toFixed(1)}%
+                    </div>
+                  )}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableCaption>Colored figures show the change from the same period a year earlier.</TableCaption>
+    </Table>
+  );
+}
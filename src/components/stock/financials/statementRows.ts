@@ -0,0 +1,81 @@
+/**
+ * Row definitions and period helpers for the financial statement tables
+ */
+
+import { FinancialPeriod } from '@/types';
+
+export type StatementUnit = 'currency' | 'percent' | 'number';
+
+export interface StatementRow {
+  label: string;
+  unit: StatementUnit;
+  value: (period: FinancialPeriod) => number | null;
+  // Show year-over-year growth under the value
+  growth?: boolean;
+}
+
+const margin = (numerator: number | null, revenue: number | null): number | null =>
+  numerator !== null && revenue ? (numerator / revenue) * 100 : null;
+
+export const QUARTERLY_RESULT_ROWS: StatementRow[] = [
+  { label: 'Sales', unit: 'currency', value: p => p.incomeStatement.revenue, growth: true },
+  { label: 'Operating Profit', unit: 'currency', value: p => p.incomeStatement.operatingIncome, growth: true },
+  { label: 'OPM %', unit: 'percent', value: p => margin(p.incomeStatement.operatingIncome, p.incomeStatement.revenue) },
+  { label: 'Net Profit', unit: 'currency', value: p => p.incomeStatement.netIncome, growth: true },
+  { label: 'EPS', unit: 'currency', value: p => p.incomeStatement.eps, growth: true },
+];
+
+export const PROFIT_AND_LOSS_ROWS: StatementRow[] = [
+  { label: 'Sales', unit: 'currency', value: p => p.incomeStatement.revenue, growth: true },
+  { label: 'Operating Profit', unit: 'currency', value: p => p.incomeStatement.operatingIncome, growth: true },
+  { label: 'OPM %', unit: 'percent', value: p => margin(p.incomeStatement.operatingIncome, p.incomeStatement.revenue) },
+  { label: 'Depreciation', unit: 'currency', value: p => p.incomeStatement.depreciationAndAmortization },
+  { label: 'Interest', unit: 'currency', value: p => p.incomeStatement.interestExpense },
+  { label: 'Net Profit', unit: 'currency', value: p => p.incomeStatement.netIncome, growth: true },
+  { label: 'NPM %', unit: 'percent', value: p => margin(p.incomeStatement.netIncome, p.incomeStatement.revenue) },
+  { label: 'EPS', unit: 'currency', value: p => p.incomeStatement.eps, growth: true },
+  { label: 'Diluted Shares', unit: 'number', value: p => p.incomeStatement.dilutedShares },
+];
+
+export const BALANCE_SHEET_ROWS: StatementRow[] = [
+  { label: 'Total Assets', unit: 'currency', value: p => p.balanceSheet.totalAssets, growth: true },
+  { label: 'Current Assets', unit: 'currency', value: p => p.balanceSheet.currentAssets },
+  { label: 'Cash & Equivalents', unit: 'currency', value: p => p.balanceSheet.cashAndEquivalents },
+  { label: 'Total Liabilities', unit: 'currency', value: p => p.balanceSheet.totalLiabilities },
+  { label: 'Current Liabilities', unit: 'currency', value: p => p.balanceSheet.currentLiabilities },
+  { label: 'Total Debt', unit: 'currency', value: p => p.balanceSheet.totalDebt, growth: true },
+  { label: 'Equity', unit: 'currency', value: p => p.balanceSheet.equity, growth: true },
+];
+
+export const CASH_FLOW_ROWS: StatementRow[] = [
+  { label: 'Operating Cash Flow', unit: 'currency', value: p => p.cashFlow.operatingCashFlow, growth: true },
+  { label: 'Capital Expenditure', unit: 'currency', value: p => p.cashFlow.capitalExpenditure },
+  { label: 'Free Cash Flow', unit: 'currency', value: p => p.cashFlow.freeCashFlow, growth: true },
+  { label: 'Dividends Paid', unit: 'currency', value: p => p.cashFlow.dividendsPaid },
+];
+
+/**
+ * Column heading for a period, e.g. "Q3 2024" or "FY 2024"
+ */
+export function periodLabel(period: FinancialPeriod): string {
+  return `${period.fiscalPeriod} ${period.fiscalYear}`;
+}
+
+/**
+ * The same fiscal period one year earlier, if it is in the list
+ */
+export function findYearAgoPeriod(periods: FinancialPeriod[], period: FinancialPeriod): FinancialPeriod | undefined {
+  return periods.find(candidate =>
+    candidate.fiscalYear === period.fiscalYear - 1 && candidate.fiscalPeriod === period.fiscalPeriod
+  );
+}
+
+/**
+ * Year-over-year change in percent; null when the earlier value is missing or not positive
+ */
+export function yoyGrowth(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous <= 0) {
+    return null;
+  }
+  return ((current - previous) / previous) * 100;
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect } from 'react';
+import { MAX_WATCHLIST_SYMBOLS, useWatchlistStore } from '@/store/watchlistStore';
+
+interface WatchButtonProps {
+  symbol: string;
+}
+
+/**
+ * Adds a symbol to the watchlist, or removes it when already watched
+ */
+export default function WatchButton({ symbol }: WatchButtonProps) {
+  const { symbols, toggleSymbol } = useWatchlistStore();
+  const isWatched = symbols.includes(symbol.toUpperCase());
+  const isFull = !isWatched && symbols.length >= MAX_WATCHLIST_SYMBOLS;
+
+  // Load the saved watchlist once mounted
+  useEffect(() => {
+    useWatchlistStore.persist.rehydrate();
+  }, []);
+
+  return (
+    <button
+      type="button"
+      onClick={() => toggleSymbol(symbol)}
+      disabled={isFull}
+      aria-pressed={isWatched}
+      title={isFull ? `The watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols` : undefined}
+      className={`px-3 py-1 text-sm rounded-md border disabled:opacity-50 ${
+        isWatched
+          ? 'bg-blue-600 border-transparent text-white'
+          : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+      }`}
+    >
+      {isWatched ? '★ Watching' : '☆ Watch'}
+    </button>
+  );
+}
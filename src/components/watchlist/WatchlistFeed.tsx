@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import NewsList from '@/components/news/NewsList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatCurrency } from '@/lib/utils/formatters';
+import { parseSymbolList } from '@/lib/utils/symbols';
+import { MAX_WATCHLIST_SYMBOLS, useWatchlistStore } from '@/store/watchlistStore';
+import { NewsArticle, Quote } from '@/types';
+
+interface LoadedFeed {
+  key: string;
+  articles: NewsArticle[];
+  error?: string;
+}
+
+/**
+ * The watched symbols with their latest quotes, a form to add more, and
+ * their combined news feed
+ */
+export default function WatchlistFeed() {
+  const { symbols, toggleSymbol, removeSymbol } = useWatchlistStore();
+  const [hydrated, setHydrated] = useState(false);
+  const [input, setInput] = useState('');
+  const [feed, setFeed] = useState<LoadedFeed | null>(null);
+  // Kept while a changed list reloads, since most symbols are still the same
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const symbolsKey = symbols.join(',');
+
+  // Load the saved watchlist once mounted
+  useEffect(() => {
+    Promise.resolve(useWatchlistStore.persist.rehydrate()).then(() => setHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated || !symbolsKey) return;
+
+    const controller = new AbortController();
+
+    fetch(`/api/news?symbols=${encodeURIComponent(symbolsKey)}`, { signal: controller.signal })
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load news');
+        }
+        setFeed({ key: symbolsKey, articles: result.data });
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading watchlist news:', error);
+        setFeed({ key: symbolsKey, articles: [], error: error.message });
+      });
+
+    return () => controller.abort();
+  }, [hydrated, symbolsKey]);
+
+  // Prices for every watched symbol in one request; the list still works without them
+  useEffect(() => {
+    if (!hydrated || !symbolsKey) return;
+
+    const controller = new AbortController();
+
+    fetch(`/api/quotes?symbols=${encodeURIComponent(symbolsKey)}`, { signal: controller.signal })
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to load quotes');
+        }
+        setQuotes(Object.fromEntries((result.data as Quote[]).map(quote => [quote.symbol, quote])));
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading watchlist quotes:', error);
+      });
+
+    return () => controller.abort();
+  }, [hydrated, symbolsKey]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    for (const symbol of parseSymbolList(input, MAX_WATCHLIST_SYMBOLS)) {
+      if (!useWatchlistStore.getState().symbols.includes(symbol)) {
+        toggleSymbol(symbol);
+      }
+    }
+    setInput('');
+  };
+
+  const current = feed?.key === symbolsKey ? feed : null;
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+        <form onSubmit={handleAdd} className="flex gap-3">
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Add symbols, e.g. AAPL, MSFT"
+            aria-label="Symbols to add"
+            disabled={symbols.length >= MAX_WATCHLIST_SYMBOLS}
+          />
+          <Button type="submit" disabled={!input.trim() || symbols.length >= MAX_WATCHLIST_SYMBOLS}>
+            Add
+          </Button>
+        </form>
+
+        {hydrated && symbols.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Your watchlist is empty. Add symbols above or use Watch on any stock page.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {symbols.map((symbol) => (
+              <span
+                key={symbol}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-700 text-sm"
+              >
+                <Link href={`/stock/${symbol}`} className="font-medium hover:text-blue-600 dark:hover:text-blue-400">
+                  {symbol}
+                </Link>
+                {quotes[symbol] && (
+                  <span className="tabular-nums">
+                    {formatCurrency(quotes[symbol].price)}
+                    <span
+                      className={`ml-1 ${
+                        quotes[symbol].change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                      }`}
+                    >
+                      {quotes[symbol].change >= 0 ? '+' : ''}{quotes[symbol].percentChange.toFixed(2)}%
+                    </span>
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeSymbol(symbol)}
+                  className="text-gray-500 hover:text-red-600"
+                  aria-label={`Remove ${symbol}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {symbols.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-2">News</h2>
+          {!current ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading news...</p>
+          ) : current.error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{current.error}</p>
+          ) : (
+            <NewsList articles={current.articles} showSymbols emptyMessage="No recent news for these symbols." />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiErrorCode } from '@/types';
+import { allowsMockFallback, errorStatus, parseRetryAfter, toUpstreamError, UpstreamError } from './errors';
+import { RateLimitError } from './rateLimit';
+
+// The shape toUpstreamError reads from an axios failure
+const axiosError = (status?: number, headers: Record<string, string> = {}, code?: string) => ({
+  isAxiosError: true,
+  message: status ? `Request failed with status code ${status}` : 'Network Error',
+  code,
+  response: status ? { status, headers } : undefined,
+});
+
+describe('toUpstreamError', () => {
+  it.each([
+    [404, 'not_found'],
+    [429, 'rate_limited'],
+    [401, 'unauthorized'],
+    [403, 'unauthorized'],
+    [500, 'upstream_error'],
+    [503, 'upstream_error'],
+    [400, 'unknown'],
+  ] as const)('classifies an HTTP %i as %s', (status, code) => {
+    expect(toUpstreamError(axiosError(status))).toMatchObject({ code, status });
+  });
+
+  it('classifies a request without a response by its axios code', () => {
+    expect(toUpstreamError(axiosError(undefined, {}, 'ECONNABORTED')).code).toBe('timeout');
+    expect(toUpstreamError(axiosError(undefined, {}, 'ETIMEDOUT')).code).toBe('timeout');
+    expect(toUpstreamError(axiosError(undefined, {}, 'ECONNREFUSED')).code).toBe('upstream_error');
+  });
+
+  it("keeps a 429's Retry-After", () => {
+    expect(toUpstreamError(axiosError(429, { 'retry-after': '2' })).retryAfterMs).toBe(2000);
+  });
+
+  it('treats a local rate limit like a 429 asking to wait until the next token', () => {
+    expect(toUpstreamError(new RateLimitError('Polygon', 12000))).toMatchObject({ code: 'rate_limited', retryAfterMs: 12000 });
+  });
+
+  it('passes UpstreamErrors through and classifies anything else as unknown', () => {
+    const error = new UpstreamError('malformed_payload');
+
+    expect(toUpstreamError(error)).toBe(error);
+    expect(toUpstreamError(new Error('boom'))).toMatchObject({ code: 'unknown', message: 'boom' });
+    expect(toUpstreamError('boom')).toMatchObject({ code: 'unknown', message: 'boom' });
+  });
+});
+
+describe('allowsMockFallback', () => {
+  it.each([
+    ['not_found', true],
+    ['unauthorized', true],
+    ['malformed_payload', true],
+    ['unknown', true],
+    ['rate_limited', false],
+    ['timeout', false],
+    ['upstream_error', false],
+    ['unrecorded', false],
+  ] as [ApiErrorCode, boolean][])('answers a %s failure with mock data: %s', (code, allowed) => {
+    expect(allowsMockFallback(new UpstreamError(code))).toBe(allowed);
+  });
+
+  it('classifies raw errors before deciding', () => {
+    expect(allowsMockFallback(axiosError(404))).toBe(true);
+    expect(allowsMockFallback(axiosError(503))).toBe(false);
+    expect(allowsMockFallback(axiosError(undefined, {}, 'ECONNABORTED'))).toBe(false);
+    expect(allowsMockFallback(new RateLimitError('Polygon', 12000))).toBe(false);
+    expect(allowsMockFallback(new Error('boom'))).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads a delay in seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter(1.5)).toBe(1500);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT')).toBe(30000);
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('errorStatus', () => {
+  it('answers with the status for the failure code, or 502 without one', () => {
+    expect(errorStatus({ success: false, code: 'not_found' })).toBe(404);
+    expect(errorStatus({ success: false, code: 'rate_limited' })).toBe(429);
+    expect(errorStatus({ success: false })).toBe(502);
+  });
+});
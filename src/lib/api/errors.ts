@@ -0,0 +1,159 @@
+/**
+ * Typed upstream errors: every failure talking to a market-data provider is
+ * classified into an ApiErrorCode so callers can decide whether to retry and
+ * the UI can tell "unknown symbol" from "try again shortly".
+ * Has no server dependencies so client components can describe the codes too.
+ */
+
+import type { AxiosError } from 'axios';
+import { ApiErrorCode, ApiResponse } from '@/types';
+import { RateLimitError } from './rateLimit';
+
+// Failures that may succeed when the same request is sent again
+const RETRYABLE_CODES: ApiErrorCode[] = ['rate_limited', 'timeout', 'upstream_error'];
+
+export const API_ERROR_MESSAGES: Record<ApiErrorCode, string> = {
+  not_found: 'Unknown symbol or no data available',
+  rate_limited: 'Rate limited by the market data provider',
+  unauthorized: 'The market data provider rejected the API key',
+  timeout: 'The market data provider timed out',
+  upstream_error: 'The market data provider is unavailable',
+  malformed_payload: 'The market data provider returned data that could not be read',
+  unrecorded: 'No recorded response for this request; re-record the session',
+  unknown: 'Something went wrong loading market data',
+};
+
+// HTTP status an API route answers with for each failure
+const API_ERROR_STATUS: Record<ApiErrorCode, number> = {
+  not_found: 404,
+  rate_limited: 429,
+  unauthorized: 502,
+  timeout: 504,
+  upstream_error: 502,
+  malformed_payload: 502,
+  unrecorded: 500,
+  unknown: 500,
+};
+
+/**
+ * A classified failure from an upstream provider
+ */
+export class UpstreamError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string = API_ERROR_MESSAGES[code],
+    public readonly status?: number,
+    // How long the provider asked us to wait before trying again
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+
+  get retryable(): boolean {
+    return isRetryable(this.code);
+  }
+}
+
+/**
+ * Whether a failure with this code may succeed when retried
+ */
+export function isRetryable(code: ApiErrorCode | undefined): boolean {
+  return code !== undefined && RETRYABLE_CODES.includes(code);
+}
+
+/**
+ * Whether a failure may be answered with mock data instead. Transient
+ * failures are reported so they are retried, and a replay run missing a
+ * recording must fail rather than pass against made-up data.
+ */
+export function allowsMockFallback(error: unknown): boolean {
+  const { code, retryable } = toUpstreamError(error);
+  return !retryable && code !== 'unrecorded';
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify anything thrown while talking to a provider
+ */
+export function toUpstreamError(error: unknown): UpstreamError {
+  if (error instanceof UpstreamError) {
+    return error;
+  }
+
+  if (error instanceof RateLimitError) {
+    return new UpstreamError('rate_limited', error.message, undefined, error.waitMs);
+  }
+
+  const axiosError = error as AxiosError;
+
+  if (axiosError?.isAxiosError) {
+    const status = axiosError.response?.status;
+    const retryAfterMs = parseRetryAfter(axiosError.response?.headers?.['retry-after']);
+
+    if (status === undefined) {
+      // No response at all: the request timed out or never reached the provider
+      const timedOut = axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT';
+      return new UpstreamError(timedOut ? 'timeout' : 'upstream_error', axiosError.message);
+    }
+
+    if (status === 404) {
+      return new UpstreamError('not_found', axiosError.message, status);
+    }
+
+    if (status === 429) {
+      return new UpstreamError('rate_limited', axiosError.message, status, retryAfterMs);
+    }
+
+    if (status === 401 || status === 403) {
+      return new UpstreamError('unauthorized', axiosError.message, status);
+    }
+
+    if (status >= 500) {
+      return new UpstreamError('upstream_error', axiosError.message, status, retryAfterMs);
+    }
+
+    return new UpstreamError('unknown', axiosError.message, status);
+  }
+
+  return new UpstreamError('unknown', error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * A failed ApiResponse for a caught error, keeping the caller's message for
+ * errors that could not be classified
+ */
+export function errorResponse<T>(error: unknown, message: string): ApiResponse<T> {
+  const { code } = toUpstreamError(error);
+
+  return {
+    success: false,
+    error: code === 'unknown' ? message : API_ERROR_MESSAGES[code],
+    code,
+  };
+}
+
+/**
+ * HTTP status for a failed ApiResponse; failures without a code are treated as
+ * a bad response from the provider
+ */
+export function errorStatus(response: ApiResponse<unknown>): number {
+  return response.code ? API_ERROR_STATUS[response.code] : 502;
+}
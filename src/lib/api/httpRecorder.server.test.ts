@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { recordOrReplay, UnrecordedRequestError } from './httpRecorder.server';
+
+const request = (url: string, params: Record<string, unknown> = {}): InternalAxiosRequestConfig => ({
+  url,
+  method: 'get',
+  params,
+  headers: new AxiosHeaders(),
+  validateStatus: status => status >= 200 && status < 300,
+});
+
+const response = (config: InternalAxiosRequestConfig, data: unknown, status = 200): AxiosResponse => ({
+  data,
+  status,
+  statusText: status === 200 ? 'OK' : 'Not Found',
+  headers: { 'content-type': 'application/json', 'x-request-id': 'abc' },
+  config,
+});
+
+// A live adapter answering every request with the same payload
+const liveReturning = (data: unknown) => vi.fn<AxiosAdapter>(async config => response(config, data));
+
+// Replay must never reach the network
+const offline = vi.fn<AxiosAdapter>(async () => {
+  throw new Error('Replay sent a request upstream');
+});
+
+describe('recordOrReplay', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    offline.mockClear();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const cassettes = async () =>
+    Promise.all((await fs.readdir(dir)).map(async file => JSON.parse(await fs.readFile(path.join(dir, file), 'utf8'))));
+
+  it('replays a recorded response without going upstream', async () => {
+    const live = liveReturning({ ticker: 'AAPL' });
+    await recordOrReplay(request('/v3/reference/tickers/AAPL'), 'record', dir, live);
+
+    const replayed = await recordOrReplay(request('/v3/reference/tickers/AAPL'), 'replay', dir, offline);
+
+    expect(live).toHaveBeenCalledTimes(1);
+    expect(offline).not.toHaveBeenCalled();
+    expect(replayed).toMatchObject({ status: 200, data: { ticker: 'AAPL' } });
+    // Only the content type is kept from the recorded headers
+    expect(replayed.headers).toEqual({ 'content-type': 'application/json' });
+  });
+
+  it('never writes the API key and matches requests regardless of it', async () => {
+    await recordOrReplay(
+      request('/v2/snapshot', { apikey: 'secret-key', tickers: 'AAPL' }),
+      'record',
+      dir,
+      liveReturning({ count: 1 })
+    );
+
+    const [cassette] = await cassettes();
+    expect(JSON.stringify(cassette)).not.toContain('secret-key');
+    expect(cassette.key).toBe('GET /v2/snapshot?tickers=AAPL');
+    expect(cassette.request.params).toEqual({ tickers: 'AAPL' });
+
+    await expect(
+      recordOrReplay(request('/v2/snapshot', { APIKEY: 'other-key', tickers: 'AAPL' }), 'replay', dir, offline)
+    ).resolves.toMatchObject({ data: { count: 1 } });
+  });
+
+  it('matches params in any order and ignores empty ones', async () => {
+    await recordOrReplay(request('/v3/trades', { limit: 10, order: 'asc' }), 'record', dir, liveReturning([]));
+
+    await expect(
+      recordOrReplay(request('/v3/trades', { order: 'asc', cursor: undefined, limit: '10' }), 'replay', dir, offline)
+    ).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('matches dates relative to the day of the request', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-31T12:00:00Z'));
+
+    await recordOrReplay(
+      request('/v2/aggs/ticker/AAPL/range/1/day/2025-03-01/2025-03-31'),
+      'record',
+      dir,
+      liveReturning({ results: [] })
+    );
+
+    const [cassette] = await cassettes();
+    expect(cassette.key).toBe('GET /v2/aggs/ticker/AAPL/range/1/day/today-30d/today');
+
+    // The next day, the same "last 30 days" request asks for dates one day later
+    vi.setSystemTime(new Date('2025-04-01T12:00:00Z'));
+
+    await expect(
+      recordOrReplay(request('/v2/aggs/ticker/AAPL/range/1/day/2025-03-02/2025-04-01'), 'replay', dir, offline)
+    ).resolves.toMatchObject({ data: { results: [] } });
+
+    await expect(
+      recordOrReplay(request('/v2/aggs/ticker/AAPL/range/1/day/2025-03-01/2025-03-31'), 'replay', dir, offline)
+    ).rejects.toBeInstanceOf(UnrecordedRequestError);
+  });
+
+  it('fails an unrecorded request in replay mode, naming the missing file', async () => {
+    const error = await recordOrReplay(request('/v3/reference/tickers/MSFT'), 'replay', dir, offline).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(UnrecordedRequestError);
+    expect(error).toMatchObject({ code: 'unrecorded', key: 'GET /v3/reference/tickers/MSFT' });
+    expect(path.dirname(error.file)).toBe(dir);
+    expect(error.message).toContain(error.file);
+    expect(offline).not.toHaveBeenCalled();
+  });
+
+  it('records error responses and replays them as axios errors', async () => {
+    const live = vi.fn<AxiosAdapter>(async config => {
+      const notFound = response(config, { status: 'NOT_FOUND' }, 404);
+      throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, config, {}, notFound);
+    });
+
+    await expect(recordOrReplay(request('/v3/reference/tickers/NOPE'), 'record', dir, live)).rejects.toBeInstanceOf(AxiosError);
+
+    const error = await recordOrReplay(request('/v3/reference/tickers/NOPE'), 'replay', dir, offline).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(AxiosError);
+    expect(error.response).toMatchObject({ status: 404, data: { status: 'NOT_FOUND' } });
+  });
+});
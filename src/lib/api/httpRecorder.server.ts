@@ -0,0 +1,192 @@
+/**
+ * Server-only record-and-replay support for upstream HTTP traffic
+ *
+ * In record mode every request is sent upstream and the response is written to
+ * a cassette file; in replay mode responses are served from those files and an
+ * unrecorded request fails instead of reaching the network.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { UpstreamError } from './errors';
+
+export type RecordReplayMode = 'record' | 'replay';
+
+// Query parameters that must never be written to disk or affect matching
+const SECRET_PARAMS = ['apikey'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Cassette = {
+  key: string;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    params: Record<string, string>;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+};
+
+/**
+ * Raised in replay mode when a request has no recorded response
+ */
+export class UnrecordedRequestError extends UpstreamError {
+  constructor(public readonly key: string, public readonly file: string) {
+    super('unrecorded', `No recorded response for ${key} (expected ${file}). Re-record the session with POLYGON_HTTP_MODE=record.`);
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+/**
+ * Replace calendar dates with their offset from today so that requests like
+ * "the last 30 days" match across days (2025-03-01 recorded on 2025-03-31 -> today-30d)
+ */
+function relativizeDates(value: string): string {
+  const today = Math.floor(Date.now() / DAY_MS);
+
+  return value.replace(/\b(\d{4}-\d{2}-\d{2})\b/g, date => {
+    const offset = Math.floor(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS) - today;
+    return offset === 0 ? 'today' : `today${offset > 0 ? '+' : ''}${offset}d`;
+  });
+}
+
+/**
+ * Request params without secrets, as sorted string values
+ */
+function publicParams(config: InternalAxiosRequestConfig): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  Object.keys(config.params || {})
+    .filter(name => !SECRET_PARAMS.includes(name.toLowerCase()))
+    .sort()
+    .forEach(name => {
+      const value = config.params[name];
+      if (value !== undefined && value !== null) {
+        params[name] = String(value);
+      }
+    });
+
+  return params;
+}
+
+/**
+ * Stable key identifying a request, used for matching and file naming
+ */
+function requestKey(config: InternalAxiosRequestConfig): string {
+  const method = (config.method || 'get').toUpperCase();
+  const query = new URLSearchParams(publicParams(config)).toString();
+  const url = `${config.url || ''}${query ? `?${query}` : ''}`;
+
+  return `${method} ${relativizeDates(url)}`;
+}
+
+function cassetteFile(dir: string, key: string): string {
+  const slug = key
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 80);
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 12);
+
+  return path.join(dir, `${slug}_${hash}.json`);
+}
+
+/**
+ * Build an axios response from a cassette, rejecting like axios does for error statuses
+ */
+function replayResponse(cassette: Cassette, config: InternalAxiosRequestConfig): AxiosResponse {
+  const response: AxiosResponse = {
+    data: cassette.response.data,
+    status: cassette.response.status,
+    statusText: cassette.response.statusText,
+    headers: cassette.response.headers,
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus;
+  if (validateStatus && !validateStatus(response.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  }
+
+  return response;
+}
+
+async function writeCassette(dir: string, key: string, config: InternalAxiosRequestConfig, response: AxiosResponse) {
+  const contentType = response.headers?.['content-type'];
+  const cassette: Cassette = {
+    key,
+    recordedAt: new Date().toISOString(),
+    request: {
+      method: (config.method || 'get').toUpperCase(),
+      url: config.url || '',
+      params: publicParams(config),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: contentType ? { 'content-type': String(contentType) } : {},
+      data: response.data,
+    },
+  };
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(cassetteFile(dir, key), `${JSON.stringify(cassette, null, 2)}\n`);
+  console.log(`Recorded response for ${key}`);
+}
+
+/**
+ * Handle one request in record or replay mode
+ */
+export async function recordOrReplay(
+  config: InternalAxiosRequestConfig,
+  mode: RecordReplayMode,
+  dir: string,
+  liveAdapter: AxiosAdapter
+): Promise<AxiosResponse> {
+  const key = requestKey(config);
+  const file = cassetteFile(dir, key);
+
+  if (mode === 'replay') {
+    let cassette: Cassette;
+
+    try {
+      cassette = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        const unrecorded = new UnrecordedRequestError(key, file);
+        console.error(unrecorded.message);
+        throw unrecorded;
+      }
+      throw error;
+    }
+
+    console.log(`Replaying recorded response for ${key}`);
+    return replayResponse(cassette, config);
+  }
+
+  try {
+    const response = await liveAdapter(config);
+    await writeCassette(dir, key, config, response);
+    return response;
+  } catch (error) {
+    // Record upstream error responses too, so failures replay faithfully
+    if (error instanceof AxiosError && error.response) {
+      await writeCassette(dir, key, config, error.response);
+    }
+    throw error;
+  }
+}
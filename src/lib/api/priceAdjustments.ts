@@ -0,0 +1,101 @@
+/**
+ * Split and dividend adjustment of raw price bars. Has no server dependencies
+ * so the chart can share the option list.
+ */
+
+import { CorporateActions, PriceAdjustment, StockPrice, StockSplit } from '@/types';
+
+export const PRICE_ADJUSTMENT_OPTIONS: { key: PriceAdjustment; label: string; description: string }[] = [
+  { key: 'raw', label: 'Raw', description: 'Prices as traded, with jumps on split dates' },
+  { key: 'split', label: 'Split-adjusted', description: 'Earlier prices restated in post-split shares' },
+  { key: 'total', label: 'Total return', description: 'Split-adjusted with dividends reinvested on their ex-dates' },
+];
+
+export const DEFAULT_PRICE_ADJUSTMENT: PriceAdjustment = 'split';
+
+export const isPriceAdjustment = (value: string): value is PriceAdjustment =>
+  PRICE_ADJUSTMENT_OPTIONS.some(option => option.key === value);
+
+/**
+ * Factor that restates a per-share amount from a given date in today's
+ * shares: the product of the ratios of every later split
+ */
+export function splitFactor(date: string, splits: StockSplit[]): number {
+  return splits
+    .filter(split => split.executionDate > date && split.splitFrom > 0 && split.splitTo > 0)
+    .reduce((factor, split) => factor * (split.splitFrom / split.splitTo), 1);
+}
+
+interface AdjustmentEvent {
+  date: string;         // YYYY-MM-DD; bars before this date are adjusted
+  priceFactor: number;
+  volumeFactor: number;
+}
+
+const dayOf = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+/**
+ * Restate bars before each split (and, for total return, each ex-dividend
+ * date) so the series is continuous with the latest bar.
+ *
+ * A dividend scales earlier prices by 1 - amount / close, using the close of
+ * the last bar before the ex-date, which is how reinvesting it on that date
+ * would have grown a holding. Dividends before the first bar are ignored.
+ */
+export function adjustPrices(
+  bars: StockPrice[],
+  actions: CorporateActions,
+  adjustment: PriceAdjustment
+): StockPrice[] {
+  if (adjustment === 'raw' || bars.length === 0) {
+    return bars;
+  }
+
+  const events: AdjustmentEvent[] = actions.splits
+    .filter(split => split.splitFrom > 0 && split.splitTo > 0)
+    .map(split => ({
+      date: split.executionDate,
+      priceFactor: split.splitFrom / split.splitTo,
+      volumeFactor: split.splitTo / split.splitFrom,
+    }));
+
+  if (adjustment === 'total') {
+    for (const dividend of actions.dividends) {
+      const previous = bars.filter(bar => dayOf(bar.timestamp) < dividend.exDividendDate).pop();
+
+      if (previous && dividend.cashAmount > 0 && dividend.cashAmount < previous.close) {
+        events.push({
+          date: dividend.exDividendDate,
+          priceFactor: 1 - dividend.cashAmount / previous.close,
+          volumeFactor: 1,
+        });
+      }
+    }
+  }
+
+  return bars.map(bar => {
+    const day = dayOf(bar.timestamp);
+    let priceFactor = 1;
+    let volumeFactor = 1;
+
+    for (const event of events) {
+      if (day < event.date) {
+        priceFactor *= event.priceFactor;
+        volumeFactor *= event.volumeFactor;
+      }
+    }
+
+    if (priceFactor === 1 && volumeFactor === 1) {
+      return bar;
+    }
+
+    return {
+      ...bar,
+      open: bar.open * priceFactor,
+      high: bar.high * priceFactor,
+      low: bar.low * priceFactor,
+      close: bar.close * priceFactor,
+      volume: Math.round(bar.volume * volumeFactor),
+    };
+  });
+}
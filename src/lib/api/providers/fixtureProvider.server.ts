@@ -0,0 +1,469 @@
+/**
+ * Server-only provider that serves market data from fixture files on disk
+ *
+ * Layout of the fixture directory (MARKET_DATA_FIXTURE_DIR, default fixtures/market-data):
+ *   companies.json              array of Company records
+ *   prices/<SYMBOL>/<span>.csv  OHLCV bars (date,open,high,low,close,volume) where
+ *                               <span> is minute, hour, day, week or month
+ *   financials/<SYMBOL>.json    { annual, quarterly } arrays of FinancialPeriod, oldest first
+ *   corporate-actions/<SYMBOL>.json
+ *                               { asOf, splits, dividends } where asOf is the date of the
+ *                               last price bar; bars are stored unadjusted
+ *   earnings/<SYMBOL>.json      { asOf, reports } where reports are EarningsReport
+ *                               records without the symbol, oldest first
+ *   news/<SYMBOL>.json          { asOf, articles } where articles are NewsArticle records
+ *
+ * Fixture data is shifted forward in time so that the most recent bar falls on
+ * today, which keeps "last month"-style requests working no matter when the
+ * fixtures were recorded. Corporate action, earnings and news dates are shifted
+ * the same way, moving asOf to today, so chart markers line up with the bars
+ * for every range, including custom ranges that end in the past.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Company, CorporateActions, EarningsReport, FinancialPeriod, NewsArticle, Quote, StockPrice } from '@/types';
+import { AggregateTimespan, AggregatesRequest, FinancialsRequest, MarketDataProvider, ProviderLimits, TickerListRequest } from './types';
+
+const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'fixtures', 'market-data');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Timespans from finest to coarsest
+const TIMESPAN_ORDER: AggregateTimespan[] = ['minute', 'hour', 'day', 'week', 'month'];
+
+const TIMESPAN_MS: Record<'minute' | 'hour' | 'day', number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+};
+
+// Roughly how far back the bundled fixture files reach for each bar size
+const FIXTURE_LIMITS: ProviderLimits = {
+  maxBarsPerRequest: 50000,
+  historyDays: {
+    minute: 2,
+    hour: 14,
+    day: 366,
+    week: 5 * 366,
+    month: 5 * 366,
+  },
+};
+
+type FixtureFinancials = Record<FinancialsRequest['periodType'], FinancialPeriod[]>;
+
+type FixtureCorporateActions = Omit<CorporateActions, 'symbol'> & { asOf: string };
+
+type FixtureEarnings = { asOf: string; reports: Omit<EarningsReport, 'symbol'>[] };
+
+type FixtureNews = { asOf: string; articles: NewsArticle[] };
+
+/**
+ * Move a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Days between a fixture's asOf date (or last bar) and today
+ */
+function daysSince(asOf: string | number): number {
+  return Math.floor(Date.now() / DAY_MS) - Math.floor(new Date(asOf).getTime() / DAY_MS);
+}
+
+/**
+ * Parse an OHLCV CSV file into price bars, oldest first
+ */
+function parsePriceCsv(contents: string, file: string): StockPrice[] {
+  const [header, ...rows] = contents.trim().split(/\r?\n/);
+  const columns = header.split(',').map(column => column.trim().toLowerCase());
+  const index = (name: string) => {
+    const position = columns.indexOf(name);
+    if (position === -1) {
+      throw new Error(`Fixture ${file} is missing the "${name}" column`);
+    }
+    return position;
+  };
+
+  const dateIndex = index('date');
+  const openIndex = index('open');
+  const highIndex = index('high');
+  const lowIndex = index('low');
+  const closeIndex = index('close');
+  const volumeIndex = index('volume');
+
+  return rows
+    .filter(row => row.trim() !== '')
+    .map(row => {
+      const cells = row.split(',');
+      return {
+        timestamp: new Date(cells[dateIndex]).getTime(),
+        open: Number(cells[openIndex]),
+        high: Number(cells[highIndex]),
+        low: Number(cells[lowIndex]),
+        close: Number(cells[closeIndex]),
+        volume: Number(cells[volumeIndex]),
+      };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Bucket key for a bar when resampling to the requested bar size
+ */
+function bucketKey(timestamp: number, multiplier: number, timespan: AggregateTimespan): number {
+  const date = new Date(timestamp);
+
+  switch (timespan) {
+    case 'week': {
+      // Weeks start on Monday
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      const weekStart = Math.floor(timestamp / DAY_MS) - daysSinceMonday;
+      return Math.floor(weekStart / (7 * multiplier));
+    }
+    case 'month':
+      return Math.floor((date.getUTCFullYear() * 12 + date.getUTCMonth()) / multiplier);
+    default:
+      return Math.floor(timestamp / (TIMESPAN_MS[timespan] * multiplier));
+  }
+}
+
+/**
+ * Combine consecutive bars into bars of the requested size
+ */
+function resample(bars: StockPrice[], multiplier: number, timespan: AggregateTimespan): StockPrice[] {
+  const result: StockPrice[] = [];
+  let currentKey: number | null = null;
+
+  for (const bar of bars) {
+    const key = bucketKey(bar.timestamp, multiplier, timespan);
+    const current = result[result.length - 1];
+
+    if (key !== currentKey || !current) {
+      result.push({ ...bar });
+      currentKey = key;
+      continue;
+    }
+
+    current.high = Math.max(current.high, bar.high);
+    current.low = Math.min(current.low, bar.low);
+    current.close = bar.close;
+    current.volume += bar.volume;
+  }
+
+  return result;
+}
+
+/**
+ * Create a provider that reads companies and prices from a fixture directory
+ */
+export function createFixtureProvider(fixtureDir = process.env.MARKET_DATA_FIXTURE_DIR || DEFAULT_FIXTURE_DIR): MarketDataProvider {
+  // Parsed files are kept in memory since fixtures never change at runtime
+  let companiesPromise: Promise<Company[]> | null = null;
+  const priceFiles = new Map<string, Promise<StockPrice[] | null>>();
+  const financialFiles = new Map<string, Promise<FixtureFinancials | null>>();
+  const actionFiles = new Map<string, Promise<FixtureCorporateActions | null>>();
+  const earningsFiles = new Map<string, Promise<FixtureEarnings | null>>();
+  const newsFiles = new Map<string, Promise<FixtureNews | null>>();
+
+  const loadCompanies = (): Promise<Company[]> => {
+    if (!companiesPromise) {
+      const file = path.join(fixtureDir, 'companies.json');
+      companiesPromise = fs.readFile(file, 'utf8')
+        .then(contents => JSON.parse(contents) as Company[])
+        .catch(error => {
+          companiesPromise = null;
+          throw new Error(`Failed to load fixture ${file}: ${error.message}`);
+        });
+    }
+
+    return companiesPromise;
+  };
+
+  const loadPrices = (symbol: string, timespan: AggregateTimespan): Promise<StockPrice[] | null> => {
+    const file = path.join(fixtureDir, 'prices', symbol.toUpperCase(), `${timespan}.csv`);
+
+    if (!priceFiles.has(file)) {
+      priceFiles.set(file, fs.readFile(file, 'utf8')
+        .then(contents => parsePriceCsv(contents, file))
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          priceFiles.delete(file);
+          throw error;
+        }));
+    }
+
+    return priceFiles.get(file)!;
+  };
+
+  const loadFinancials = (symbol: string): Promise<FixtureFinancials | null> => {
+    const file = path.join(fixtureDir, 'financials', `${symbol.toUpperCase()}.json`);
+
+    if (!financialFiles.has(file)) {
+      financialFiles.set(file, fs.readFile(file, 'utf8')
+        .then(contents => JSON.parse(contents) as FixtureFinancials)
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          financialFiles.delete(file);
+          throw new Error(`Failed to load fixture ${file}: ${error.message}`);
+        }));
+    }
+
+    return financialFiles.get(file)!;
+  };
+
+  const loadCorporateActions = (symbol: string): Promise<FixtureCorporateActions | null> => {
+    const file = path.join(fixtureDir, 'corporate-actions', `${symbol.toUpperCase()}.json`);
+
+    if (!actionFiles.has(file)) {
+      actionFiles.set(file, fs.readFile(file, 'utf8')
+        .then(contents => JSON.parse(contents) as FixtureCorporateActions)
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          actionFiles.delete(file);
+          throw new Error(`Failed to load fixture ${file}: ${error.message}`);
+        }));
+    }
+
+    return actionFiles.get(file)!;
+  };
+
+  const loadEarnings = (symbol: string): Promise<FixtureEarnings | null> => {
+    const file = path.join(fixtureDir, 'earnings', `${symbol.toUpperCase()}.json`);
+
+    if (!earningsFiles.has(file)) {
+      earningsFiles.set(file, fs.readFile(file, 'utf8')
+        .then(contents => JSON.parse(contents) as FixtureEarnings)
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          earningsFiles.delete(file);
+          throw new Error(`Failed to load fixture ${file}: ${error.message}`);
+        }));
+    }
+
+    return earningsFiles.get(file)!;
+  };
+
+  const loadNews = (symbol: string): Promise<FixtureNews | null> => {
+    const file = path.join(fixtureDir, 'news', `${symbol.toUpperCase()}.json`);
+
+    if (!newsFiles.has(file)) {
+      newsFiles.set(file, fs.readFile(file, 'utf8')
+        .then(contents => JSON.parse(contents) as FixtureNews)
+        .catch(error => {
+          if (error.code === 'ENOENT') {
+            return null;
+          }
+          newsFiles.delete(file);
+          throw new Error(`Failed to load fixture ${file}: ${error.message}`);
+        }));
+    }
+
+    return newsFiles.get(file)!;
+  };
+
+  const getEarnings = async (symbol: string): Promise<EarningsReport[] | null> => {
+    const earnings = await loadEarnings(symbol);
+
+    if (!earnings || earnings.reports.length === 0) {
+      return null;
+    }
+
+    const days = daysSince(earnings.asOf);
+
+    return earnings.reports.map(report => ({
+      ...report,
+      symbol: symbol.toUpperCase(),
+      reportDate: shiftDate(report.reportDate, days),
+    }));
+  };
+
+  // Search and list results leave out the listing details
+  const toListedCompany = (details: Company): Company => ({
+    symbol: details.symbol,
+    name: details.name,
+    description: details.description,
+    sector: details.sector,
+    industry: details.industry,
+    marketCap: details.marketCap,
+    employees: details.employees,
+    ceo: details.ceo,
+    website: details.website,
+    exchange: details.exchange,
+  });
+
+  return {
+    name: 'fixture',
+    dataSource: 'fixture',
+    limits: FIXTURE_LIMITS,
+
+    async getCompanyDetails(symbol: string): Promise<Company | null> {
+      const companies = await loadCompanies();
+      return companies.find(company => company.symbol === symbol.toUpperCase()) || null;
+    },
+
+    async getAggregates(symbol: string, request: AggregatesRequest): Promise<StockPrice[] | null> {
+      const { multiplier, timespan, from, to } = request;
+
+      // Use the coarsest fixture file that is still at least as fine as the request
+      const candidates = TIMESPAN_ORDER.slice(0, TIMESPAN_ORDER.indexOf(timespan) + 1).reverse();
+      let bars: StockPrice[] | null = null;
+      let sourceTimespan: AggregateTimespan = timespan;
+
+      for (const candidate of candidates) {
+        bars = await loadPrices(symbol, candidate);
+        if (bars && bars.length > 0) {
+          sourceTimespan = candidate;
+          break;
+        }
+      }
+
+      if (!bars || bars.length === 0) {
+        return null;
+      }
+
+      // Shift the series so its last bar lands on today, then keep the requested dates
+      const shift = daysSince(bars[bars.length - 1].timestamp) * DAY_MS;
+
+      const fromTime = new Date(from).getTime();
+      const toTime = (Math.floor(new Date(to).getTime() / DAY_MS) + 1) * DAY_MS;
+
+      const shifted = bars
+        .map(bar => ({ ...bar, timestamp: bar.timestamp + shift }))
+        .filter(bar => bar.timestamp >= fromTime && bar.timestamp < toTime);
+
+      if (sourceTimespan === timespan && multiplier === 1) {
+        return shifted;
+      }
+
+      return resample(shifted, multiplier, timespan);
+    },
+
+    async searchCompanies(query: string, limit: number): Promise<Company[]> {
+      const companies = await loadCompanies();
+      const term = query.toLowerCase();
+
+      return companies
+        .filter(company =>
+          company.symbol.toLowerCase().includes(term) ||
+          company.name.toLowerCase().includes(term)
+        )
+        .slice(0, limit)
+        .map(toListedCompany);
+    },
+
+    async listTickers(request: TickerListRequest = {}): Promise<Company[]> {
+      const companies = await loadCompanies();
+
+      return [...companies]
+        .sort((a, b) => a.symbol.localeCompare(b.symbol))
+        .slice(0, request.limit || companies.length)
+        .map(toListedCompany);
+    },
+
+    async getFinancials(symbol: string, request: FinancialsRequest): Promise<FinancialPeriod[] | null> {
+      const financials = await loadFinancials(symbol);
+      const periods = financials?.[request.periodType];
+
+      if (!periods || periods.length === 0) {
+        return null;
+      }
+
+      return periods.slice(-request.limit);
+    },
+
+    async getCorporateActions(symbol: string): Promise<CorporateActions | null> {
+      const actions = await loadCorporateActions(symbol);
+
+      if (!actions) {
+        return null;
+      }
+
+      const days = daysSince(actions.asOf);
+      const shift = (date?: string) => date && shiftDate(date, days);
+
+      return {
+        symbol: symbol.toUpperCase(),
+        splits: actions.splits.map(split => ({ ...split, executionDate: shiftDate(split.executionDate, days) })),
+        dividends: actions.dividends.map(dividend => ({
+          ...dividend,
+          exDividendDate: shiftDate(dividend.exDividendDate, days),
+          declarationDate: shift(dividend.declarationDate),
+          recordDate: shift(dividend.recordDate),
+          payDate: shift(dividend.payDate),
+        })),
+      };
+    },
+
+    getEarnings,
+
+    async getEarningsCalendar(from: string, to: string): Promise<EarningsReport[]> {
+      const companies = await loadCompanies();
+      const reports = await Promise.all(companies.map(company => getEarnings(company.symbol)));
+
+      return reports
+        .flatMap(symbolReports => symbolReports || [])
+        .filter(report => report.reportDate >= from && report.reportDate <= to)
+        .sort((a, b) => a.reportDate.localeCompare(b.reportDate) || a.symbol.localeCompare(b.symbol));
+    },
+
+    async getNews(symbol: string, limit: number): Promise<NewsArticle[]> {
+      const news = await loadNews(symbol);
+
+      if (!news) {
+        return [];
+      }
+
+      const shift = daysSince(news.asOf) * DAY_MS;
+      const now = new Date().toISOString();
+
+      // Articles from later on asOf than the current time of day are not out yet
+      return news.articles
+        .map(article => ({
+          ...article,
+          publishedAt: new Date(new Date(article.publishedAt).getTime() + shift).toISOString(),
+        }))
+        .filter(article => article.publishedAt <= now)
+        .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+        .slice(0, limit);
+    },
+
+    async getQuotes(symbols: string[]): Promise<Quote[]> {
+      const quotes = await Promise.all(symbols.map(async (symbol): Promise<Quote | null> => {
+        // The last daily bar is the current session, as shifted series end today
+        const bars = await loadPrices(symbol, 'day');
+
+        if (!bars || bars.length < 2) {
+          return null;
+        }
+
+        const [previous, latest] = bars.slice(-2);
+        const change = latest.close - previous.close;
+
+        return {
+          symbol: symbol.toUpperCase(),
+          price: latest.close,
+          previousClose: previous.close,
+          change,
+          percentChange: (change / previous.close) * 100,
+          open: latest.open,
+          dayHigh: latest.high,
+          dayLow: latest.low,
+          volume: latest.volume,
+          updatedAt: Date.now(),
+        };
+      }));
+
+      return quotes.filter((quote): quote is Quote => quote !== null);
+    },
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Market-data provider registry
+ *
+ * Providers are selected by name through MARKET_DATA_PROVIDERS, a comma-separated
+ * list tried in order (e.g. "polygon,fixture"). Additional vendors can be plugged
+ * in with registerProvider without touching stockApi.
+ */
+
+import { Quote } from '@/types';
+import { createPolygonProvider } from './polygonProvider';
+import { AggregatesRequest, AggregateTimespan, FinancialsRequest, MarketDataProvider, ProviderDataSource, ProviderLimits, TickerListRequest } from './types';
+import { createValidatedProvider } from './validation';
+
+export * from './types';
+
+type ProviderFactory = () => MarketDataProvider | Promise<MarketDataProvider>;
+
+// Provider used when MARKET_DATA_PROVIDERS is not set
+const DEFAULT_PROVIDERS = 'polygon';
+
+const providerFactories: Record<string, ProviderFactory> = {
+  polygon: createPolygonProvider,
+  // Reads from the local filesystem, so it is only loaded on the server
+  fixture: async () => {
+    const { createFixtureProvider } = await import('./fixtureProvider.server');
+    return createFixtureProvider();
+  },
+};
+
+// Lazily created provider for the current configuration
+let activeProvider: Promise<MarketDataProvider> | null = null;
+
+/**
+ * Register (or replace) a provider factory under the given name
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  providerFactories[name.toLowerCase()] = factory;
+  activeProvider = null;
+}
+
+/**
+ * Names of the configured providers, in the order they are tried
+ */
+export function getConfiguredProviderNames(): string[] {
+  const configured = process.env.MARKET_DATA_PROVIDERS || DEFAULT_PROVIDERS;
+
+  return configured
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+}
+
+// Which kind of provider produced each result of a chain mixing live and fixture providers
+const resultSources = new WeakMap<object, ProviderDataSource>();
+
+/**
+ * Remember which kind of provider a result came from
+ */
+function tagSource<T>(result: T, provider: MarketDataProvider): T {
+  if (typeof result === 'object' && result !== null) {
+    resultSources.set(result, provider.dataSource);
+  }
+
+  return result;
+}
+
+/**
+ * Whether a provider result came from a live API or from local files
+ */
+export function dataSourceOf(provider: MarketDataProvider, result: object): ProviderDataSource {
+  return resultSources.get(result) ?? provider.dataSource;
+}
+
+/**
+ * Run a lookup against each provider in turn until one has data.
+ * Errors are logged and the next provider is tried; if none had data and
+ * any of them failed, the first error is rethrown so a failing provider is
+ * not mistaken for one without data.
+ */
+async function firstWithData<T>(
+  providers: MarketDataProvider[],
+  operation: string,
+  lookup: (provider: MarketDataProvider) => Promise<T>,
+  hasData: (result: T) => boolean
+): Promise<T | null> {
+  let firstError: unknown = null;
+  let emptyResult: T | null = null;
+
+  for (const provider of providers) {
+    try {
+      const result = tagSource(await lookup(provider), provider);
+
+      if (hasData(result)) {
+        return result;
+      }
+
+      emptyResult = result;
+    } catch (error) {
+      console.error(`Provider ${provider.name} failed during ${operation}:`, error);
+      firstError = firstError ?? error;
+    }
+  }
+
+  if (firstError) {
+    throw firstError;
+  }
+
+  return emptyResult;
+}
+
+/**
+ * Ask each provider in turn for the quotes the ones before it did not have.
+ * Errors are logged and the next provider is tried; if every provider failed
+ * the last error is rethrown.
+ */
+async function collectQuotes(providers: MarketDataProvider[], symbols: string[]): Promise<Quote[]> {
+  const quotes: Quote[] = [];
+  let remaining = symbols;
+  let lastError: unknown = null;
+  let anySucceeded = false;
+
+  for (const provider of providers) {
+    if (remaining.length === 0) break;
+
+    try {
+      const found = (await provider.getQuotes(remaining)).map(quote => tagSource(quote, provider));
+      anySucceeded = true;
+      quotes.push(...found);
+
+      const foundSymbols = new Set(found.map(quote => quote.symbol));
+      remaining = remaining.filter(symbol => !foundSymbols.has(symbol));
+    } catch (error) {
+      console.error(`Provider ${provider.name} failed during getQuotes:`, error);
+      lastError = error;
+    }
+  }
+
+  if (!anySucceeded && lastError) {
+    throw lastError;
+  }
+
+  return quotes;
+}
+
+/**
+ * The most permissive of each limit across the providers
+ */
+function mergeLimits(providers: MarketDataProvider[]): ProviderLimits {
+  const timespans = Object.keys(providers[0].limits.historyDays) as AggregateTimespan[];
+
+  return {
+    maxBarsPerRequest: Math.max(...providers.map(provider => provider.limits.maxBarsPerRequest)),
+    historyDays: Object.fromEntries(
+      timespans.map(timespan => [timespan, Math.max(...providers.map(provider => provider.limits.historyDays[timespan]))])
+    ) as Record<AggregateTimespan, number>,
+  };
+}
+
+/**
+ * Combine several providers into one that falls through them in order
+ */
+export function createChainedProvider(providers: MarketDataProvider[]): MarketDataProvider {
+  if (providers.length === 1) {
+    return providers[0];
+  }
+
+  const isPresent = <T>(result: T | null) => result !== null;
+  const isNonEmpty = <T>(result: T[]) => result.length > 0;
+
+  return {
+    name: providers.map(provider => provider.name).join(','),
+    // Results are tagged with the provider that answered; anything untagged is
+    // only reported as live when every provider is
+    dataSource: providers.every(provider => provider.dataSource === 'live') ? 'live' : 'fixture',
+    // A range is accepted when any provider in the chain can serve it
+    limits: mergeLimits(providers),
+
+    getCompanyDetails: (symbol: string) =>
+      firstWithData(providers, 'getCompanyDetails', p => p.getCompanyDetails(symbol), isPresent),
+
+    getAggregates: (symbol: string, request: AggregatesRequest) =>
+      firstWithData(providers, 'getAggregates', p => p.getAggregates(symbol, request), isPresent),
+
+    searchCompanies: async (query: string, limit: number) =>
+      (await firstWithData(providers, 'searchCompanies', p => p.searchCompanies(query, limit), isNonEmpty)) || [],
+
+    listTickers: async (request?: TickerListRequest) =>
+      (await firstWithData(providers, 'listTickers', p => p.listTickers(request), isNonEmpty)) || [],
+
+    getFinancials: (symbol: string, request: FinancialsRequest) =>
+      firstWithData(providers, 'getFinancials', p => p.getFinancials(symbol, request), result => result !== null && result.length > 0),
+
+    getCorporateActions: (symbol: string) =>
+      firstWithData(providers, 'getCorporateActions', p => p.getCorporateActions(symbol), isPresent),
+
+    getEarnings: (symbol: string) =>
+      firstWithData(providers, 'getEarnings', p => p.getEarnings(symbol), result => result !== null && result.length > 0),
+
+    getEarningsCalendar: async (from: string, to: string) =>
+      (await firstWithData(providers, 'getEarningsCalendar', p => p.getEarningsCalendar(from, to), isNonEmpty)) || [],
+
+    getNews: async (symbol: string, limit: number) =>
+      (await firstWithData(providers, 'getNews', p => p.getNews(symbol, limit), isNonEmpty)) || [],
+
+    // Symbols one provider does not cover are looked up in the next
+    getQuotes: (symbols: string[]) => collectQuotes(providers, symbols),
+  };
+}
+
+/**
+ * Build the provider chain described by MARKET_DATA_PROVIDERS. Each provider's
+ * results are validated before the chain sees them, so a malformed payload
+ * falls through to the next provider.
+ */
+async function createConfiguredProvider(): Promise<MarketDataProvider> {
+  const providers: MarketDataProvider[] = [];
+
+  for (const name of getConfiguredProviderNames()) {
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      console.warn(`Unknown market data provider "${name}", skipping`);
+      continue;
+    }
+
+    providers.push(createValidatedProvider(await factory()));
+  }
+
+  if (providers.length === 0) {
+    console.warn(`No usable market data providers configured, falling back to ${DEFAULT_PROVIDERS}`);
+    providers.push(createValidatedProvider(await providerFactories[DEFAULT_PROVIDERS]()));
+  }
+
+  return createChainedProvider(providers);
+}
+
+/**
+ * Get the market-data provider for the current configuration
+ */
+export function getMarketDataProvider(): Promise<MarketDataProvider> {
+  if (!activeProvider) {
+    activeProvider = createConfiguredProvider().catch(error => {
+      activeProvider = null;
+      throw error;
+    });
+  }
+
+  return activeProvider;
+}
@@ -0,0 +1,551 @@
+/**
+ * Polygon.io implementation of the market-data provider interface
+ */
+
+import axios from 'axios';
+import { Company, CorporateActions, Dividend, EarningsReport, EarningsTiming, FinancialPeriod, NewsArticle, Quote, StockPrice, StockSplit } from '@/types';
+import { UpstreamError } from '../errors';
+import { createTokenBucket, throttleAdapter } from '../rateLimit';
+import { currentMaxTokenWait } from '../tokenWait.server';
+import { AggregatesRequest, FinancialsRequest, MarketDataProvider, ProviderLimits, TickerListRequest } from './types';
+
+// Use environment variables for API configuration
+const POLYGON_API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
+const BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.polygon.io';
+
+// HTTP traffic mode: live (default), record (save responses) or replay (serve saved responses)
+const HTTP_MODE = process.env.POLYGON_HTTP_MODE || 'live';
+const CASSETTE_DIR = process.env.POLYGON_CASSETTE_DIR || 'fixtures/polygon-cassettes';
+
+// Requests per minute the API plan allows (5 on the free tier); 0 turns the limit off
+const POLYGON_REQUESTS_PER_MINUTE = parseInt(process.env.POLYGON_REQUESTS_PER_MINUTE || '5', 10);
+
+// Aggregates are capped at 5,000 bars unless a larger limit (at most 50,000) is requested
+const MAX_AGGREGATE_BARS = 50000;
+
+const POLYGON_LIMITS: ProviderLimits = {
+  maxBarsPerRequest: MAX_AGGREGATE_BARS,
+  // Intraday bars are kept for a shorter window than daily and longer bars
+  historyDays: {
+    minute: 5 * 365,
+    hour: 5 * 365,
+    day: 20 * 365,
+    week: 20 * 365,
+    month: 20 * 365,
+  },
+};
+
+// Define proper types for API responses
+type PolygonPriceResult = {
+  t: number; // timestamp
+  o: number; // open
+  h: number; // high
+  l: number; // low
+  c: number; // close
+  v: number; // volume
+};
+
+type PolygonCompanyResult = {
+  ticker: string;
+  name: string;
+  description?: string;
+  sic_description?: string;
+  industry?: string;
+  market_cap?: number;
+  total_employees?: number;
+  ceo?: string;
+  homepage_url?: string;
+  primary_exchange?: string;
+  locale?: string;
+  list_date?: string;
+  branding?: {
+    logo_url?: string;
+  };
+};
+
+type PolygonSplitResult = {
+  execution_date: string;
+  split_from: number;
+  split_to: number;
+};
+
+type PolygonDividendResult = {
+  ex_dividend_date: string;
+  declaration_date?: string;
+  record_date?: string;
+  pay_date?: string;
+  cash_amount: number;
+  currency?: string;
+  frequency?: number;
+};
+
+// Most corporate actions returned per request
+const MAX_CORPORATE_ACTIONS = 1000;
+
+// Benzinga earnings results (release time is US Eastern, HH:MM:SS)
+type PolygonEarningsResult = {
+  ticker: string;
+  date: string;
+  time?: string;
+  fiscal_period?: string;
+  fiscal_year?: number;
+  estimated_eps?: number | null;
+  actual_eps?: number | null;
+  estimated_revenue?: number | null;
+  actual_revenue?: number | null;
+};
+
+// Most earnings reports returned per request
+const MAX_EARNINGS_REPORTS = 1000;
+
+type PolygonSnapshotBar = {
+  o?: number;
+  h?: number;
+  l?: number;
+  c?: number;
+  v?: number;
+};
+
+type PolygonSnapshotResult = {
+  ticker: string;
+  todaysChange?: number;
+  todaysChangePerc?: number;
+  updated?: number; // nanoseconds
+  day?: PolygonSnapshotBar;
+  prevDay?: PolygonSnapshotBar;
+  lastTrade?: {
+    p?: number;
+  };
+};
+
+// Tickers per snapshot request, keeping the query string a safe length
+const MAX_SNAPSHOT_TICKERS = 250;
+
+type PolygonNewsResult = {
+  id: string;
+  title: string;
+  article_url: string;
+  published_utc: string;
+  tickers?: string[];
+  description?: string;
+  image_url?: string;
+  publisher?: {
+    name?: string;
+  };
+};
+
+type PolygonLineItems = Record<string, { value?: number } | undefined>;
+
+type PolygonFinancialsResult = {
+  start_date: string;
+  end_date: string;
+  filing_date?: string;
+  fiscal_period: string;
+  fiscal_year: string;
+  financials: {
+    income_statement?: PolygonLineItems;
+    balance_sheet?: PolygonLineItems;
+    cash_flow_statement?: PolygonLineItems;
+  };
+};
+
+/**
+ * Read a line item value from a Polygon financial statement section
+ */
+function lineItem(section: PolygonLineItems | undefined, ...keys: string[]): number | null {
+  for (const key of keys) {
+    const value = section?.[key]?.value;
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a Polygon financials result to a FinancialPeriod
+ */
+function toFinancialPeriod(result: PolygonFinancialsResult): FinancialPeriod {
+  const income = result.financials.income_statement;
+  const balance = result.financials.balance_sheet;
+  const cashFlow = result.financials.cash_flow_statement;
+  const operatingCashFlow = lineItem(cashFlow, 'net_cash_flow_from_operating_activities');
+
+  return {
+    periodType: result.fiscal_period === 'FY' ? 'annual' : 'quarterly',
+    fiscalYear: parseInt(result.fiscal_year, 10),
+    fiscalPeriod: result.fiscal_period as FinancialPeriod['fiscalPeriod'],
+    startDate: result.start_date,
+    endDate: result.end_date,
+    filingDate: result.filing_date,
+    incomeStatement: {
+      revenue: lineItem(income, 'revenues'),
+      operatingIncome: lineItem(income, 'operating_income_loss'),
+      netIncome: lineItem(income, 'net_income_loss_attributable_to_parent', 'net_income_loss'),
+      eps: lineItem(income, 'diluted_earnings_per_share', 'basic_earnings_per_share'),
+      dilutedShares: lineItem(income, 'diluted_average_shares', 'basic_average_shares'),
+      depreciationAndAmortization: lineItem(income, 'depreciation_and_amortization'),
+      interestExpense: lineItem(income, 'interest_expense_operating', 'interest_expense'),
+    },
+    balanceSheet: {
+      totalAssets: lineItem(balance, 'assets'),
+      currentAssets: lineItem(balance, 'current_assets'),
+      currentLiabilities: lineItem(balance, 'current_liabilities'),
+      totalLiabilities: lineItem(balance, 'liabilities'),
+      totalDebt: lineItem(balance, 'long_term_debt'),
+      cashAndEquivalents: lineItem(balance, 'cash'),
+      equity: lineItem(balance, 'equity_attributable_to_parent', 'equity'),
+    },
+    cashFlow: {
+      operatingCashFlow,
+      // Polygon does not break out capex or dividends
+      capitalExpenditure: null,
+      freeCashFlow: null,
+      dividendsPaid: null,
+    },
+  };
+}
+
+/**
+ * Session timing of an earnings release from its Eastern release time
+ */
+function earningsTiming(time?: string): EarningsTiming | undefined {
+  if (!time) return undefined;
+  if (time < '09:30') return 'bmo';
+  if (time >= '16:00') return 'amc';
+  return 'dmh';
+}
+
+/**
+ * Map a Benzinga earnings result to an EarningsReport
+ */
+function toEarningsReport(result: PolygonEarningsResult): EarningsReport {
+  return {
+    symbol: result.ticker,
+    reportDate: result.date,
+    timing: earningsTiming(result.time),
+    fiscalYear: result.fiscal_year,
+    fiscalPeriod: result.fiscal_period,
+    epsEstimate: result.estimated_eps ?? null,
+    epsActual: result.actual_eps ?? null,
+    revenueEstimate: result.estimated_revenue ?? null,
+    revenueActual: result.actual_revenue ?? null,
+  };
+}
+
+/**
+ * Map a Polygon ticker snapshot to a Quote. Before the open the day bar is
+ * empty, so the previous close stands in for the price. Snapshots without a
+ * previous close (such as a first trading day) have no change to report and
+ * are left out.
+ */
+function toQuote(snapshot: PolygonSnapshotResult): Quote | null {
+  const previousClose = snapshot.prevDay?.c;
+  const price = snapshot.lastTrade?.p || snapshot.day?.c || previousClose;
+
+  if (!previousClose || !price) {
+    return null;
+  }
+
+  const change = price - previousClose;
+
+  return {
+    symbol: snapshot.ticker,
+    price,
+    previousClose,
+    change,
+    percentChange: (change / previousClose) * 100,
+    open: snapshot.day?.o || null,
+    dayHigh: snapshot.day?.h || null,
+    dayLow: snapshot.day?.l || null,
+    volume: snapshot.day?.v || null,
+    updatedAt: snapshot.updated ? Math.floor(snapshot.updated / 1e6) : Date.now(),
+  };
+}
+
+/**
+ * Create the axios instance used for all Polygon requests
+ */
+function createPolygonClient() {
+  // Check if API key is available (not needed when replaying recorded traffic)
+  if (!POLYGON_API_KEY && HTTP_MODE !== 'replay') {
+    console.warn('POLYGON_API_KEY is not set. API calls will fail. Please set NEXT_PUBLIC_POLYGON_API_KEY in your environment variables.');
+  }
+
+  const api = axios.create({
+    baseURL: BASE_URL,
+    params: {
+      apiKey: POLYGON_API_KEY,
+    },
+    // Add timeout to prevent hanging requests
+    timeout: 10000,
+  });
+
+  // Throttle requests that reach Polygon; replayed responses never do
+  const rateLimit = POLYGON_REQUESTS_PER_MINUTE > 0
+    ? createTokenBucket('Polygon', { requestsPerMinute: POLYGON_REQUESTS_PER_MINUTE })
+    : null;
+  const liveAdapter = throttleAdapter(axios.getAdapter(api.defaults.adapter), rateLimit, currentMaxTokenWait);
+  api.defaults.adapter = liveAdapter;
+
+  // Route requests through the recorder in record/replay mode (server only)
+  if ((HTTP_MODE === 'record' || HTTP_MODE === 'replay') && typeof window === 'undefined') {
+    console.log(`Polygon HTTP ${HTTP_MODE} mode using ${CASSETTE_DIR}`);
+
+    api.defaults.adapter = async config => {
+      const { recordOrReplay } = await import('../httpRecorder.server');
+      return recordOrReplay(config, HTTP_MODE, CASSETTE_DIR, liveAdapter);
+    };
+  }
+
+  // Add request interceptor for logging
+  api.interceptors.request.use(config => {
+    console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    return config;
+  });
+
+  // Add response interceptor for logging
+  api.interceptors.response.use(
+    response => {
+      console.log(`API Response: ${response.status} ${response.statusText}`);
+
+      // Anything but a JSON object (an HTML error page, a truncated body) is unusable
+      if (typeof response.data !== 'object' || response.data === null) {
+        throw new UpstreamError('malformed_payload', `Expected a JSON object from ${response.config.url}`, response.status);
+      }
+
+      return response;
+    },
+    error => {
+      console.error('API Error:', error.message);
+      return Promise.reject(error);
+    }
+  );
+
+  return api;
+}
+
+/**
+ * Map a Polygon search/list result to a Company
+ */
+function toCompany(item: PolygonCompanyResult): Company {
+  return {
+    symbol: item.ticker,
+    name: item.name,
+    description: '',
+    sector: '',
+    industry: '',
+    marketCap: 0,
+    employees: 0,
+    ceo: '',
+    website: '',
+    exchange: item.primary_exchange || '',
+  };
+}
+
+/**
+ * Create a provider backed by the Polygon.io REST API
+ */
+export function createPolygonProvider(): MarketDataProvider {
+  const api = createPolygonClient();
+
+  return {
+    name: 'polygon',
+    // Replayed responses were real once but are not current
+    dataSource: HTTP_MODE === 'replay' ? 'fixture' : 'live',
+    limits: POLYGON_LIMITS,
+
+    async getCompanyDetails(symbol: string): Promise<Company | null> {
+      const response = await api.get(`/v3/reference/tickers/${symbol}`);
+
+      if (!response.data || !response.data.results) {
+        return null;
+      }
+
+      const result: PolygonCompanyResult = response.data.results;
+
+      return {
+        symbol: result.ticker || symbol,
+        name: result.name || '',
+        description: result.description || '',
+        sector: result.sic_description || '',
+        industry: result.industry || result.sic_description || '',
+        marketCap: result.market_cap || 0,
+        employees: result.total_employees || 0,
+        ceo: result.ceo || '',
+        website: result.homepage_url || '',
+        exchange: result.primary_exchange || '',
+        logo: result.branding?.logo_url || '',
+        country: result.locale || '',
+        ipoDate: result.list_date || '',
+      };
+    },
+
+    async getAggregates(symbol: string, request: AggregatesRequest): Promise<StockPrice[] | null> {
+      const { multiplier, timespan, from, to } = request;
+      const response = await api.get(
+        `/v2/aggs/ticker/${symbol}/range/${multiplier}/${timespan}/${from}/${to}`,
+        // Unadjusted bars; stockApi applies splits and dividends from the corporate actions
+        { params: { adjusted: false, limit: MAX_AGGREGATE_BARS } }
+      );
+
+      if (!response.data || !response.data.results) {
+        return null;
+      }
+
+      return response.data.results.map((item: PolygonPriceResult) => ({
+        timestamp: item.t,
+        open: item.o,
+        high: item.h,
+        low: item.l,
+        close: item.c,
+        volume: item.v
+      }));
+    },
+
+    async searchCompanies(query: string, limit: number): Promise<Company[]> {
+      const response = await api.get(`/v3/reference/tickers`, {
+        params: {
+          search: query,
+          active: true,
+          sort: 'ticker',
+          order: 'asc',
+          limit,
+        },
+      });
+
+      if (!response.data || !response.data.results) {
+        return [];
+      }
+
+      return response.data.results.map(toCompany);
+    },
+
+    async listTickers(request: TickerListRequest = {}): Promise<Company[]> {
+      const response = await api.get(`/v3/reference/tickers`, {
+        params: {
+          market: 'stocks',
+          active: true,
+          sort: 'ticker',
+          order: 'asc',
+          limit: request.limit || 100,
+        },
+      });
+
+      if (!response.data || !response.data.results) {
+        return [];
+      }
+
+      return response.data.results.map(toCompany);
+    },
+
+    async getFinancials(symbol: string, request: FinancialsRequest): Promise<FinancialPeriod[] | null> {
+      const response = await api.get(`/vX/reference/financials`, {
+        params: {
+          ticker: symbol,
+          timeframe: request.periodType,
+          order: 'desc',
+          sort: 'period_of_report_date',
+          limit: request.limit,
+        },
+      });
+
+      if (!response.data || !response.data.results) {
+        return null;
+      }
+
+      // Polygon returns newest first
+      return (response.data.results as PolygonFinancialsResult[])
+        .map(toFinancialPeriod)
+        .reverse();
+    },
+
+    async getCorporateActions(symbol: string): Promise<CorporateActions | null> {
+      const [splitsResponse, dividendsResponse] = await Promise.all([
+        api.get(`/v3/reference/splits`, {
+          params: { ticker: symbol, order: 'asc', sort: 'execution_date', limit: MAX_CORPORATE_ACTIONS },
+        }),
+        api.get(`/v3/reference/dividends`, {
+          params: { ticker: symbol, order: 'asc', sort: 'ex_dividend_date', limit: MAX_CORPORATE_ACTIONS },
+        }),
+      ]);
+
+      if (!splitsResponse.data?.results && !dividendsResponse.data?.results) {
+        return null;
+      }
+
+      const splits: StockSplit[] = (splitsResponse.data.results || []).map((split: PolygonSplitResult) => ({
+        executionDate: split.execution_date,
+        splitFrom: split.split_from,
+        splitTo: split.split_to,
+      }));
+
+      const dividends: Dividend[] = (dividendsResponse.data.results || []).map((dividend: PolygonDividendResult) => ({
+        exDividendDate: dividend.ex_dividend_date,
+        declarationDate: dividend.declaration_date,
+        recordDate: dividend.record_date,
+        payDate: dividend.pay_date,
+        cashAmount: dividend.cash_amount,
+        currency: dividend.currency,
+        frequency: dividend.frequency,
+      }));
+
+      return { symbol, splits, dividends };
+    },
+
+    async getEarnings(symbol: string): Promise<EarningsReport[] | null> {
+      const response = await api.get(`/benzinga/v1/earnings`, {
+        params: { ticker: symbol, sort: 'date.asc', limit: MAX_EARNINGS_REPORTS },
+      });
+
+      if (!response.data?.results || response.data.results.length === 0) {
+        return null;
+      }
+
+      return response.data.results.map(toEarningsReport);
+    },
+
+    async getEarningsCalendar(from: string, to: string): Promise<EarningsReport[]> {
+      const response = await api.get(`/benzinga/v1/earnings`, {
+        params: { 'date.gte': from, 'date.lte': to, sort: 'date.asc', limit: MAX_EARNINGS_REPORTS },
+      });
+
+      return (response.data?.results || []).map(toEarningsReport);
+    },
+
+    async getNews(symbol: string, limit: number): Promise<NewsArticle[]> {
+      const response = await api.get(`/v2/reference/news`, {
+        params: { ticker: symbol, order: 'desc', sort: 'published_utc', limit },
+      });
+
+      return (response.data?.results || []).map((article: PolygonNewsResult) => ({
+        id: article.id,
+        title: article.title,
+        source: article.publisher?.name || 'Unknown',
+        url: article.article_url,
+        publishedAt: article.published_utc,
+        symbols: article.tickers || [symbol],
+        summary: article.description,
+        imageUrl: article.image_url,
+      }));
+    },
+
+    async getQuotes(symbols: string[]): Promise<Quote[]> {
+      const chunks: string[][] = [];
+      for (let index = 0; index < symbols.length; index += MAX_SNAPSHOT_TICKERS) {
+        chunks.push(symbols.slice(index, index + MAX_SNAPSHOT_TICKERS));
+      }
+
+      const responses = await Promise.all(chunks.map(chunk =>
+        api.get(`/v2/snapshot/locale/us/markets/stocks/tickers`, {
+          params: { tickers: chunk.join(',') },
+        })
+      ));
+
+      return responses
+        .flatMap(response => (response.data?.tickers || []) as PolygonSnapshotResult[])
+        .map(toQuote)
+        .filter((quote): quote is Quote => quote !== null);
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { Company, CorporateActions, DataSource, EarningsReport, FinancialPeriod, FinancialPeriodType, NewsArticle, Quote, StockPrice } from '@/types';
+
+/**
+ * Bar size units understood by every market-data provider
+ */
+export type AggregateTimespan = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Parameters for an OHLCV aggregates (bars) request
+ */
+export interface AggregatesRequest {
+  multiplier: number;
+  timespan: AggregateTimespan;
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+}
+
+/**
+ * What a provider can serve in a single aggregates request
+ */
+export interface ProviderLimits {
+  maxBarsPerRequest: number;
+  // How many days back bars of each size are available
+  historyDays: Record<AggregateTimespan, number>;
+}
+
+/**
+ * Kinds of data a provider serves; cached and synthetic data are labelled by stockApi
+ */
+export type ProviderDataSource = Extract<DataSource, 'live' | 'fixture'>;
+
+/**
+ * Options for listing reference tickers
+ */
+export interface TickerListRequest {
+  limit?: number;
+}
+
+/**
+ * Parameters for a financial statements request
+ */
+export interface FinancialsRequest {
+  periodType: FinancialPeriodType;
+  limit: number;
+}
+
+/**
+ * Vendor-neutral interface for everything stockApi needs from a data source.
+ *
+ * Lookups resolve to null (or an empty array) when the vendor has no data for
+ * the request, and reject when the vendor could not be reached or answered
+ * with an error, so callers can tell "unknown symbol" from "try another source".
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+
+  /** Whether results come from the vendor's live API or from local files */
+  readonly dataSource: ProviderDataSource;
+
+  /** Request limits used to validate price history ranges */
+  readonly limits: ProviderLimits;
+
+  /** Company profile, with whatever listing details the vendor has, for a single symbol */
+  getCompanyDetails(symbol: string): Promise<Company | null>;
+
+  /** OHLCV bars for a symbol as traded (not adjusted for splits or dividends), oldest first */
+  getAggregates(symbol: string, request: AggregatesRequest): Promise<StockPrice[] | null>;
+
+  /** Companies whose symbol or name matches the query */
+  searchCompanies(query: string, limit: number): Promise<Company[]>;
+
+  /** Reference list of tradable tickers */
+  listTickers(request?: TickerListRequest): Promise<Company[]>;
+
+  /** Financial statements for the most recent periods, oldest first */
+  getFinancials(symbol: string, request: FinancialsRequest): Promise<FinancialPeriod[] | null>;
+
+  /** Stock splits and cash dividends, oldest first */
+  getCorporateActions(symbol: string): Promise<CorporateActions | null>;
+
+  /** Past and scheduled earnings reports for a symbol, oldest first */
+  getEarnings(symbol: string): Promise<EarningsReport[] | null>;
+
+  /** Earnings reports of every covered symbol between two dates (YYYY-MM-DD, inclusive) */
+  getEarningsCalendar(from: string, to: string): Promise<EarningsReport[]>;
+
+  /** Most recent news articles tagged with a symbol, newest first */
+  getNews(symbol: string, limit: number): Promise<NewsArticle[]>;
+
+  /** Latest snapshots for many symbols in as few requests as the vendor allows; unknown symbols are left out */
+  getQuotes(symbols: string[]): Promise<Quote[]>;
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Company, StockPrice } from '@/types';
+import { UpstreamError } from '../errors';
+import { MarketDataProvider } from './types';
+import { createValidatedProvider, getDataQualityStats } from './validation';
+
+const company: Company = { symbol: 'AAPL', name: 'Apple Inc.' };
+
+const bar = (timestamp: number, close = 100): StockPrice => ({
+  timestamp,
+  open: close,
+  high: close + 1,
+  low: close - 1,
+  close,
+  volume: 1000,
+});
+
+// Only the methods a test calls are implemented
+const providerReturning = (methods: Partial<MarketDataProvider>): MarketDataProvider => ({
+  name: 'test',
+  dataSource: 'live',
+  limits: { maxBarsPerRequest: 1000, historyDays: { minute: 1, hour: 1, day: 1, week: 1, month: 1 } },
+  ...methods,
+} as MarketDataProvider);
+
+// Counts are kept for the whole process, so compare against a snapshot
+async function statsChange(run: () => Promise<unknown>) {
+  const before = getDataQualityStats();
+  await run();
+  const after = getDataQualityStats();
+
+  return {
+    checked: after.checked - before.checked,
+    quarantined: after.quarantined - before.quarantined,
+    rejected: after.rejected - before.rejected,
+  };
+}
+
+describe('createValidatedProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes valid company details through', async () => {
+    const provider = createValidatedProvider(providerReturning({ getCompanyDetails: async () => company }));
+    await expect(provider.getCompanyDetails('AAPL')).resolves.toEqual(company);
+  });
+
+  it('rejects invalid company details once, without also quarantining them', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const invalid = { ...company, marketCap: -1 };
+    const provider = createValidatedProvider(providerReturning({ getCompanyDetails: async () => invalid }));
+
+    const change = await statsChange(async () => {
+      const error = await provider.getCompanyDetails('AAPL').catch(caught => caught);
+      expect(error).toBeInstanceOf(UpstreamError);
+      expect(error.code).toBe('malformed_payload');
+    });
+
+    expect(change).toEqual({ checked: 1, quarantined: 0, rejected: 1 });
+    expect(getDataQualityStats().recent[0]).toMatchObject({ operation: 'getCompanyDetails', symbol: 'AAPL' });
+  });
+
+  it('quarantines bad, duplicate and out-of-order bars and keeps the rest', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bars = [bar(1), bar(2, NaN), bar(3), bar(3), bar(2), bar(4)];
+    const provider = createValidatedProvider(providerReturning({ getAggregates: async () => bars }));
+    const request = { multiplier: 1, timespan: 'day' as const, from: '2024-01-01', to: '2024-01-31' };
+
+    const change = await statsChange(async () => {
+      const valid = await provider.getAggregates('AAPL', request);
+      expect(valid?.map(validBar => validBar.timestamp)).toEqual([1, 3, 4]);
+    });
+
+    expect(change).toEqual({ checked: 6, quarantined: 3, rejected: 0 });
+  });
+
+  it('quarantines bars whose open or close lies outside the low-high range', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const bars = [bar(1), { ...bar(2), open: 102 }, { ...bar(3), close: 98 }, { ...bar(4), open: 101, close: 99 }];
+    const provider = createValidatedProvider(providerReturning({ getAggregates: async () => bars }));
+    const request = { multiplier: 1, timespan: 'day' as const, from: '2024-01-01', to: '2024-01-31' };
+
+    const change = await statsChange(async () => {
+      const valid = await provider.getAggregates('AAPL', request);
+      expect(valid?.map(validBar => validBar.timestamp)).toEqual([1, 4]);
+    });
+
+    expect(change).toEqual({ checked: 4, quarantined: 2, rejected: 0 });
+    expect(getDataQualityStats().recent.slice(0, 2).map(issue => issue.problem)).toEqual([
+      'close is outside the low-high range',
+      'open is outside the low-high range',
+    ]);
+  });
+
+  it('rejects a price payload with no valid bars', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const provider = createValidatedProvider(providerReturning({ getAggregates: async () => [bar(1, -5)] }));
+    const request = { multiplier: 1, timespan: 'day' as const, from: '2024-01-01', to: '2024-01-31' };
+
+    await expect(provider.getAggregates('AAPL', request)).rejects.toMatchObject({ code: 'malformed_payload' });
+  });
+});
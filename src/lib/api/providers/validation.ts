@@ -0,0 +1,301 @@
+/**
+ * Runtime validation of provider payloads
+ *
+ * Every configured provider is wrapped so its results are checked before
+ * anything else sees them. Malformed records (NaN prices, negative volume,
+ * out-of-order or duplicate bars, missing identifiers) are quarantined: left
+ * out, logged with the offending record and counted for the admin page. A
+ * payload with nothing usable left is rejected as malformed so the next
+ * provider in the chain is tried.
+ */
+
+import { Company, CorporateActions, Dividend, EarningsReport, FinancialPeriod, NewsArticle, Quote, StockPrice, StockSplit } from '@/types';
+import { UpstreamError } from '../errors';
+import { MarketDataProvider } from './types';
+
+// Issues kept for the admin page, newest first
+const MAX_RECENT_ISSUES = 50;
+
+// Longest payload excerpt logged or kept per issue
+const MAX_PAYLOAD_LENGTH = 500;
+
+/**
+ * One record that failed validation
+ */
+export interface DataQualityIssue {
+  at: string;        // ISO 8601 timestamp
+  provider: string;
+  operation: string;
+  symbol?: string;
+  problem: string;
+  payload: string;   // The offending record as JSON, truncated
+}
+
+/**
+ * Validation counts since the server started
+ */
+export interface DataQualityStats {
+  checked: number;     // Records validated
+  quarantined: number; // Records left out of a payload
+  rejected: number;    // Payloads rejected outright
+  recent: DataQualityIssue[];
+}
+
+const stats: DataQualityStats = {
+  checked: 0,
+  quarantined: 0,
+  rejected: 0,
+  recent: [],
+};
+
+interface ValidationContext {
+  provider: string;
+  operation: string;
+  symbol?: string;
+}
+
+/**
+ * Validation counts and the most recent issues
+ */
+export function getDataQualityStats(): DataQualityStats {
+  return { ...stats, recent: [...stats.recent] };
+}
+
+function excerpt(payload: unknown): string {
+  const json = JSON.stringify(payload) ?? String(payload);
+  return json.length > MAX_PAYLOAD_LENGTH ? `${json.slice(0, MAX_PAYLOAD_LENGTH)}...` : json;
+}
+
+function recordIssue(context: ValidationContext, problem: string, payload: unknown): void {
+  const issue: DataQualityIssue = {
+    at: new Date().toISOString(),
+    ...context,
+    problem,
+    payload: excerpt(payload),
+  };
+
+  console.warn(
+    `Invalid ${context.operation} data from ${context.provider}${context.symbol ? ` for ${context.symbol}` : ''}: ${problem}`,
+    issue.payload
+  );
+
+  stats.recent = [issue, ...stats.recent].slice(0, MAX_RECENT_ISSUES);
+}
+
+/**
+ * Throw after recording why a whole payload is unusable
+ */
+function reject(context: ValidationContext, problem: string, payload: unknown): never {
+  recordIssue(context, problem, payload);
+  stats.rejected++;
+  throw new UpstreamError('malformed_payload', `${context.provider} ${context.operation}: ${problem}`);
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPositive = (value: unknown) => isFiniteNumber(value) && value > 0;
+const isNonNegative = (value: unknown) => isFiniteNumber(value) && value >= 0;
+const isNullableNumber = (value: unknown) => value === null || isFiniteNumber(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+const isTimestamp = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Why a record is invalid, or null when it is fine
+ */
+type RecordCheck<T> = (record: T) => string | null;
+
+const checkBar: RecordCheck<StockPrice> = bar => {
+  if (!isPositive(bar.timestamp)) return 'invalid timestamp';
+  if (![bar.open, bar.high, bar.low, bar.close].every(isPositive)) return 'price is missing, not a number or not positive';
+  if (!isNonNegative(bar.volume)) return 'volume is missing or negative';
+  if (bar.high < bar.low) return 'high is below low';
+  if (bar.open < bar.low || bar.open > bar.high) return 'open is outside the low-high range';
+  if (bar.close < bar.low || bar.close > bar.high) return 'close is outside the low-high range';
+  return null;
+};
+
+const checkCompany: RecordCheck<Company> = company => {
+  if (!isNonEmptyString(company.symbol)) return 'missing symbol';
+  if (typeof company.name !== 'string') return 'missing name';
+  if (company.marketCap !== undefined && !isNonNegative(company.marketCap)) return 'market cap is not a non-negative number';
+  if (company.employees !== undefined && !isNonNegative(company.employees)) return 'employee count is not a non-negative number';
+  return null;
+};
+
+const checkQuote: RecordCheck<Quote> = quote => {
+  if (!isNonEmptyString(quote.symbol)) return 'missing symbol';
+  if (!isPositive(quote.price) || !isPositive(quote.previousClose)) return 'price or previous close is missing, not a number or not positive';
+  if (!isFiniteNumber(quote.change) || !isFiniteNumber(quote.percentChange)) return 'change is not a number';
+  if (![quote.open, quote.dayHigh, quote.dayLow].every(isNullableNumber)) return 'day range is not a number';
+  if (quote.volume !== null && !isNonNegative(quote.volume)) return 'volume is negative or not a number';
+  return null;
+};
+
+const checkSplit: RecordCheck<StockSplit> = split => {
+  if (!isDate(split.executionDate)) return 'invalid execution date';
+  if (!isPositive(split.splitFrom) || !isPositive(split.splitTo)) return 'split ratio is not positive';
+  return null;
+};
+
+const checkDividend: RecordCheck<Dividend> = dividend => {
+  if (!isDate(dividend.exDividendDate)) return 'invalid ex-dividend date';
+  if (!isPositive(dividend.cashAmount)) return 'cash amount is not positive';
+  return null;
+};
+
+const checkEarnings: RecordCheck<EarningsReport> = report => {
+  if (!isNonEmptyString(report.symbol)) return 'missing symbol';
+  if (!isDate(report.reportDate)) return 'invalid report date';
+  if (![report.epsEstimate, report.epsActual, report.revenueEstimate, report.revenueActual].every(isNullableNumber)) {
+    return 'estimate or actual is not a number';
+  }
+  return null;
+};
+
+const checkArticle: RecordCheck<NewsArticle> = article => {
+  if (!isNonEmptyString(article.id) || !isNonEmptyString(article.title) || !isNonEmptyString(article.url)) {
+    return 'missing id, title or url';
+  }
+  if (!isTimestamp(article.publishedAt)) return 'invalid publish time';
+  if (!Array.isArray(article.symbols)) return 'missing symbols';
+  return null;
+};
+
+const checkPeriod: RecordCheck<FinancialPeriod> = period => {
+  if (!isFiniteNumber(period.fiscalYear)) return 'invalid fiscal year';
+  if (!isDate(period.startDate) || !isDate(period.endDate)) return 'invalid period dates';
+  if (!period.incomeStatement || !period.balanceSheet || !period.cashFlow) return 'missing statement';
+  return null;
+};
+
+/**
+ * Keep the records that pass a check, quarantining the rest
+ */
+function filterRecords<T>(context: ValidationContext, records: T[], check: RecordCheck<T>): T[] {
+  if (!Array.isArray(records)) {
+    reject(context, 'expected a list of records', records);
+  }
+
+  stats.checked += records.length;
+
+  return records.filter(record => {
+    const problem = record === null || typeof record !== 'object' ? 'not an object' : check(record);
+
+    if (problem) {
+      recordIssue(context, problem, record);
+      stats.quarantined++;
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Like filterRecords, but reject the payload when every record was invalid
+ */
+function requireRecords<T>(context: ValidationContext, records: T[], check: RecordCheck<T>): T[] {
+  const valid = filterRecords(context, records, check);
+
+  if (records.length > 0 && valid.length === 0) {
+    reject(context, `all ${records.length} records are invalid`, records.slice(0, 3));
+  }
+
+  return valid;
+}
+
+/**
+ * Validate price bars, then quarantine bars that repeat or go back in time
+ */
+function validateBars(context: ValidationContext, bars: StockPrice[]): StockPrice[] {
+  const ordered: StockPrice[] = [];
+
+  for (const bar of requireRecords(context, bars, checkBar)) {
+    const previous = ordered[ordered.length - 1];
+
+    if (previous && bar.timestamp <= previous.timestamp) {
+      recordIssue(context, bar.timestamp === previous.timestamp ? 'duplicate bar' : 'bar out of order', { previous, bar });
+      stats.quarantined++;
+      continue;
+    }
+
+    ordered.push(bar);
+  }
+
+  return ordered;
+}
+
+/**
+ * Wrap a provider so everything it returns is validated
+ */
+export function createValidatedProvider(provider: MarketDataProvider): MarketDataProvider {
+  const context = (operation: string, symbol?: string): ValidationContext => ({ provider: provider.name, operation, symbol });
+
+  return {
+    name: provider.name,
+    dataSource: provider.dataSource,
+    limits: provider.limits,
+
+    async getCompanyDetails(symbol: string): Promise<Company | null> {
+      const details = await provider.getCompanyDetails(symbol);
+
+      if (details === null) {
+        return null;
+      }
+
+      // A single record is rejected outright rather than quarantined as well
+      stats.checked++;
+      const problem = typeof details !== 'object' ? 'not an object' : checkCompany(details);
+      return problem ? reject(context('getCompanyDetails', symbol), problem, details) : details;
+    },
+
+    async getAggregates(symbol, request) {
+      const bars = await provider.getAggregates(symbol, request);
+      return bars && validateBars(context('getAggregates', symbol), bars);
+    },
+
+    async searchCompanies(query, limit) {
+      return filterRecords(context('searchCompanies'), await provider.searchCompanies(query, limit), checkCompany);
+    },
+
+    async listTickers(request) {
+      return filterRecords(context('listTickers'), await provider.listTickers(request), checkCompany);
+    },
+
+    async getFinancials(symbol, request) {
+      const periods = await provider.getFinancials(symbol, request);
+      return periods && requireRecords(context('getFinancials', symbol), periods, checkPeriod);
+    },
+
+    async getCorporateActions(symbol): Promise<CorporateActions | null> {
+      const actions = await provider.getCorporateActions(symbol);
+
+      if (actions === null) {
+        return null;
+      }
+
+      return {
+        ...actions,
+        splits: filterRecords(context('getCorporateActions', symbol), actions.splits, checkSplit),
+        dividends: filterRecords(context('getCorporateActions', symbol), actions.dividends, checkDividend),
+      };
+    },
+
+    async getEarnings(symbol) {
+      const reports = await provider.getEarnings(symbol);
+      return reports && requireRecords(context('getEarnings', symbol), reports, checkEarnings);
+    },
+
+    async getEarningsCalendar(from, to) {
+      return filterRecords(context('getEarningsCalendar'), await provider.getEarningsCalendar(from, to), checkEarnings);
+    },
+
+    async getNews(symbol, limit) {
+      return filterRecords(context('getNews', symbol), await provider.getNews(symbol, limit), checkArticle);
+    },
+
+    async getQuotes(symbols) {
+      return filterRecords(context('getQuotes'), await provider.getQuotes(symbols), checkQuote);
+    },
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Price history range specs: presets, custom date ranges and bar intervals,
+ * resolved into provider aggregate requests and checked against provider limits.
+ * Has no server dependencies so the chart can use the same definitions.
+ */
+
+import { BarInterval, RangePreset, RangeSpec, TimeRange } from '@/types';
+import type { AggregatesRequest, AggregateTimespan, ProviderLimits } from './providers/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minutes of trading per day including the pre- and post-market sessions
+const EXTENDED_SESSION_MINUTES = 16 * 60;
+
+export const RANGE_PRESETS: RangePreset[] = ['1D', '1W', '1M', '3M', 'YTD', '1Y', '5Y', 'MAX'];
+
+// Presets whose bars StockPrices can hold
+export const TIME_RANGES: TimeRange[] = ['1D', '1W', '1M', '3M', '1Y', '5Y'];
+
+export interface BarIntervalDefinition {
+  label: string;
+  multiplier: number;
+  timespan: AggregateTimespan;
+}
+
+export const BAR_INTERVALS: Record<BarInterval, BarIntervalDefinition> = {
+  '1m': { label: '1 min', multiplier: 1, timespan: 'minute' },
+  '5m': { label: '5 min', multiplier: 5, timespan: 'minute' },
+  '1h': { label: '1 hour', multiplier: 1, timespan: 'hour' },
+  '1d': { label: '1 day', multiplier: 1, timespan: 'day' },
+  '1w': { label: '1 week', multiplier: 1, timespan: 'week' },
+  '1mo': { label: '1 month', multiplier: 1, timespan: 'month' },
+};
+
+// Interval used when a preset does not ask for one
+const PRESET_INTERVALS: Record<RangePreset, BarInterval> = {
+  '1D': '5m',
+  '1W': '1h',
+  '1M': '1d',
+  '3M': '1d',
+  'YTD': '1d',
+  '1Y': '1w',
+  '5Y': '1mo',
+  'MAX': '1mo',
+};
+
+// Preset the chart opens on and the only one the pages preload, which keeps a
+// cold page load within a free-tier rate limit; other ranges load on demand
+export const DEFAULT_TIME_RANGE: TimeRange = '1D';
+
+export const DEFAULT_RANGE_SPEC: RangeSpec = { range: DEFAULT_TIME_RANGE };
+
+/**
+ * Raised when a range spec is malformed or asks for more than the provider can serve
+ */
+export class RangeSpecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RangeSpecError';
+  }
+}
+
+/**
+ * A range spec turned into concrete dates and an aggregates request
+ */
+export interface ResolvedRange {
+  interval: BarInterval;
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+  request: AggregatesRequest;
+  estimatedBars: number;
+}
+
+export const isRangePreset = (value: string): value is RangePreset =>
+  (RANGE_PRESETS as string[]).includes(value);
+
+export const isTimeRange = (value: string): value is TimeRange =>
+  (TIME_RANGES as string[]).includes(value);
+
+export const isBarInterval = (value: string): value is BarInterval =>
+  Object.prototype.hasOwnProperty.call(BAR_INTERVALS, value);
+
+export const isIntradayInterval = (interval: BarInterval) =>
+  BAR_INTERVALS[interval].timespan === 'minute' || BAR_INTERVALS[interval].timespan === 'hour';
+
+const formatDay = (date: Date) => date.toISOString().split('T')[0];
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS) + 1;
+
+/**
+ * Parse a YYYY-MM-DD date, rejecting impossible dates such as 2024-02-30
+ */
+function parseDay(value: string, name: string): string {
+  const date = new Date(`${value}T00:00:00Z`);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime()) || formatDay(date) !== value) {
+    throw new RangeSpecError(`Invalid ${name} date "${value}", expected YYYY-MM-DD`);
+  }
+
+  return value;
+}
+
+/**
+ * Bar interval for a custom range when none was chosen, aiming for a few
+ * hundred bars
+ */
+function intervalForSpan(days: number): BarInterval {
+  if (days <= 2) return '5m';
+  if (days <= 14) return '1h';
+  if (days <= 3 * 366) return '1d';
+  if (days <= 10 * 366) return '1w';
+  return '1mo';
+}
+
+/**
+ * Bar interval a spec resolves to: the chosen one, else the range's default
+ */
+export function rangeSpecInterval(spec: RangeSpec, now: Date = new Date()): BarInterval {
+  if (spec.interval) {
+    return spec.interval;
+  }
+
+  if (spec.range !== 'custom') {
+    return PRESET_INTERVALS[spec.range];
+  }
+
+  return spec.from ? intervalForSpan(daysBetween(spec.from, spec.to || formatDay(now))) : '1d';
+}
+
+/**
+ * Stable key for a range spec, used in cache keys and to tell loaded ranges apart
+ */
+export function rangeSpecKey(spec: RangeSpec, now: Date = new Date()): string {
+  const interval = rangeSpecInterval(spec, now);
+
+  if (spec.range === 'custom') {
+    return `${spec.from}_${spec.to || formatDay(now)}:${interval}`;
+  }
+
+  return `${spec.range}:${interval}`;
+}
+
+/**
+ * Rough number of bars between two dates, counting weekdays for daily and
+ * intraday bars
+ */
+export function estimateBarCount(from: string, to: string, interval: BarInterval): number {
+  const days = daysBetween(from, to);
+  const tradingDays = Math.ceil((days * 5) / 7);
+  const { multiplier, timespan } = BAR_INTERVALS[interval];
+
+  switch (timespan) {
+    case 'minute':
+      return Math.ceil((tradingDays * EXTENDED_SESSION_MINUTES) / multiplier);
+    case 'hour':
+      return Math.ceil((tradingDays * EXTENDED_SESSION_MINUTES) / (60 * multiplier));
+    case 'day':
+      return Math.ceil(tradingDays / multiplier);
+    case 'week':
+      return Math.ceil(days / (7 * multiplier));
+    case 'month':
+      return Math.ceil(days / (30 * multiplier));
+  }
+}
+
+/**
+ * First day of a preset range, ending today
+ */
+function presetStart(preset: RangePreset, earliest: string, now: Date): string {
+  const start = new Date(now);
+
+  switch (preset) {
+    case '1D':
+      start.setUTCDate(start.getUTCDate() - 1);
+      break;
+    case '1W':
+      start.setUTCDate(start.getUTCDate() - 7);
+      break;
+    case '1M':
+      start.setUTCMonth(start.getUTCMonth() - 1);
+      break;
+    case '3M':
+      start.setUTCMonth(start.getUTCMonth() - 3);
+      break;
+    case 'YTD':
+      return `${now.getUTCFullYear()}-01-01`;
+    case '1Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 1);
+      break;
+    case '5Y':
+      start.setUTCFullYear(start.getUTCFullYear() - 5);
+      break;
+    case 'MAX':
+      return earliest;
+  }
+
+  return formatDay(start);
+}
+
+/**
+ * Resolve a range spec into dates and an aggregates request, throwing
+ * RangeSpecError when it is malformed, reaches further back than the provider
+ * keeps bars of the chosen size, or would return too many bars
+ */
+export function resolveRangeSpec(spec: RangeSpec, limits: ProviderLimits, now: Date = new Date()): ResolvedRange {
+  const interval = rangeSpecInterval(spec, now);
+  const { label, multiplier, timespan } = BAR_INTERVALS[interval];
+  const today = formatDay(now);
+  const historyDays = limits.historyDays[timespan];
+  const earliest = formatDay(new Date(now.getTime() - historyDays * DAY_MS));
+
+  let from: string;
+  let to = today;
+
+  if (spec.range === 'custom') {
+    if (!spec.from) {
+      throw new RangeSpecError('A custom range needs a start date');
+    }
+
+    from = parseDay(spec.from, 'start');
+
+    if (spec.to && parseDay(spec.to, 'end') < today) {
+      to = spec.to;
+    }
+
+    if (from > to) {
+      throw new RangeSpecError('The start date must not be after the end date');
+    }
+  } else {
+    from = presetStart(spec.range, earliest, now);
+  }
+
+  if (from < earliest) {
+    throw new RangeSpecError(
+      `${label} bars are only available for the last ${historyDays} days (from ${earliest})`
+    );
+  }
+
+  const estimatedBars = estimateBarCount(from, to, interval);
+
+  if (estimatedBars > limits.maxBarsPerRequest) {
+    throw new RangeSpecError(
+      `About ${estimatedBars.toLocaleString('en-US')} ${label} bars fall between ${from} and ${to}, ` +
+      `more than the ${limits.maxBarsPerRequest.toLocaleString('en-US')} allowed; choose a longer interval or a shorter range`
+    );
+  }
+
+  return {
+    interval,
+    from,
+    to,
+    request: { multiplier, timespan, from, to },
+    estimatedBars,
+  };
+}
+
+/**
+ * Read a range spec from query parameters (range, from, to, interval). A
+ * from date without a range means a custom range.
+ */
+export function parseRangeSpec(params: URLSearchParams): RangeSpec {
+  const range = params.get('range') || (params.get('from') ? 'custom' : DEFAULT_RANGE_SPEC.range);
+  const interval = params.get('interval');
+
+  if (range !== 'custom' && !isRangePreset(range)) {
+    throw new RangeSpecError(`Unknown range "${range}", expected one of ${RANGE_PRESETS.join(', ')} or custom`);
+  }
+
+  const spec: RangeSpec = { range };
+
+  if (range === 'custom') {
+    spec.from = params.get('from') || undefined;
+    spec.to = params.get('to') || undefined;
+  }
+
+  if (interval) {
+    if (!isBarInterval(interval)) {
+      throw new RangeSpecError(`Unknown interval "${interval}", expected one of ${Object.keys(BAR_INTERVALS).join(', ')}`);
+    }
+    spec.interval = interval;
+  }
+
+  return spec;
+}
+
+/**
+ * Query parameters for a range spec, the inverse of parseRangeSpec
+ */
+export function rangeSpecToParams(spec: RangeSpec): URLSearchParams {
+  const params = new URLSearchParams({ range: spec.range });
+
+  if (spec.range === 'custom') {
+    if (spec.from) params.set('from', spec.from);
+    if (spec.to) params.set('to', spec.to);
+  }
+
+  if (spec.interval) {
+    params.set('interval', spec.interval);
+  }
+
+  return params;
+}
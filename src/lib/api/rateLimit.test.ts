@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { createConcurrencyLimiter, createTokenBucket, RateLimitError, throttleAdapter } from './rateLimit';
+
+// Whether a promise has settled yet, without waiting for it
+function track(promise: Promise<unknown>) {
+  const state = { settled: false };
+  promise.then(() => (state.settled = true), () => (state.settled = true));
+  return state;
+}
+
+// A promise the test resolves or rejects by hand
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('createTokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // Six a minute is one token every ten seconds
+  const bucket = (options: { burst?: number; maxWaitMs?: number } = {}) =>
+    createTokenBucket('Test', { requestsPerMinute: 6, ...options });
+
+  it('lets a full burst through without waiting', async () => {
+    const limiter = bucket({ burst: 3 });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+  });
+
+  it('makes a request wait for the next token once the burst is spent', async () => {
+    const limiter = bucket({ burst: 1 });
+    await limiter.acquire();
+
+    const waiting = track(limiter.acquire());
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(waiting.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(waiting.settled).toBe(true);
+  });
+
+  it('releases waiting requests one refill interval apart', async () => {
+    const limiter = bucket({ burst: 1, maxWaitMs: 60000 });
+    await limiter.acquire();
+
+    const second = track(limiter.acquire());
+    const third = track(limiter.acquire());
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(second.settled).toBe(true);
+    expect(third.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(third.settled).toBe(true);
+  });
+
+  it('refills at the configured rate up to the burst size', async () => {
+    const limiter = bucket({ burst: 2 });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    // A long quiet period refills two tokens, not six
+    vi.advanceTimersByTime(60000);
+    await limiter.acquire();
+    await limiter.acquire();
+
+    const waiting = track(limiter.acquire());
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(waiting.settled).toBe(false);
+  });
+
+  it('rejects a request that would wait longer than maxWaitMs', async () => {
+    const limiter = bucket({ burst: 1, maxWaitMs: 5000 });
+    await limiter.acquire();
+
+    const error = await limiter.acquire().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ provider: 'Test', waitMs: 10000 });
+  });
+
+  it('does not reserve a token for a rejected request', async () => {
+    const limiter = bucket({ burst: 1, maxWaitMs: 5000 });
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+
+    vi.advanceTimersByTime(10000);
+    await limiter.acquire();
+  });
+
+  it('waits up to 15 seconds by default', async () => {
+    const limiter = bucket({ burst: 1 });
+    await limiter.acquire();
+
+    // The second request waits 10 seconds; the third would wait 20
+    const second = limiter.acquire();
+    await expect(limiter.acquire()).rejects.toMatchObject({ waitMs: 20000 });
+
+    await vi.advanceTimersByTimeAsync(10000);
+    await second;
+  });
+
+  it('lets a caller set a shorter limit for one request', async () => {
+    const limiter = bucket({ burst: 1 });
+    await limiter.acquire();
+
+    await expect(limiter.acquire(2000)).rejects.toMatchObject({ waitMs: 10000 });
+  });
+});
+
+describe('createConcurrencyLimiter', () => {
+  it('runs at most the limit at once and starts queued tasks in arrival order', async () => {
+    const limiter = createConcurrencyLimiter(2);
+    const tasks = [deferred<string>(), deferred<string>(), deferred<string>(), deferred<string>()];
+    const started: number[] = [];
+
+    const results = tasks.map((task, index) =>
+      limiter.run(() => {
+        started.push(index);
+        return task.promise;
+      })
+    );
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    tasks[1].resolve('second');
+    await expect(results[1]).resolves.toBe('second');
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[0].resolve('first');
+    await expect(results[0]).resolves.toBe('first');
+    expect(started).toEqual([0, 1, 2, 3]);
+
+    tasks[2].resolve('third');
+    tasks[3].resolve('fourth');
+    await expect(Promise.all(results)).resolves.toEqual(['first', 'second', 'third', 'fourth']);
+  });
+
+  it('frees the slot of a task that fails', async () => {
+    const limiter = createConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('upstream down')))).rejects.toThrow('upstream down');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('throttleAdapter', () => {
+  const config = {} as InternalAxiosRequestConfig;
+
+  it("takes a token with the caller's wait limit before sending", async () => {
+    const acquire = vi.fn(async () => undefined);
+    const adapter = vi.fn(async () => ({ data: 'ok' })) as unknown as AxiosAdapter;
+
+    const throttled = throttleAdapter(adapter, { acquire }, () => 2000);
+
+    await expect(throttled(config)).resolves.toEqual({ data: 'ok' });
+    expect(acquire).toHaveBeenCalledWith(2000);
+    expect(adapter).toHaveBeenCalledWith(config);
+  });
+
+  it('does not send a request the bucket rejects', async () => {
+    const acquire = vi.fn(async () => {
+      throw new RateLimitError('Test', 10000);
+    });
+    const adapter = vi.fn() as unknown as AxiosAdapter;
+
+    await expect(throttleAdapter(adapter, { acquire })(config)).rejects.toBeInstanceOf(RateLimitError);
+    expect(adapter).not.toHaveBeenCalled();
+  });
+
+  it('sends straight away without a bucket', async () => {
+    const adapter = vi.fn(async () => ({ data: 'ok' })) as unknown as AxiosAdapter;
+
+    await expect(throttleAdapter(adapter, null)(config)).resolves.toEqual({ data: 'ok' });
+  });
+});
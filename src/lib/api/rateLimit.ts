@@ -0,0 +1,136 @@
+/**
+ * Throttling for upstream HTTP traffic: a concurrency limit shared by every
+ * provider and a token bucket per provider, applied around the axios adapter
+ * so only requests that actually go out over the network are counted.
+ */
+
+import type { AxiosAdapter } from 'axios';
+
+// Most upstream requests in flight at once, across all providers
+const MAX_CONCURRENT_REQUESTS = Math.max(1, parseInt(process.env.UPSTREAM_MAX_CONCURRENCY || '4', 10) || 4);
+
+// Longest a request may wait for a token before it fails instead
+const MAX_TOKEN_WAIT_MS = 15000;
+
+/**
+ * Raised when a provider's rate limit would keep a request waiting too long.
+ * Nothing is sent upstream, so callers can fall back just as they would on a 429.
+ */
+export class RateLimitError extends Error {
+  constructor(public readonly provider: string, public readonly waitMs: number) {
+    super(`${provider} rate limit reached; the next request slot is ${Math.ceil(waitMs / 1000)}s away`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export interface TokenBucketOptions {
+  requestsPerMinute: number;
+  // Requests that may be sent back to back after a quiet period (default: requestsPerMinute)
+  burst?: number;
+  // Longest a request may wait for a token before it fails instead (default: 15 seconds)
+  maxWaitMs?: number;
+}
+
+export interface TokenBucket {
+  // Resolves once a request may be sent, or rejects with a RateLimitError when
+  // that is more than maxWaitMs (default: the bucket's own limit) away
+  acquire: (maxWaitMs?: number) => Promise<void>;
+}
+
+export interface ConcurrencyLimiter {
+  run: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Create a token bucket that refills at a steady rate. A request that finds the
+ * bucket empty reserves the next token and waits for it, so waiting requests
+ * are released in arrival order and one per refill interval.
+ */
+export function createTokenBucket(name: string, options: TokenBucketOptions): TokenBucket {
+  const capacity = options.burst ?? options.requestsPerMinute;
+  const refillPerMs = options.requestsPerMinute / 60000;
+  const defaultMaxWaitMs = options.maxWaitMs ?? MAX_TOKEN_WAIT_MS;
+
+  // Goes negative while requests are waiting for tokens they have reserved
+  let tokens = capacity;
+  let refilledAt = Date.now();
+
+  return {
+    acquire: async (maxWaitMs = defaultMaxWaitMs) => {
+      const now = Date.now();
+      tokens = Math.min(capacity, tokens + (now - refilledAt) * refillPerMs);
+      refilledAt = now;
+
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil((1 - tokens) / refillPerMs);
+
+      if (waitMs > maxWaitMs) {
+        throw new RateLimitError(name, waitMs);
+      }
+
+      tokens -= 1;
+      console.log(`${name} rate limit reached, waiting ${waitMs}ms`);
+      await sleep(waitMs);
+    },
+  };
+}
+
+/**
+ * Create a limiter that runs at most `limit` tasks at once; the rest queue in
+ * arrival order
+ */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const release = () => {
+    const next = waiting.shift();
+
+    if (next) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return {
+    run: async task => {
+      if (active < limit) {
+        active++;
+      } else {
+        await new Promise<void>(resolve => waiting.push(resolve));
+      }
+
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+  };
+}
+
+const upstreamLimiter = createConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+
+/**
+ * Wrap an axios adapter so each request first takes a token from the provider's
+ * bucket (when it has one) and then a slot under the global concurrency limit.
+ * maxWaitMs, when given, is asked for the current caller's token wait limit.
+ */
+export function throttleAdapter(
+  adapter: AxiosAdapter,
+  bucket: TokenBucket | null,
+  maxWaitMs?: () => number | undefined
+): AxiosAdapter {
+  return async config => {
+    await bucket?.acquire(maxWaitMs?.());
+    return upstreamLimiter.run(() => adapter(config));
+  };
+}
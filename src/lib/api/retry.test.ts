@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UpstreamError } from './errors';
+import { RateLimitError } from './rateLimit';
+import { withRetry } from './retry';
+
+// An operation that fails with the given errors in turn, then succeeds
+function failing(...errors: unknown[]) {
+  let calls = 0;
+
+  return vi.fn(async () => {
+    const error = errors[calls++];
+    if (error !== undefined) throw error;
+    return 'ok';
+  });
+}
+
+const upstreamError = () => new UpstreamError('upstream_error', 'Bad gateway', 502);
+const rateLimited = (retryAfterMs?: number) => new UpstreamError('rate_limited', 'Too many requests', 429, retryAfterMs);
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first successful result without waiting', async () => {
+    const operation = failing();
+
+    await expect(withRetry('test', operation)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('makes three attempts in all, backing off 500ms then 1000ms', async () => {
+    // The randomized half of the backoff at its largest
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const operation = failing(upstreamError(), upstreamError(), upstreamError(), upstreamError());
+    const result = expect(withRetry('test', operation)).rejects.toMatchObject({ code: 'upstream_error' });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    await result;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('randomizes half of each backoff', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const operation = failing(upstreamError(), upstreamError());
+    const result = withRetry('test', operation);
+
+    await vi.advanceTimersByTimeAsync(250);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries timeouts and rate limits as well as provider errors', async () => {
+    const operation = failing(new UpstreamError('timeout'), rateLimited());
+    const result = withRetry('test', operation);
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    for (const code of ['not_found', 'unauthorized', 'malformed_payload', 'unrecorded', 'unknown'] as const) {
+      const operation = failing(new UpstreamError(code));
+
+      await expect(withRetry('test', operation)).rejects.toMatchObject({ code });
+      expect(operation).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('classifies whatever is finally thrown as an UpstreamError', async () => {
+    const error = await withRetry('test', failing(new Error('boom'))).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect(error).toMatchObject({ code: 'unknown', message: 'boom' });
+  });
+
+  it("waits for the provider's Retry-After instead of backing off", async () => {
+    const operation = failing(rateLimited(3000));
+    const result = withRetry('test', operation);
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('waits for a Retry-After of up to 8 seconds', async () => {
+    const operation = failing(rateLimited(8000));
+    const result = withRetry('test', operation);
+
+    await vi.advanceTimersByTimeAsync(7999);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('gives up at once when the provider asks for more than 8 seconds', async () => {
+    const operation = failing(rateLimited(8001));
+
+    await expect(withRetry('test', operation)).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 8001 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads Retry-After from an axios 429 response', async () => {
+    const axiosError = {
+      isAxiosError: true,
+      message: 'Request failed with status code 429',
+      response: { status: 429, headers: { 'retry-after': '9' } },
+    };
+    const operation = failing(axiosError);
+
+    await expect(withRetry('test', operation)).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 9000 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up at once when the local rate limiter's wait is too long", async () => {
+    const operation = failing(new RateLimitError('Polygon', 12000));
+
+    await expect(withRetry('test', operation)).rejects.toMatchObject({ code: 'rate_limited', retryAfterMs: 12000 });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Retry with jittered exponential backoff for transient upstream failures
+ */
+
+import { toUpstreamError } from './errors';
+
+// Attempts in total, including the first
+const MAX_ATTEMPTS = 3;
+
+// Backoff before the second attempt, doubling for each one after
+const BASE_DELAY_MS = 500;
+
+// Longest we wait between attempts; a provider asking for more gives up instead
+const MAX_DELAY_MS = 8000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delay before the given retry (1 for the first): the provider's Retry-After
+ * when it sent one, otherwise exponential backoff with half of it randomized
+ * so callers that failed together do not retry together
+ */
+function retryDelay(retry: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (retry - 1));
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Run an upstream call, retrying rate limits, timeouts and provider errors.
+ * Whatever is finally thrown is an UpstreamError.
+ */
+export async function withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const upstreamError = toUpstreamError(error);
+      const delay = retryDelay(attempt, upstreamError.retryAfterMs);
+
+      if (!upstreamError.retryable || attempt >= MAX_ATTEMPTS || delay > MAX_DELAY_MS) {
+        throw upstreamError;
+      }
+
+      console.warn(`${label} failed (${upstreamError.code}), retrying in ${delay}ms (attempt ${attempt + 1} of ${MAX_ATTEMPTS})`);
+      await sleep(delay);
+    }
+  }
+}
@@ -1,43 +1,13 @@
-import axios from 'axios';
 // import { format, subDays, subMonths, subYears } from 'date-fns';
-import { ApiResponse, Company, StockData, StockPrice, TimeRange as ApiTimeRange } from '@/types';
+import { ApiResponse, BarInterval, Company, CorporateActions, EarningsReport, FinancialPeriod, FinancialPeriodType, Financials, NewsArticle, PriceAdjustment, Provenance, Quote, RangeSpec, StockPrice, StockPrices, TimeRange } from '@/types';
 import cacheService from '../cache/cacheService';
-
-// Define the Stock and StockPrices types here since there's an issue with importing them
-export interface Stock {
-  symbol: string;
-  name: string;
-  description: string;
-  market_cap: number;
-  exchange: string;
-  industry: string;
-  website: string;
-  logo: string;
-  employees: number;
-  ceo: string;
-  country: string;
-  ipo_date: string;
-}
-
-export interface StockPrices {
-  daily: { date: string; price: number }[];
-  weekly: { date: string; price: number }[];
-  monthly: { date: string; price: number }[];
-  threeMonth: { date: string; price: number }[];
-  yearly: { date: string; price: number }[];
-  fiveYear: { date: string; price: number }[];
-}
-
-export type TimeRange = '1D' | '1W' | '1M' | '3M' | '1Y' | '5Y';
-
-// Use environment variables for API configuration
-const POLYGON_API_KEY = process.env.NEXT_PUBLIC_POLYGON_API_KEY;
-const BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://api.polygon.io';
-
-// Check if API key is available
-if (!POLYGON_API_KEY) {
-  console.warn('POLYGON_API_KEY is not set. API calls will fail. Please set NEXT_PUBLIC_POLYGON_API_KEY in your environment variables.');
-}
+import { coalesce } from '../cache/coalesce';
+import { allowsMockFallback, errorResponse } from './errors';
+import { combineProvenance, fromCache, isSynthetic } from '../provenance';
+import { AggregateTimespan, dataSourceOf, getMarketDataProvider, MarketDataProvider } from './providers';
+import { adjustPrices, DEFAULT_PRICE_ADJUSTMENT } from './priceAdjustments';
+import { DEFAULT_TIME_RANGE, RangeSpecError, rangeSpecKey, resolveRangeSpec } from './rangeSpec';
+import { withRetry } from './retry';
 
 // Cache TTLs in seconds
 const CACHE_TTL = {
@@ -46,35 +16,35 @@ const CACHE_TTL = {
   WEEKLY_PRICES: 2 * 24 * 60 * 60,  // 2 days
   MONTHLY_PRICES: 7 * 24 * 60 * 60, // 7 days
   YEARLY_PRICES: 30 * 24 * 60 * 60, // 30 days
+  QUARTERLY_FINANCIALS: 7 * 24 * 60 * 60, // 7 days
+  ANNUAL_FINANCIALS: 30 * 24 * 60 * 60,   // 30 days
+  CORPORATE_ACTIONS: 24 * 60 * 60,        // 1 day
+  EARNINGS: 12 * 60 * 60,                 // 12 hours
+  EARNINGS_CALENDAR: 60 * 60,             // 1 hour
+  NEWS: 15 * 60,                          // 15 minutes
+  QUOTES: 60,                             // 1 minute
 };
 
-// Create axios instance with base configuration
-const api = axios.create({
-  baseURL: BASE_URL,
-  params: {
-    apiKey: POLYGON_API_KEY,
-  },
-  // Add timeout to prevent hanging requests
-  timeout: 10000,
-});
+// Articles fetched (and cached) per symbol
+const NEWS_PER_SYMBOL = 20;
 
-// Add request interceptor for logging
-api.interceptors.request.use(config => {
-  console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
-  return config;
-});
+// Price history TTL by bar size
+const PRICE_CACHE_TTL: Record<AggregateTimespan, number> = {
+  minute: CACHE_TTL.DAILY_PRICES,
+  hour: CACHE_TTL.WEEKLY_PRICES,
+  day: CACHE_TTL.MONTHLY_PRICES,
+  week: CACHE_TTL.YEARLY_PRICES,
+  month: CACHE_TTL.YEARLY_PRICES,
+};
 
-// Add response interceptor for logging
-api.interceptors.response.use(
-  response => {
-    console.log(`API Response: ${response.status} ${response.statusText}`);
-    return response;
-  },
-  error => {
-    console.error('API Error:', error.message);
-    return Promise.reject(error);
-  }
-);
+// Most bars generated when falling back to mock prices
+const MAX_MOCK_BARS = 2000;
+
+// Number of periods fetched by default (10-year growth needs 11 annual periods)
+const FINANCIAL_PERIOD_LIMITS: Record<FinancialPeriodType, number> = {
+  quarterly: 16,
+  annual: 12,
+};
 
 // Mock data for development (remove in production)
 const mockCompanies: Company[] = [
@@ -105,330 +75,473 @@ const mockCompanies: Company[] = [
   // Add more mock companies as needed
 ];
 
-// Define proper types for API responses
-type PolygonPriceResult = {
-  t: number; // timestamp
-  o: number; // open
-  h: number; // high
-  l: number; // low
-  c: number; // close
-  v: number; // volume
+/**
+ * Call the provider for a cache key that missed: concurrent misses for the same
+ * key share one call, and rate limits, timeouts and provider errors are retried
+ * with backoff. Failures are thrown as UpstreamErrors.
+ */
+const fetchFromProvider = <T>(cacheKey: string, load: () => Promise<T>): Promise<T> =>
+  coalesce(cacheKey, () => withRetry(cacheKey, load));
+
+/**
+ * A payload cached together with where it came from
+ */
+interface CachedPayload<T> {
+  data: T;
+  provenance: Provenance;
+}
+
+/**
+ * Read a payload cached by writeCache. Entries without provenance predate it
+ * and may hold mock data, so they count as misses.
+ */
+const readCache = async <T>(cacheKey: string): Promise<CachedPayload<T> | null> => {
+  const cached = await cacheService.get<CachedPayload<T>>(cacheKey);
+  
+  if (!cached?.provenance) {
+    return null;
+  }
+  
+  return { data: cached.data, provenance: fromCache(cached.provenance) };
 };
 
-type PolygonCompanyResult = {
-  ticker: string;
-  name: string;
-  description?: string;
-  sic_description?: string;
-  industry?: string;
-  market_cap?: number;
-  total_employees?: number;
-  ceo?: string;
-  homepage_url?: string;
-  primary_exchange?: string;
+/**
+ * Cache a payload with its provenance. Synthetic data is never cached, so a
+ * later request always tries the provider again.
+ */
+const writeCache = async <T>(cacheKey: string, data: T, provenance: Provenance, ttl: number): Promise<void> => {
+  if (isSynthetic(provenance)) {
+    return;
+  }
+  
+  await cacheService.set<CachedPayload<T>>(cacheKey, { data, provenance }, ttl);
 };
 
+/**
+ * Provenance of a result the provider just returned
+ */
+const providerProvenance = (provider: MarketDataProvider, result: object): Provenance => ({
+  source: dataSourceOf(provider, result),
+  fetchedAt: Date.now(),
+});
+
+const syntheticProvenance = (): Provenance => ({ source: 'synthetic', fetchedAt: Date.now() });
+
 // Get company details
 export const getCompanyDetails = async (symbol: string): Promise<ApiResponse<Company>> => {
   try {
     // Check cache first
     const cacheKey = `stock:details:${symbol}`;
-    const cachedData = await cacheService.get<Company>(cacheKey);
+    const cached = await readCache<Company>(cacheKey);
     
-    if (cachedData) {
+    if (cached) {
       console.log(`Cache hit for stock details: ${symbol}`);
-      return { success: true, data: cachedData };
+      return { success: true, data: cached.data, provenance: cached.provenance };
     }
     
     console.log(`Cache miss for stock details: ${symbol}, fetching from API`);
     
-    // Use the actual API
-    const response = await api.get(`/v3/reference/tickers/${symbol}`);
+    const provider = await getMarketDataProvider();
+    const details = await fetchFromProvider(cacheKey, () => provider.getCompanyDetails(symbol));
     
-    if (response.data && response.data.results) {
-      const apiCompany = response.data.results;
-      
-      const company: Company = {
-        symbol: apiCompany.ticker || symbol,
-        name: apiCompany.name || '',
-        description: apiCompany.description || '',
-        sector: apiCompany.sic_description || '',
-        industry: apiCompany.industry || '',
-        marketCap: apiCompany.market_cap || 0,
-        employees: apiCompany.total_employees || 0,
-        ceo: apiCompany.ceo || '',
-        website: apiCompany.homepage_url || '',
-        exchange: apiCompany.primary_exchange || '',
-      };
+    if (details) {
+      const provenance = providerProvenance(provider, details);
       
       // Cache the result
-      await cacheService.set(cacheKey, company, CACHE_TTL.TICKER_DETAILS);
+      await writeCache(cacheKey, details, provenance, CACHE_TTL.TICKER_DETAILS);
       
-      return { success: true, data: company };
+      return { success: true, data: details, provenance };
     }
     
     // Fallback to mock data if API doesn't return expected results
     const mockCompany = mockCompanies.find(c => c.symbol === symbol.toUpperCase());
     
     if (!mockCompany) {
-      return { success: false, error: 'Company not found' };
+      return { success: false, error: 'Company not found', code: 'not_found' };
     }
     
-    return { success: true, data: mockCompany };
+    return { success: true, data: mockCompany, provenance: syntheticProvenance() };
   } catch (error) {
     console.error('Error fetching company details:', error);
     
-    // Fallback to mock data on error
+    // Fallback to mock data on errors that retrying would not fix
     const mockCompany = mockCompanies.find(c => c.symbol === symbol.toUpperCase());
     
-    if (mockCompany) {
-      return { success: true, data: mockCompany };
+    if (mockCompany && allowsMockFallback(error)) {
+      return { success: true, data: mockCompany, provenance: syntheticProvenance() };
     }
     
-    return { success: false, error: 'Failed to fetch company details' };
+    return errorResponse(error, 'Failed to fetch company details');
   }
 };
 
-// Get stock price data
-export const getStockPriceData = async (
+// Get stock price data for a preset time range
+export const getStockPriceData = (
   symbol: string,
-  timeRange: ApiTimeRange
+  timeRange: TimeRange,
+  adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
+): Promise<ApiResponse<StockPrice[]>> => getPriceHistory(symbol, { range: timeRange }, adjustment);
+
+// Get stock price data for any range spec (preset or custom dates, any bar interval),
+// raw or adjusted for splits and dividends
+export const getPriceHistory = async (
+  symbol: string,
+  spec: RangeSpec,
+  adjustment: PriceAdjustment = DEFAULT_PRICE_ADJUSTMENT
 ): Promise<ApiResponse<StockPrice[]>> => {
+  const response = await getRawPriceHistory(symbol, spec);
+  
+  if (!response.success || !response.data || adjustment === 'raw') {
+    return response;
+  }
+  
+  // Adjusted on every call so one cached series serves all adjustments
+  const actionsResponse = await getCorporateActions(symbol);
+  
+  if (!actionsResponse.success || !actionsResponse.data) {
+    console.warn(`No corporate actions for ${symbol}, returning unadjusted prices`);
+    return response;
+  }
+  
+  return { ...response, data: adjustPrices(response.data, actionsResponse.data, adjustment) };
+};
+
+// Get price bars as traded for a range spec
+const getRawPriceHistory = async (
+  symbol: string,
+  spec: RangeSpec
+): Promise<ApiResponse<StockPrice[]>> => {
+  const rangeKey = rangeSpecKey(spec);
+
   try {
     // Check cache first
-    const cacheKey = `stock:prices:${symbol}:${timeRange}`;
-    const cachedData = await cacheService.get<StockPrice[]>(cacheKey);
+    const cacheKey = `stock:prices:raw:${symbol}:${rangeKey}`;
+    const cached = await readCache<StockPrice[]>(cacheKey);
     
-    if (cachedData) {
-      console.log(`Cache hit for stock prices: ${symbol} (${timeRange})`);
-      return { success: true, data: cachedData };
+    if (cached) {
+      console.log(`Cache hit for stock prices: ${symbol} (${rangeKey})`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
     }
     
-    console.log(`Cache miss for stock prices: ${symbol} (${timeRange}), fetching from API`);
-    
-    // Set up date range based on timeRange
-    const now = new Date();
-    const startDate = new Date(now);
-    let multiplier = 1;
-    let timespan = 'day';
-    
-    switch (timeRange) {
-      case '1D':
-        startDate.setDate(now.getDate() - 1);
-        multiplier = 5;
-        timespan = 'minute';
-        break;
-      case '1W':
-        startDate.setDate(now.getDate() - 7);
-        multiplier = 1;
-        timespan = 'hour';
-        break;
-      case '1M':
-        startDate.setMonth(now.getMonth() - 1);
-        break;
-      case '3M':
-        startDate.setMonth(now.getMonth() - 3);
-        break;
-      case '1Y':
-        startDate.setFullYear(now.getFullYear() - 1);
-        multiplier = 1;
-        timespan = 'week';
-        break;
-      case '5Y':
-        startDate.setFullYear(now.getFullYear() - 5);
-        multiplier = 1;
-        timespan = 'month';
-        break;
-    }
+    console.log(`Cache miss for stock prices: ${symbol} (${rangeKey}), fetching from API`);
     
-    const formattedStartDate = startDate.toISOString().split('T')[0];
-    const formattedEndDate = now.toISOString().split('T')[0];
+    const provider = await getMarketDataProvider();
+    const range = resolveRangeSpec(spec, provider.limits);
+    const cacheTtl = PRICE_CACHE_TTL[range.request.timespan];
     
     try {
-      // Use the actual API
-      const response = await api.get(
-        `/v2/aggs/ticker/${symbol}/range/${multiplier}/${timespan}/${formattedStartDate}/${formattedEndDate}`
-      );
+      const prices = await fetchFromProvider(cacheKey, () => provider.getAggregates(symbol, range.request));
       
-      if (response.data && response.data.results) {
-        const prices: StockPrice[] = response.data.results.map((item: PolygonPriceResult) => ({
-          timestamp: item.t,
-          open: item.o,
-          high: item.h,
-          low: item.l,
-          close: item.c,
-          volume: item.v
-        }));
-        
-        console.log(`Transformed ${prices.length} price points for ${symbol} (${timeRange})`);
-        
-        // Cache the result
-        const cacheTtl = timeRange === '1D' ? CACHE_TTL.DAILY_PRICES : 
-                         timeRange === '1W' ? CACHE_TTL.WEEKLY_PRICES :
-                         timeRange === '1M' || timeRange === '3M' ? CACHE_TTL.MONTHLY_PRICES :
-                         CACHE_TTL.YEARLY_PRICES;
-        
-        await cacheService.set(cacheKey, prices, cacheTtl);
-        
-        return { success: true, data: prices };
+      if (prices) {
+        console.log(`Fetched ${prices.length} price points for ${symbol} (${rangeKey})`);
+        const provenance = providerProvenance(provider, prices);
+        await writeCache(cacheKey, prices, provenance, cacheTtl);
+        return { success: true, data: prices, provenance };
       }
       
       // No price data found, log and generate mock data instead of throwing an error
-      console.log(`No price data found for ${symbol} (${timeRange}), using mock data`);
-      
-      // Generate mock data as fallback
-      const days = timeRange === '1D' ? 1 : 
-                  timeRange === '1W' ? 7 : 
-                  timeRange === '1M' ? 30 : 
-                  timeRange === '3M' ? 90 : 
-                  timeRange === '1Y' ? 365 : 1825; // 5 years = 1825 days
-      
-      const mockPrices = generateMockPrices(symbol, timeRange, days);
-      console.log(`Generated ${mockPrices.length} mock price points for ${symbol} (${timeRange})`);
-      
-      // Cache the mock result
-      const cacheTtl = timeRange === '1D' ? CACHE_TTL.DAILY_PRICES : 
-                       timeRange === '1W' ? CACHE_TTL.WEEKLY_PRICES :
-                       timeRange === '1M' || timeRange === '3M' ? CACHE_TTL.MONTHLY_PRICES :
-                       CACHE_TTL.YEARLY_PRICES;
-      
-      await cacheService.set(cacheKey, mockPrices, cacheTtl);
-      
-      return { success: true, data: mockPrices };
+      console.log(`No price data found for ${symbol} (${rangeKey}), using mock data`);
     } catch (apiError) {
-      console.error(`API error for ${symbol} (${timeRange}):`, apiError);
-      console.log(`Falling back to mock data for ${symbol} (${timeRange})`);
-      
-      // Generate mock data as fallback
-      const days = timeRange === '1D' ? 1 : 
-                  timeRange === '1W' ? 7 : 
-                  timeRange === '1M' ? 30 : 
-                  timeRange === '3M' ? 90 : 
-                  timeRange === '1Y' ? 365 : 1825; // 5 years = 1825 days
-      
-      const mockPrices = generateMockPrices(symbol, timeRange, days);
-      console.log(`Generated ${mockPrices.length} mock price points for ${symbol} (${timeRange})`);
-      
-      // Cache the result
-      const cacheTtl = timeRange === '1D' ? CACHE_TTL.DAILY_PRICES : 
-                       timeRange === '1W' ? CACHE_TTL.WEEKLY_PRICES :
-                       timeRange === '1M' || timeRange === '3M' ? CACHE_TTL.MONTHLY_PRICES :
-                       CACHE_TTL.YEARLY_PRICES;
-      
-      await cacheService.set(cacheKey, mockPrices, cacheTtl);
+      // Transient failures and missing recordings are reported instead of being masked as mock data
+      if (!allowsMockFallback(apiError)) {
+        throw apiError;
+      }
       
-      return { success: true, data: mockPrices };
+      console.error(`API error for ${symbol} (${rangeKey}):`, apiError);
+      console.log(`Falling back to mock data for ${symbol} (${rangeKey})`);
     }
+    
+    // Flagged as synthetic and not cached, so the next request tries the provider again
+    const mockPrices = generateMockPrices(symbol, range.interval, Math.min(range.estimatedBars, MAX_MOCK_BARS));
+    console.warn(`Generated ${mockPrices.length} synthetic price points for ${symbol} (${rangeKey})`);
+    
+    return { success: true, data: mockPrices, provenance: syntheticProvenance() };
   } catch (error) {
-    console.error(`Error fetching stock price data for ${symbol} (${timeRange}):`, error);
+    if (error instanceof RangeSpecError) {
+      return { success: false, error: error.message };
+    }
+    
+    console.error(`Error fetching stock price data for ${symbol} (${rangeKey}):`, error);
+    return errorResponse(error, 'Failed to fetch stock prices');
+  }
+};
+
+// Get financial statements for one period type, oldest first
+export const getFinancialStatements = async (
+  symbol: string,
+  periodType: FinancialPeriodType,
+  limit: number = FINANCIAL_PERIOD_LIMITS[periodType]
+): Promise<ApiResponse<FinancialPeriod[]>> => {
+  try {
+    // Check cache first
+    const cacheKey = `stock:financials:${symbol}:${periodType}:${limit}`;
+    const cached = await readCache<FinancialPeriod[]>(cacheKey);
+    
+    if (cached) {
+      console.log(`Cache hit for ${periodType} financials: ${symbol}`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
+    }
+    
+    console.log(`Cache miss for ${periodType} financials: ${symbol}, fetching from API`);
     
-    // Generate mock data as fallback
-    const days = timeRange === '1D' ? 1 : 
-                timeRange === '1W' ? 7 : 
-                timeRange === '1M' ? 30 : 
-                timeRange === '3M' ? 90 : 
-                timeRange === '1Y' ? 365 : 1825; // 5 years = 1825 days
+    const provider = await getMarketDataProvider();
+    const periods = await fetchFromProvider(cacheKey, () => provider.getFinancials(symbol, { periodType, limit }));
     
-    const prices = generateMockPrices(symbol, timeRange, days);
-    console.log(`Generated ${prices.length} mock price points for ${symbol} (${timeRange}) after error`);
+    if (!periods || periods.length === 0) {
+      return { success: false, error: 'No financial statements found', code: 'not_found' };
+    }
     
     // Cache the result
-    const cacheTtl = timeRange === '1D' ? CACHE_TTL.DAILY_PRICES : 
-                     timeRange === '1W' ? CACHE_TTL.WEEKLY_PRICES :
-                     timeRange === '1M' || timeRange === '3M' ? CACHE_TTL.MONTHLY_PRICES :
-                     CACHE_TTL.YEARLY_PRICES;
+    const provenance = providerProvenance(provider, periods);
+    const cacheTtl = periodType === 'quarterly' ? CACHE_TTL.QUARTERLY_FINANCIALS : CACHE_TTL.ANNUAL_FINANCIALS;
+    await writeCache(cacheKey, periods, provenance, cacheTtl);
+    
+    return { success: true, data: periods, provenance };
+  } catch (error) {
+    console.error(`Error fetching ${periodType} financials for ${symbol}:`, error);
+    return errorResponse(error, 'Failed to fetch financial statements');
+  }
+};
+
+// Get quarterly and annual financial statements for a symbol
+export const getFinancials = async (symbol: string): Promise<ApiResponse<Financials>> => {
+  const [quarterlyResponse, annualResponse] = await Promise.all([
+    getFinancialStatements(symbol, 'quarterly'),
+    getFinancialStatements(symbol, 'annual'),
+  ]);
+  
+  if (!quarterlyResponse.success && !annualResponse.success) {
+    return { success: false, error: annualResponse.error || 'Failed to fetch financial statements', code: annualResponse.code };
+  }
+  
+  return {
+    success: true,
+    data: {
+      symbol: symbol.toUpperCase(),
+      quarterly: quarterlyResponse.data || [],
+      annual: annualResponse.data || [],
+    },
+    provenance: combineProvenance([quarterlyResponse.provenance, annualResponse.provenance]),
+  };
+};
+
+// Get the latest quotes for many symbols in one provider round trip, in the
+// order asked for. Quotes are cached per symbol so overlapping lists share
+// them; symbols the provider does not know are left out. Each quote carries its
+// own provenance since one list can mix cached, live and fixture quotes.
+export const getQuotes = async (symbols: string[]): Promise<ApiResponse<Quote[]>> => {
+  try {
+    const normalized = symbols.map(symbol => symbol.toUpperCase());
+    const cached = await Promise.all(normalized.map(symbol => readCache<Quote>(`stock:quote:${symbol}`)));
+    const quotes = new Map<string, Quote>();
+    
+    cached.forEach(entry => entry && quotes.set(entry.data.symbol, { ...entry.data, provenance: entry.provenance }));
     
-    const cacheKey = `stock:prices:${symbol}:${timeRange}`;
-    await cacheService.set(cacheKey, prices, cacheTtl);
+    const missing = normalized.filter(symbol => !quotes.has(symbol));
+    console.log(`Quotes: ${quotes.size} cached, fetching ${missing.length} from API`);
     
-    return { success: true, data: prices };
+    if (missing.length > 0) {
+      const provider = await getMarketDataProvider();
+      const fetched = await fetchFromProvider(`stock:quote:${missing.join(',')}`, () => provider.getQuotes(missing));
+      
+      await Promise.all(fetched.map(quote => {
+        const provenance = providerProvenance(provider, quote);
+        quotes.set(quote.symbol, { ...quote, provenance });
+        return writeCache(`stock:quote:${quote.symbol}`, quote, provenance, CACHE_TTL.QUOTES);
+      }));
+    }
+    
+    return {
+      success: true,
+      data: normalized
+        .map(symbol => quotes.get(symbol))
+        .filter((quote): quote is Quote => quote !== undefined),
+    };
+  } catch (error) {
+    console.error(`Error fetching quotes for ${symbols.length} symbols:`, error);
+    return errorResponse(error, 'Failed to fetch quotes');
   }
 };
 
-// Get all stock data for a symbol
-export const getStockData = async (symbol: string): Promise<ApiResponse<StockData>> => {
+// Get stock splits and cash dividends for a symbol, oldest first
+export const getCorporateActions = async (symbol: string): Promise<ApiResponse<CorporateActions>> => {
   try {
-    const companyResponse = await getCompanyDetails(symbol);
+    // Check cache first
+    const cacheKey = `stock:actions:${symbol}`;
+    const cached = await readCache<CorporateActions>(cacheKey);
     
-    if (!companyResponse.success || !companyResponse.data) {
-      return { success: false, error: companyResponse.error || 'Company not found' };
+    if (cached) {
+      console.log(`Cache hit for corporate actions: ${symbol}`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
     }
     
-    const dailyResponse = await getStockPriceData(symbol, '1D');
-    const weeklyResponse = await getStockPriceData(symbol, '1W');
-    const monthlyResponse = await getStockPriceData(symbol, '1M');
-    const yearlyResponse = await getStockPriceData(symbol, '1Y');
+    console.log(`Cache miss for corporate actions: ${symbol}, fetching from API`);
     
-    if (!dailyResponse.success || !dailyResponse.data) {
-      return { success: false, error: dailyResponse.error || 'Failed to fetch price data' };
+    const provider = await getMarketDataProvider();
+    const actions = await fetchFromProvider(cacheKey, () => provider.getCorporateActions(symbol));
+    
+    if (!actions) {
+      return { success: false, error: 'No corporate actions found', code: 'not_found' };
     }
     
-    const stockData: StockData = {
-      company: companyResponse.data,
-      prices: dailyResponse.data, // Default to daily prices
-      dailyPrices: dailyResponse.data || [],
-      weeklyPrices: weeklyResponse.data || [],
-      monthlyPrices: monthlyResponse.data || [],
-      yearlyPrices: yearlyResponse.data || [],
-    };
+    const provenance = providerProvenance(provider, actions);
+    await writeCache(cacheKey, actions, provenance, CACHE_TTL.CORPORATE_ACTIONS);
+    
+    return { success: true, data: actions, provenance };
+  } catch (error) {
+    console.error(`Error fetching corporate actions for ${symbol}:`, error);
+    return errorResponse(error, 'Failed to fetch corporate actions');
+  }
+};
+
+// Get past and scheduled earnings reports for a symbol, oldest first
+export const getEarnings = async (symbol: string): Promise<ApiResponse<EarningsReport[]>> => {
+  try {
+    // Check cache first
+    const cacheKey = `stock:earnings:${symbol}`;
+    const cached = await readCache<EarningsReport[]>(cacheKey);
+    
+    if (cached) {
+      console.log(`Cache hit for earnings: ${symbol}`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
+    }
+    
+    console.log(`Cache miss for earnings: ${symbol}, fetching from API`);
+    
+    const provider = await getMarketDataProvider();
+    const reports = await fetchFromProvider(cacheKey, () => provider.getEarnings(symbol));
+    
+    if (!reports) {
+      return { success: false, error: 'No earnings reports found', code: 'not_found' };
+    }
+    
+    const provenance = providerProvenance(provider, reports);
+    await writeCache(cacheKey, reports, provenance, CACHE_TTL.EARNINGS);
+    
+    return { success: true, data: reports, provenance };
+  } catch (error) {
+    console.error(`Error fetching earnings for ${symbol}:`, error);
+    return errorResponse(error, 'Failed to fetch earnings');
+  }
+};
+
+// Get earnings reports of all covered symbols between two dates (YYYY-MM-DD, inclusive)
+export const getEarningsCalendar = async (from: string, to: string): Promise<ApiResponse<EarningsReport[]>> => {
+  try {
+    // Check cache first
+    const cacheKey = `earnings:calendar:${from}:${to}`;
+    const cached = await readCache<EarningsReport[]>(cacheKey);
+    
+    if (cached) {
+      console.log(`Cache hit for earnings calendar: ${from} to ${to}`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
+    }
     
-    return { success: true, data: stockData };
+    console.log(`Cache miss for earnings calendar: ${from} to ${to}, fetching from API`);
+    
+    const provider = await getMarketDataProvider();
+    const reports = await fetchFromProvider(cacheKey, () => provider.getEarningsCalendar(from, to));
+    
+    const provenance = providerProvenance(provider, reports);
+    await writeCache(cacheKey, reports, provenance, CACHE_TTL.EARNINGS_CALENDAR);
+    
+    return { success: true, data: reports, provenance };
   } catch (error) {
-    console.error('Error fetching stock data:', error);
-    return { success: false, error: 'Failed to fetch stock data' };
+    console.error(`Error fetching earnings calendar for ${from} to ${to}:`, error);
+    return errorResponse(error, 'Failed to fetch earnings calendar');
   }
 };
 
+// Get the latest news articles tagged with a symbol, newest first
+export const getCompanyNews = async (symbol: string): Promise<ApiResponse<NewsArticle[]>> => {
+  try {
+    // Check cache first
+    const cacheKey = `stock:news:${symbol}`;
+    const cached = await readCache<NewsArticle[]>(cacheKey);
+    
+    if (cached) {
+      console.log(`Cache hit for news: ${symbol}`);
+      return { success: true, data: cached.data, provenance: cached.provenance };
+    }
+    
+    console.log(`Cache miss for news: ${symbol}, fetching from API`);
+    
+    const provider = await getMarketDataProvider();
+    const articles = await fetchFromProvider(cacheKey, () => provider.getNews(symbol, NEWS_PER_SYMBOL));
+    
+    const provenance = providerProvenance(provider, articles);
+    await writeCache(cacheKey, articles, provenance, CACHE_TTL.NEWS);
+    
+    return { success: true, data: articles, provenance };
+  } catch (error) {
+    console.error(`Error fetching news for ${symbol}:`, error);
+    return errorResponse(error, 'Failed to fetch news');
+  }
+};
+
+// Get a combined news feed for several symbols, newest first. Articles tagged
+// with more than one of the symbols appear once; symbols whose news could not
+// be loaded are left out unless none could.
+export const getNewsFeed = async (symbols: string[], limit = 50): Promise<ApiResponse<NewsArticle[]>> => {
+  const responses = await Promise.all(symbols.map(symbol => getCompanyNews(symbol)));
+  
+  if (symbols.length > 0 && responses.every(response => !response.success)) {
+    return { success: false, error: responses[0].error || 'Failed to fetch news', code: responses[0].code };
+  }
+  
+  const articles = new Map<string, NewsArticle>();
+  
+  for (const response of responses) {
+    for (const article of response.data || []) {
+      if (!articles.has(article.id)) {
+        articles.set(article.id, article);
+      }
+    }
+  }
+  
+  return {
+    success: true,
+    data: [...articles.values()]
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+      .slice(0, limit),
+    provenance: combineProvenance(responses.map(response => response.provenance)),
+  };
+};
+
 // Search for stocks
 export const searchStocks = async (query: string): Promise<ApiResponse<Company[]>> => {
   try {
     if (!query || query.trim() === '') {
-      return { success: true, data: mockCompanies.slice(0, 5) };
+      return { success: true, data: mockCompanies.slice(0, 5), provenance: syntheticProvenance() };
     }
     
     // Check cache first
     const cacheKey = `stock:search:${query}`;
-    const cachedData = await cacheService.get<Company[]>(cacheKey);
+    const cached = await readCache<Company[]>(cacheKey);
     
-    if (cachedData) {
+    if (cached) {
       console.log(`Cache hit for stock search: ${query}`);
-      return { success: true, data: cachedData };
+      return { success: true, data: cached.data, provenance: cached.provenance };
     }
     
     console.log(`Cache miss for stock search: ${query}, fetching from API`);
     
     try {
-      // Use the actual API
-      const response = await api.get(`/v3/reference/tickers`, {
-        params: {
-          search: query,
-          active: true,
-          sort: 'ticker',
-          order: 'asc',
-          limit: 10,
-        },
-      });
+      const provider = await getMarketDataProvider();
+      const companies = await fetchFromProvider(cacheKey, () => provider.searchCompanies(query, 10));
       
-      if (response.data && response.data.results) {
-        const companies: Company[] = response.data.results.map((item: PolygonCompanyResult) => ({
-          symbol: item.ticker,
-          name: item.name,
-          description: '',
-          sector: '',
-          industry: '',
-          marketCap: 0,
-          employees: 0,
-          ceo: '',
-          website: '',
-          exchange: item.primary_exchange || '',
-        }));
-        
+      if (companies.length > 0) {
         // Cache the result for a shorter time (1 hour)
-        await cacheService.set(cacheKey, companies, 60 * 60);
+        const provenance = providerProvenance(provider, companies);
+        await writeCache(cacheKey, companies, provenance, 60 * 60);
         
-        return { success: true, data: companies };
+        return { success: true, data: companies, provenance };
       }
     } catch (apiError) {
+      if (!allowsMockFallback(apiError)) {
+        throw apiError;
+      }
+      
       console.error('API error during search:', apiError);
     }
     
@@ -438,112 +551,52 @@ export const searchStocks = async (query: string): Promise<ApiResponse<Company[]
       company.name.toLowerCase().includes(query.toLowerCase())
     ).slice(0, 10);
     
-    return { success: true, data: filteredCompanies };
+    return { success: true, data: filteredCompanies, provenance: syntheticProvenance() };
   } catch (error) {
     console.error('Error searching stocks:', error);
-    return { success: false, error: 'Failed to search stocks' };
+    return errorResponse(error, 'Failed to search stocks');
   }
 };
 
 // New functions with the enhanced caching
 
 /**
- * Get stock details with enhanced caching
+ * Company details for the stock pages: null when the provider does not know
+ * the symbol or could not be reached, never one of the mock companies
  */
-export async function getEnhancedStockDetails(symbol: string): Promise<Stock | null> {
-  try {
-    // Check cache first
-    const cacheKey = `stock:enhanced:details:${symbol}`;
-    const cachedData = await cacheService.get<Stock>(cacheKey);
-    
-    if (cachedData) {
-      console.log(`Cache hit for enhanced stock details: ${symbol}`);
-      return cachedData;
-    }
-    
-    console.log(`Cache miss for enhanced stock details: ${symbol}, fetching from API`);
-    
-    const response = await fetch(
-      `${BASE_URL}/v3/reference/tickers/${symbol}?apiKey=${POLYGON_API_KEY}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch stock details: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    
-    if (!data.results) {
-      console.error('No results found for stock details:', data);
-      return null;
-    }
-
-    const stock: Stock = {
-      symbol: data.results.ticker,
-      name: data.results.name,
-      description: data.results.description || '',
-      market_cap: data.results.market_cap || 0,
-      exchange: data.results.primary_exchange || '',
-      industry: data.results.sic_description || '',
-      website: data.results.homepage_url || '',
-      logo: data.results.branding?.logo_url || '',
-      employees: data.results.total_employees || 0,
-      ceo: data.results.ceo || '',
-      country: data.results.locale || '',
-      ipo_date: data.results.list_date || '',
-    };
-    
-    // Cache the result
-    await cacheService.set(cacheKey, stock, CACHE_TTL.TICKER_DETAILS);
-    
-    return stock;
-  } catch (error) {
-    console.error(`Error fetching enhanced stock details for ${symbol}:`, error);
+export async function getEnhancedStockDetails(symbol: string): Promise<Company | null> {
+  const response = await getCompanyDetails(symbol);
+  
+  if (!response.success || !response.data || isSynthetic(response.provenance)) {
+    console.error(`No stock details for ${symbol}: ${response.error || 'only mock data available'}`);
     return null;
   }
+  
+  return { ...response.data, provenance: response.provenance };
 }
 
 /**
- * Get stock prices with enhanced caching
+ * Get the split-adjusted bars of preset ranges (by default only the one the
+ * chart opens on) with enhanced caching
  */
-export const getEnhancedStockPrices = async (symbol: string): Promise<StockPrices> => {
+export const getEnhancedStockPrices = async (
+  symbol: string,
+  ranges: TimeRange[] = [DEFAULT_TIME_RANGE]
+): Promise<StockPrices> => {
   try {
     console.log(`Fetching enhanced stock prices for ${symbol}`);
     
-    // Fetch prices for different time ranges
-    const dailyPrices = await getStockPriceData(symbol, '1D');
-    const weeklyPrices = await getStockPriceData(symbol, '1W');
-    const monthlyPrices = await getStockPriceData(symbol, '1M');
-    const threeMonthPrices = await getStockPriceData(symbol, '3M');
-    const yearlyPrices = await getStockPriceData(symbol, '1Y');
-    const fiveYearPrices = await getStockPriceData(symbol, '5Y');
+    // Fetch prices for different time ranges in parallel; upstream calls are
+    // throttled by the provider's rate limiter
+    const responses = await Promise.all(ranges.map(range => getStockPriceData(symbol, range)));
+    const prices: StockPrices = { bars: {}, provenance: {} };
     
-    return {
-      daily: dailyPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || [],
-      weekly: weeklyPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || [],
-      monthly: monthlyPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || [],
-      threeMonth: threeMonthPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || [],
-      yearly: yearlyPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || [],
-      fiveYear: fiveYearPrices.data?.map(price => ({
-        date: new Date(price.timestamp).toISOString(),
-        price: price.close
-      })) || []
-    };
+    ranges.forEach((range, index) => {
+      prices.bars[range] = responses[index].data || [];
+      prices.provenance[range] = responses[index].provenance;
+    });
+    
+    return prices;
   } catch (error) {
     console.error(`Error fetching enhanced stock prices for ${symbol}:`, error);
     throw error;
@@ -553,53 +606,31 @@ export const getEnhancedStockPrices = async (symbol: string): Promise<StockPrice
 /**
  * Search for stocks with enhanced caching
  */
-export async function getEnhancedSearchStocks(query: string): Promise<Stock[]> {
+export async function getEnhancedSearchStocks(query: string): Promise<Company[]> {
   try {
     // Check cache first
     const cacheKey = `stock:enhanced:search:${query}`;
-    const cachedData = await cacheService.get<Stock[]>(cacheKey);
+    const cached = await readCache<Company[]>(cacheKey);
     
-    if (cachedData) {
+    if (cached) {
       console.log(`Cache hit for enhanced stock search: ${query}`);
-      return cachedData;
+      return cached.data;
     }
     
     console.log(`Cache miss for enhanced stock search: ${query}, fetching from API`);
     
-    const response = await fetch(
-      `${BASE_URL}/v3/reference/tickers?search=${query}&active=true&sort=ticker&order=asc&limit=10&apiKey=${POLYGON_API_KEY}`
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to search stocks: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const provider = await getMarketDataProvider();
+    const companies = await fetchFromProvider(cacheKey, () => provider.searchCompanies(query, 10));
     
-    if (!data.results) {
-      console.error('No results found for stock search:', data);
+    if (companies.length === 0) {
+      console.error(`No results found for stock search: ${query}`);
       return [];
     }
-
-    const stocks = data.results.map((item: PolygonCompanyResult) => ({
-      symbol: item.ticker,
-      name: item.name,
-      description: '',
-      market_cap: 0,
-      exchange: item.primary_exchange || '',
-      industry: '',
-      website: '',
-      logo: '',
-      employees: 0,
-      ceo: '',
-      country: '',
-      ipo_date: '',
-    }));
     
     // Cache the result for a shorter time (1 hour)
-    await cacheService.set(cacheKey, stocks, 60 * 60);
+    await writeCache(cacheKey, companies, providerProvenance(provider, companies), 60 * 60);
     
-    return stocks;
+    return companies;
   } catch (error) {
     console.error(`Error searching enhanced stocks for "${query}":`, error);
     return [];
@@ -609,11 +640,11 @@ export async function getEnhancedSearchStocks(query: string): Promise<Stock[]> {
 /**
  * Get popular/trending stocks with enhanced caching
  */
-export async function getEnhancedPopularStocks(): Promise<Stock[]> {
+export async function getEnhancedPopularStocks(): Promise<Company[]> {
   try {
     // Check cache first
     const cacheKey = 'stock:enhanced:popular';
-    const cachedData = await cacheService.get<Stock[]>(cacheKey);
+    const cachedData = await cacheService.get<Company[]>(cacheKey);
     
     if (cachedData) {
       console.log('Cache hit for enhanced popular stocks');
@@ -624,7 +655,7 @@ export async function getEnhancedPopularStocks(): Promise<Stock[]> {
     
     // Popular tech stocks
     const symbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'TSLA', 'NVDA', 'NFLX'];
-    const stocks: Stock[] = [];
+    const stocks: Company[] = [];
     
     for (const symbol of symbols) {
       const stock = await getEnhancedStockDetails(symbol);
@@ -643,10 +674,20 @@ export async function getEnhancedPopularStocks(): Promise<Stock[]> {
   }
 }
 
+// Spacing of mock price bars; months are approximated as 30 days
+const BAR_INTERVAL_MS: Record<BarInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+  '1mo': 30 * 24 * 60 * 60 * 1000,
+};
+
 // Add a simple implementation of generateMockPrices
 const generateMockPrices = (
   symbol: string, 
-  timeRange: ApiTimeRange, 
+  barInterval: BarInterval, 
   count: number
 ): StockPrice[] => {
   const now = new Date();
@@ -662,16 +703,8 @@ const generateMockPrices = (
                    symbol === 'NVDA' ? 950.02 :
                    symbol === 'NFLX' ? 605.88 : 100.00;
   
-  // Determine time interval based on timeRange
-  let interval: number;
-  switch(timeRange) {
-    case '1D': interval = 5 * 60 * 1000; break; // 5 minutes
-    case '1W': interval = 60 * 60 * 1000; break; // 1 hour
-    case '1M': case '3M': interval = 24 * 60 * 60 * 1000; break; // 1 day
-    case '1Y': interval = 7 * 24 * 60 * 60 * 1000; break; // 1 week
-    case '5Y': interval = 30 * 24 * 60 * 60 * 1000; break; // 1 month
-    default: interval = 24 * 60 * 60 * 1000; // Default to 1 day
-  }
+  // Determine time interval based on the bar size
+  const interval = BAR_INTERVAL_MS[barInterval];
   
   // Create a trend direction for this stock (up, down, or sideways)
   const trendDirection = Math.random() > 0.7 ? -1 : 1; // 70% chance of upward trend
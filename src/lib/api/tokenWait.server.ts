@@ -0,0 +1,27 @@
+/**
+ * Per-request limits on how long upstream calls may wait for a rate-limit
+ * token. Server-rendered pages set a short one so a cold page renders with
+ * what it could get instead of blocking on the provider's rate limit.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Longest a server-rendered page waits for a rate-limit token per request
+export const PAGE_MAX_TOKEN_WAIT_MS = 2000;
+
+const tokenWaitLimit = new AsyncLocalStorage<number>();
+
+/**
+ * Run work whose upstream calls fail with rate_limited rather than wait
+ * longer than maxWaitMs for a token
+ */
+export function withMaxTokenWait<T>(maxWaitMs: number, run: () => Promise<T>): Promise<T> {
+  return tokenWaitLimit.run(maxWaitMs, run);
+}
+
+/**
+ * The token wait limit of the current request, if it set one
+ */
+export function currentMaxTokenWait(): number | undefined {
+  return tokenWaitLimit.getStore();
+}
@@ -12,6 +12,11 @@ type CacheValue<T> = {
 // Default cache TTL in seconds
 const DEFAULT_CACHE_TTL = parseInt(process.env.CACHE_TTL || '86400', 10); // 24 hours
 
+// Version of the cached payload shapes, part of every key. Bump it whenever a
+// cached type changes shape so entries written by older code are never read
+// back as the new one; they are left to expire.
+const CACHE_KEY_VERSION = 2;
+
 // Maximum cache size in bytes (30MB)
 const MAX_CACHE_SIZE = 30 * 1024 * 1024;
 
@@ -22,6 +27,11 @@ let memoryCacheSize = 0;
 // Flag to track if we're in a server environment
 const isServer = typeof window === 'undefined';
 
+/**
+ * Key a value is stored under for the current payload version
+ */
+const versionedKey = (key: string) => `v${CACHE_KEY_VERSION}:${key}`;
+
 /**
  * Estimate the size of an object in bytes
  */
@@ -54,6 +64,8 @@ function enforceSizeLimit(newItemSize: number): void {
  * Set a value in the cache with optional TTL
  */
 export async function set<T>(key: string, value: T, ttl = DEFAULT_CACHE_TTL): Promise<void> {
+  const storedKey = versionedKey(key);
+  
   try {
     const expiry = ttl > 0 ? Date.now() + (ttl * 1000) : Infinity;
     
@@ -62,7 +74,7 @@ export async function set<T>(key: string, value: T, ttl = DEFAULT_CACHE_TTL): Pr
       try {
         // Dynamically import the server-side Redis implementation
         const redisCacheModule = await import('./redisCache.server');
-        const redisResult = await redisCacheModule.setRedisCache(key, value, ttl);
+        const redisResult = await redisCacheModule.setRedisCache(storedKey, value, ttl);
         
         if (redisResult) {
           // Successfully stored in Redis
@@ -70,7 +82,7 @@ export async function set<T>(key: string, value: T, ttl = DEFAULT_CACHE_TTL): Pr
         }
       } catch (redisError) {
         // Redis failed, fall back to memory cache
-        console.error(`Redis error when setting ${key}:`, redisError);
+        console.error(`Redis error when setting ${storedKey}:`, redisError);
       }
     }
     
@@ -78,12 +90,12 @@ export async function set<T>(key: string, value: T, ttl = DEFAULT_CACHE_TTL): Pr
     const itemSize = estimateSize({ value, expiry });
     enforceSizeLimit(itemSize);
     
-    memoryCache[key] = { value, expiry };
+    memoryCache[storedKey] = { value, expiry };
     memoryCacheSize += itemSize;
     
-    console.log(`Memory cache set: ${key} (expires in ${ttl}s, size: ${itemSize} bytes)`);
+    console.log(`Memory cache set: ${storedKey} (expires in ${ttl}s, size: ${itemSize} bytes)`);
   } catch (error) {
-    console.error(`Error setting cache for key ${key}:`, error);
+    console.error(`Error setting cache for key ${storedKey}:`, error);
   }
 }
 
@@ -91,13 +103,15 @@ export async function set<T>(key: string, value: T, ttl = DEFAULT_CACHE_TTL): Pr
  * Get a value from the cache
  */
 export async function get<T>(key: string): Promise<T | null> {
+  const storedKey = versionedKey(key);
+  
   try {
     // Try Redis first if we're on the server
     if (isServer) {
       try {
         // Dynamically import the server-side Redis implementation
         const redisCacheModule = await import('./redisCache.server');
-        const redisValue = await redisCacheModule.getRedisCache<T>(key);
+        const redisValue = await redisCacheModule.getRedisCache<T>(storedKey);
         
         if (redisValue !== null) {
           // Successfully retrieved from Redis
@@ -105,32 +119,32 @@ export async function get<T>(key: string): Promise<T | null> {
         }
       } catch (redisError) {
         // Redis failed, fall back to memory cache
-        console.error(`Redis error when getting ${key}:`, redisError);
+        console.error(`Redis error when getting ${storedKey}:`, redisError);
       }
     }
     
     // Fallback to memory cache
-    const cached = memoryCache[key];
+    const cached = memoryCache[storedKey];
     
     // Check if cache exists and is still valid
     if (!cached) {
-      console.log(`Memory cache miss: ${key}`);
+      console.log(`Memory cache miss: ${storedKey}`);
       return null;
     }
     
     // Check if cache has expired
     if (cached.expiry < Date.now()) {
-      console.log(`Memory cache expired: ${key}`);
+      console.log(`Memory cache expired: ${storedKey}`);
       const itemSize = estimateSize(cached);
-      delete memoryCache[key];
+      delete memoryCache[storedKey];
       memoryCacheSize -= itemSize;
       return null;
     }
     
-    console.log(`Memory cache hit: ${key}`);
+    console.log(`Memory cache hit: ${storedKey}`);
     return cached.value as T;
   } catch (error) {
-    console.error(`Error getting cache for key ${key}:`, error);
+    console.error(`Error getting cache for key ${storedKey}:`, error);
     return null;
   }
 }
@@ -139,27 +153,29 @@ export async function get<T>(key: string): Promise<T | null> {
  * Delete a value from the cache
  */
 export async function del(key: string): Promise<void> {
+  const storedKey = versionedKey(key);
+  
   try {
     // Try Redis first if we're on the server
     if (isServer) {
       try {
         // Dynamically import the server-side Redis implementation
         const redisCacheModule = await import('./redisCache.server');
-        await redisCacheModule.deleteRedisCache(key);
+        await redisCacheModule.deleteRedisCache(storedKey);
       } catch (redisError) {
-        console.error(`Redis error when deleting ${key}:`, redisError);
+        console.error(`Redis error when deleting ${storedKey}:`, redisError);
       }
     }
     
     // Always check memory cache too
-    if (memoryCache[key]) {
-      const itemSize = estimateSize(memoryCache[key]);
-      delete memoryCache[key];
+    if (memoryCache[storedKey]) {
+      const itemSize = estimateSize(memoryCache[storedKey]);
+      delete memoryCache[storedKey];
       memoryCacheSize -= itemSize;
-      console.log(`Memory cache deleted: ${key} (freed ${itemSize} bytes)`);
+      console.log(`Memory cache deleted: ${storedKey} (freed ${itemSize} bytes)`);
     }
   } catch (error) {
-    console.error(`Error deleting cache for key ${key}:`, error);
+    console.error(`Error deleting cache for key ${storedKey}:`, error);
   }
 }
 
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { coalesce } from './coalesce';
+
+describe('coalesce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // An upstream call that takes a second
+  const slowLoad = (value: string) =>
+    vi.fn(() => new Promise<string>(resolve => setTimeout(() => resolve(value), 1000)));
+
+  it('shares one call between concurrent requests for the same key', async () => {
+    const load = slowLoad('bars');
+
+    const requests = [coalesce('prices:AAPL', load), coalesce('prices:AAPL', load), coalesce('prices:AAPL', load)];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(Promise.all(requests)).resolves.toEqual(['bars', 'bars', 'bars']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs requests for different keys separately', async () => {
+    const apple = slowLoad('apple');
+    const microsoft = slowLoad('microsoft');
+
+    const requests = [coalesce('prices:AAPL', apple), coalesce('prices:MSFT', microsoft)];
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(Promise.all(requests)).resolves.toEqual(['apple', 'microsoft']);
+    expect(apple).toHaveBeenCalledTimes(1);
+    expect(microsoft).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls again once the shared call has settled', async () => {
+    const load = slowLoad('bars');
+
+    const first = coalesce('prices:AAPL', load);
+    await vi.advanceTimersByTimeAsync(1000);
+    await first;
+
+    const second = coalesce('prices:AAPL', load);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(second).resolves.toBe('bars');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes a failure to every waiting request and forgets it', async () => {
+    const failing = vi.fn(() => Promise.reject(new Error('upstream down')));
+
+    const requests = [coalesce('prices:AAPL', failing), coalesce('prices:AAPL', failing)];
+
+    await expect(requests[0]).rejects.toThrow('upstream down');
+    await expect(requests[1]).rejects.toThrow('upstream down');
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    const retry = coalesce('prices:AAPL', async () => 'bars');
+    await expect(retry).resolves.toBe('bars');
+  });
+});
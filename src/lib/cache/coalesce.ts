@@ -0,0 +1,26 @@
+/**
+ * In-flight request deduplication
+ *
+ * Concurrent cache misses for the same key share one upstream call instead of
+ * each hitting the provider. Entries only live while the call is running, so
+ * the next miss after it settles fetches again.
+ */
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `load` for a cache key, or join the call already running for that key
+ */
+export function coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+
+  if (pending) {
+    console.log(`Joining in-flight request: ${key}`);
+    return pending as Promise<T>;
+  }
+
+  const request = load().finally(() => inFlight.delete(key));
+  inFlight.set(key, request);
+
+  return request;
+}
@@ -2,8 +2,10 @@
  * Utility functions to prefetch and cache data for featured stocks
  */
 
-import { getEnhancedStockDetails, getEnhancedStockPrices, Stock, StockPrices } from "@/lib/api/stockApi";
+import { getEnhancedStockDetails, getQuotes } from "@/lib/api/stockApi";
 import cacheService from "@/lib/cache/cacheService";
+import { fromCache } from "@/lib/provenance";
+import { Provenance } from "@/types";
 
 // List of featured stock symbols (top US companies)
 export const FEATURED_SYMBOLS = [
@@ -31,40 +33,39 @@ export async function prefetchFeaturedStocks(): Promise<boolean> {
   try {
     console.info("Prefetching featured stocks data");
     
-    const stocksData = await Promise.all(
-      FEATURED_SYMBOLS.map(async (symbol) => {
-        try {
-          // Fetch stock details
-          const details = await getEnhancedStockDetails(symbol);
-          
-          // Fetch daily prices
-          const dailyPrices = await getEnhancedStockPrices(symbol);
-          
-          // Calculate price change and percent change
-          let priceChange = 0;
-          let percentChange = 0;
-          
-          if (dailyPrices && dailyPrices.daily.length >= 2) {
-            const latestPrice = dailyPrices.daily[dailyPrices.daily.length - 1].price;
-            const previousPrice = dailyPrices.daily[0].price;
-            priceChange = latestPrice - previousPrice;
-            percentChange = (priceChange / previousPrice) * 100;
-          }
-          
-          return {
-            symbol,
-            name: details?.name || symbol,
-            price: dailyPrices?.daily[dailyPrices.daily.length - 1]?.price || 0,
-            change: priceChange,
-            percentChange: percentChange,
-            isMockData: false
-          };
-        } catch (error) {
-          console.error(`Error prefetching data for ${symbol}:`, error);
+    // One batch quote call instead of a price history per symbol
+    const [quotesResponse, details] = await Promise.all([
+      getQuotes(FEATURED_SYMBOLS),
+      Promise.all(FEATURED_SYMBOLS.map(symbol =>
+        getEnhancedStockDetails(symbol).catch((error) => {
+          console.error(`Error prefetching details for ${symbol}:`, error);
           return null;
-        }
-      })
-    );
+        })
+      )),
+    ]);
+    
+    if (!quotesResponse.success) {
+      console.warn(`Could not quote featured stocks: ${quotesResponse.error}`);
+    }
+    
+    const quotes = new Map((quotesResponse.data || []).map(quote => [quote.symbol, quote]));
+    
+    const stocksData = FEATURED_SYMBOLS.map((symbol, index) => {
+      const quote = quotes.get(symbol);
+      
+      if (!quote) {
+        return null;
+      }
+      
+      return {
+        symbol,
+        name: details[index]?.name || symbol,
+        price: quote.price,
+        change: quote.change,
+        percentChange: quote.percentChange,
+        provenance: quote.provenance
+      };
+    });
     
     // Filter out null values
     const validStocks = stocksData.filter(stock => stock !== null);
@@ -97,7 +98,11 @@ export async function getCachedFeaturedStocks(): Promise<Array<any> | null> {
       return null;
     }
     
-    return JSON.parse(cachedData);
+    // Served from the cache, so live quotes are now cached ones
+    return JSON.parse(cachedData).map((stock: { provenance?: Provenance }) => ({
+      ...stock,
+      provenance: stock.provenance && fromCache(stock.provenance)
+    }));
   } catch (error) {
     console.error("Error retrieving cached featured stocks:", error);
     return null;
@@ -0,0 +1,76 @@
+/**
+ * Helpers for comparing the relative performance of several symbols
+ */
+
+import { parseSymbolList } from '@/lib/utils/symbols';
+import { StockPrice } from '@/types';
+
+// Most symbols plotted at once, not counting the benchmark
+export const MAX_COMPARE_SYMBOLS = 6;
+
+export const BENCHMARK_OPTIONS = [
+  { symbol: 'SPY', label: 'S&P 500 (SPY)' },
+  { symbol: 'QQQ', label: 'Nasdaq 100 (QQQ)' },
+  { symbol: 'DIA', label: 'Dow Jones (DIA)' },
+];
+
+export const COMPARE_COLORS = ['#3B82F6', '#F59E0B', '#10B981', '#EC4899', '#8B5CF6', '#14B8A6'];
+export const BENCHMARK_COLOR = '#6B7280';
+
+/**
+ * Parse a comma-separated symbol list (e.g. "AAPL,msft, NVDA"), dropping
+ * blanks and duplicates and keeping at most MAX_COMPARE_SYMBOLS
+ */
+export function parseCompareSymbols(param: string | null | undefined): string[] {
+  return parseSymbolList(param, MAX_COMPARE_SYMBOLS);
+}
+
+export interface ComparisonInput {
+  symbol: string;
+  bars: StockPrice[];
+}
+
+export interface ComparisonResult {
+  // One row per bar date (ISO) with each symbol's return so far in percent
+  rows: Array<{ date: string } & Record<string, number | string | null>>;
+  // Return over the whole range per symbol; null when it has no data
+  totalReturns: Record<string, number | null>;
+}
+
+/**
+ * Rebase each series to 0% at its first close and merge them by bar time
+ */
+export function buildComparison(series: ComparisonInput[]): ComparisonResult {
+  const byDate = new Map<string, Record<string, number | null>>();
+  const totalReturns: Record<string, number | null> = {};
+
+  for (const { symbol, bars } of series) {
+    const base = bars[0]?.close;
+    totalReturns[symbol] = null;
+
+    if (!base || base <= 0) {
+      continue;
+    }
+
+    for (const bar of bars) {
+      const date = new Date(bar.timestamp).toISOString();
+      const change = ((bar.close - base) / base) * 100;
+      const values = byDate.get(date) || {};
+      values[symbol] = change;
+      byDate.set(date, values);
+      totalReturns[symbol] = change;
+    }
+  }
+
+  const rows = [...byDate.entries()]
+    .sort(([a], [b]) => new Date(a).getTime() - new Date(b).getTime())
+    .map(([date, values]) => {
+      const row: { date: string } & Record<string, number | string | null> = { date };
+      for (const { symbol } of series) {
+        row[symbol] = values[symbol] ?? null;
+      }
+      return row;
+    });
+
+  return { rows, totalReturns };
+}
@@ -0,0 +1,117 @@
+/**
+ * Dividend history summaries: trailing yield, payout ratio and annual totals
+ */
+
+import { splitFactor } from '@/lib/api/priceAdjustments';
+import { CorporateActions, Dividend } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DividendPayment extends Dividend {
+  // Amount restated in today's shares, so payments before a split compare with later ones
+  adjustedAmount: number;
+}
+
+export interface AnnualDividend {
+  year: number;
+  amount: number; // Split-adjusted total of the payments with an ex-date in the year
+  payments: number;
+  partial: boolean; // The current, unfinished year
+}
+
+export interface DividendSummary {
+  payments: DividendPayment[];   // Newest first
+  annual: AnnualDividend[];      // Oldest first
+  ttmAmount: number;             // Per share, split-adjusted
+  ttmYield: number | null;       // Percent of the latest close
+  payoutRatio: number | null;    // Percent of trailing EPS
+  frequency: number | null;      // Payments per year of the latest dividend
+  consecutiveYears: number;      // Complete years in a row with a payment, up to last year
+  increaseYears: number;         // Of those years, how many paid more than the year before
+}
+
+export const FREQUENCY_LABELS: Record<number, string> = {
+  0: 'One-off',
+  1: 'Annual',
+  2: 'Semi-annual',
+  4: 'Quarterly',
+  12: 'Monthly',
+};
+
+/**
+ * Cash dividends, newest first, with their split-adjusted amounts
+ */
+export function dividendPayments(actions: CorporateActions): DividendPayment[] {
+  return actions.dividends
+    .map(dividend => ({
+      ...dividend,
+      adjustedAmount: dividend.cashAmount * splitFactor(dividend.exDividendDate, actions.splits),
+    }))
+    .sort((a, b) => b.exDividendDate.localeCompare(a.exDividendDate));
+}
+
+/**
+ * Totals per calendar year of the ex-dates, oldest first, with empty years
+ * between the first and the current one included
+ */
+export function annualDividends(payments: DividendPayment[], now: Date = new Date()): AnnualDividend[] {
+  if (payments.length === 0) return [];
+
+  const currentYear = now.getUTCFullYear();
+  const firstYear = Math.min(...payments.map(payment => parseInt(payment.exDividendDate.slice(0, 4), 10)));
+  const years: AnnualDividend[] = [];
+
+  for (let year = firstYear; year <= currentYear; year++) {
+    const inYear = payments.filter(payment => payment.exDividendDate.startsWith(`${year}-`));
+    years.push({
+      year,
+      amount: inYear.reduce((total, payment) => total + payment.adjustedAmount, 0),
+      payments: inYear.length,
+      partial: year === currentYear,
+    });
+  }
+
+  return years;
+}
+
+/**
+ * Summarize a symbol's dividends against its latest close and trailing EPS
+ */
+export function summarizeDividends(
+  actions: CorporateActions,
+  price: number | null,
+  ttmEps: number | null,
+  now: Date = new Date()
+): DividendSummary {
+  const payments = dividendPayments(actions);
+  const annual = annualDividends(payments, now);
+
+  const yearAgo = new Date(now.getTime() - 365 * DAY_MS).toISOString().split('T')[0];
+  const today = now.toISOString().split('T')[0];
+  const ttmAmount = payments
+    .filter(payment => payment.exDividendDate > yearAgo && payment.exDividendDate <= today)
+    .reduce((total, payment) => total + payment.adjustedAmount, 0);
+
+  // Walk back from last year while every year paid something
+  const complete = annual.filter(year => !year.partial);
+  let consecutiveYears = 0;
+  let increaseYears = 0;
+
+  for (let index = complete.length - 1; index >= 0 && complete[index].payments > 0; index--) {
+    consecutiveYears++;
+    if (index > 0 && complete[index].amount > complete[index - 1].amount && complete[index - 1].payments > 0) {
+      increaseYears++;
+    }
+  }
+
+  return {
+    payments,
+    annual,
+    ttmAmount,
+    ttmYield: price && price > 0 && payments.length > 0 ? (ttmAmount / price) * 100 : null,
+    payoutRatio: ttmEps && ttmEps > 0 && payments.length > 0 ? (ttmAmount / ttmEps) * 100 : null,
+    frequency: payments[0]?.frequency ?? null,
+    consecutiveYears,
+    increaseYears,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Earnings history summaries: surprises against estimates, the price move
+ * after each report, and the weeks the earnings calendar is paged by
+ */
+
+import { EarningsReport, EarningsTiming, StockPrice } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EarningsResult extends EarningsReport {
+  epsSurprise: number | null;     // Percent above (or below) the estimate
+  revenueSurprise: number | null; // Percent above (or below) the estimate
+  move: number | null;            // Percent change of the close across the report
+}
+
+export interface EarningsSummary {
+  next: EarningsReport | null;  // Earliest scheduled report from today on
+  results: EarningsResult[];    // Reported quarters, newest first
+  epsBeats: number;             // Of the results with an estimate, how many beat it
+  epsCompared: number;          // Results with both an EPS estimate and actual
+  averageMove: number | null;   // Mean absolute move after a report, in percent
+}
+
+export const TIMING_LABELS: Record<EarningsTiming, string> = {
+  bmo: 'Before open',
+  amc: 'After close',
+  dmh: 'During market',
+};
+
+const formatDay = (date: Date) => date.toISOString().split('T')[0];
+
+const dayOf = (timestamp: number) => formatDay(new Date(timestamp));
+
+/**
+ * How far an actual figure beat (positive) or missed its estimate, as a
+ * percentage of the estimate's size
+ */
+export function surprisePercent(actual: number | null, estimate: number | null): number | null {
+  if (actual === null || estimate === null || estimate === 0) return null;
+  return ((actual - estimate) / Math.abs(estimate)) * 100;
+}
+
+/**
+ * Percent change from the last close before the market could react to a
+ * report to the first close after it. A report before the open is priced in
+ * by the report day's close; one after the close by the next day's. Without a
+ * known timing the move spans the day before to the day after.
+ */
+export function earningsMove(report: EarningsReport, bars: StockPrice[]): number | null {
+  const days = bars.map(bar => dayOf(bar.timestamp));
+  const index = days.findIndex(day => day >= report.reportDate);
+
+  if (index === -1) return null;
+
+  const onReportDay = days[index] === report.reportDate;
+  let before: number;
+  let after: number;
+
+  if (report.timing === 'bmo' || report.timing === 'dmh') {
+    before = index - 1;
+    after = index;
+  } else if (report.timing === 'amc') {
+    if (!onReportDay) return null;
+    before = index;
+    after = index + 1;
+  } else {
+    before = index - 1;
+    after = onReportDay ? index + 1 : index;
+  }
+
+  if (before < 0 || after >= bars.length || bars[before].close <= 0) return null;
+
+  return ((bars[after].close - bars[before].close) / bars[before].close) * 100;
+}
+
+/**
+ * Summarize a symbol's earnings reports, measuring moves against daily bars
+ */
+export function summarizeEarnings(
+  reports: EarningsReport[],
+  dailyBars: StockPrice[],
+  now: Date = new Date()
+): EarningsSummary {
+  const today = formatDay(now);
+
+  const next = reports
+    .filter(report => report.reportDate >= today && report.epsActual === null)
+    .sort((a, b) => a.reportDate.localeCompare(b.reportDate))[0] || null;
+
+  const results: EarningsResult[] = reports
+    .filter(report => report.reportDate <= today && (report.epsActual !== null || report.revenueActual !== null))
+    .map(report => ({
+      ...report,
+      epsSurprise: surprisePercent(report.epsActual, report.epsEstimate),
+      revenueSurprise: surprisePercent(report.revenueActual, report.revenueEstimate),
+      move: earningsMove(report, dailyBars),
+    }))
+    .sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+
+  const compared = results.filter(result => result.epsSurprise !== null);
+  const moves = results.map(result => result.move).filter((move): move is number => move !== null);
+
+  return {
+    next,
+    results,
+    epsBeats: compared.filter(result => result.epsSurprise! > 0).length,
+    epsCompared: compared.length,
+    averageMove: moves.length > 0 ? moves.reduce((total, move) => total + Math.abs(move), 0) / moves.length : null,
+  };
+}
+
+/**
+ * Monday of the week containing a date (YYYY-MM-DD)
+ */
+export function weekStart(date: Date = new Date()): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return formatDay(new Date(date.getTime() - daysSinceMonday * DAY_MS));
+}
+
+/**
+ * The seven dates (YYYY-MM-DD) of the week starting on a Monday, shifted by
+ * a number of weeks
+ */
+export function weekDays(monday: string, offsetWeeks = 0): string[] {
+  const start = new Date(`${monday}T00:00:00Z`).getTime() + offsetWeeks * 7 * DAY_MS;
+  return Array.from({ length: 7 }, (_, day) => formatDay(new Date(start + day * DAY_MS)));
+}
@@ -0,0 +1,27 @@
+import { StockPrice } from '@/types';
+
+/**
+ * Heikin-Ashi candles: each close is the bar's OHLC average and each open is
+ * the midpoint of the previous Heikin-Ashi candle's body, which smooths out
+ * noise so trends read more clearly. Volume and timestamps are unchanged.
+ */
+export function heikinAshi(prices: StockPrice[]): StockPrice[] {
+  const result: StockPrice[] = [];
+
+  for (const price of prices) {
+    const previous = result[result.length - 1];
+    const close = (price.open + price.high + price.low + price.close) / 4;
+    const open = previous ? (previous.open + previous.close) / 2 : (price.open + price.close) / 2;
+
+    result.push({
+      timestamp: price.timestamp,
+      open,
+      high: Math.max(price.high, open, close),
+      low: Math.min(price.low, open, close),
+      close,
+      volume: price.volume,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,15 @@
+/**
+ * Technical indicators over StockPrice series (oldest bar first)
+ *
+ * Every series indicator returns one value per input bar, with null where
+ * the indicator is still warming up, so results can be zipped straight onto
+ * the price data for charting.
+ */
+
+export * from './types';
+export { sma, ema } from './movingAverages';
+export { rsi, macd } from './momentum';
+export { bollingerBands, trueRange, atr } from './volatility';
+export { vwap, obv } from './volume';
+export { fiftyTwoWeekRange } from './range';
+export { heikinAshi } from './candles';
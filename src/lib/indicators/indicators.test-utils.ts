@@ -0,0 +1,88 @@
+/**
+ * Reference series and helpers shared by the indicator tests
+ *
+ * The price data comes from the worked examples in StockCharts' ChartSchool
+ * articles, which are the usual published reference for these indicators.
+ */
+
+import { expect } from 'vitest';
+import { StockPrice } from '@/types';
+import { IndicatorSeries } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// ChartSchool "Moving Averages" example, 10-day SMA and EMA
+export const MOVING_AVERAGE_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+  23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+
+// ChartSchool "Relative Strength Index" example, 14-day RSI
+export const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+  46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+
+// ChartSchool "Bollinger Bands" example, 20-day bands at 2 deviations
+export const BOLLINGER_CLOSES = [
+  86.16, 89.09, 88.78, 90.32, 89.07, 91.15, 89.44, 89.18, 86.93, 87.68,
+  86.96, 89.43, 89.32, 88.72, 87.45, 87.26, 89.50, 87.90, 89.13, 90.70,
+  92.90, 92.98, 91.80, 92.66, 92.68, 92.30, 92.77, 92.54, 92.95, 93.20,
+  91.07, 89.83, 89.74, 90.40, 90.74, 88.02, 88.09, 88.84, 90.78, 90.54,
+  91.39, 90.65,
+];
+
+// ChartSchool "Average True Range" example: high, low, close
+export const ATR_BARS: [number, number, number][] = [
+  [48.70, 47.79, 48.16], [48.72, 48.14, 48.61], [48.90, 48.39, 48.75], [48.87, 48.37, 48.63],
+  [48.82, 48.24, 48.74], [49.05, 48.64, 49.03], [49.20, 48.94, 49.07], [49.35, 48.86, 49.32],
+  [49.92, 49.50, 49.91], [50.19, 49.87, 50.13], [50.12, 49.20, 49.53], [49.66, 48.90, 49.50],
+  [49.88, 49.43, 49.75], [50.19, 49.73, 50.03], [50.36, 49.26, 50.31], [50.57, 50.09, 50.52],
+  [50.65, 50.30, 50.41], [50.43, 49.21, 49.34], [49.63, 48.98, 49.37], [50.33, 49.61, 50.23],
+  [50.29, 49.20, 49.24], [50.17, 49.43, 49.93], [49.32, 48.08, 48.43], [48.50, 47.64, 48.18],
+  [48.32, 41.55, 46.57], [46.80, 44.28, 45.41], [47.80, 47.31, 47.77], [48.39, 47.20, 47.72],
+  [48.66, 47.90, 48.62], [48.79, 47.73, 47.85],
+];
+
+/**
+ * Daily bars, one per day from 2024-01-01
+ */
+export function dailyBars(rows: { high: number; low: number; close: number; volume?: number }[]): StockPrice[] {
+  return rows.map((row, i) => ({
+    timestamp: START + i * DAY_MS,
+    open: row.close,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume ?? 1000,
+  }));
+}
+
+/**
+ * Daily bars whose high, low and close are all the given close
+ */
+export function barsFromCloses(closes: number[]): StockPrice[] {
+  return dailyBars(closes.map(close => ({ high: close, low: close, close })));
+}
+
+/**
+ * Check an indicator series against reference values given from its first
+ * non-null index, rounded to the given number of decimals
+ */
+export function expectSeries(actual: IndicatorSeries, firstIndex: number, expected: number[], digits = 2): void {
+  // Half a unit in the last place, inclusive, since the tables round half up
+  const tolerance = 0.5 * 10 ** -digits + 1e-9;
+
+  expect(actual).toHaveLength(firstIndex + expected.length);
+  expect(actual.slice(0, firstIndex).every(value => value === null)).toBe(true);
+
+  expected.forEach((value, i) => {
+    const index = firstIndex + i;
+    expect(actual[index], `index ${index}`).not.toBeNull();
+    expect(Math.abs((actual[index] as number) - value), `index ${index}`).toBeLessThanOrEqual(tolerance);
+  });
+}
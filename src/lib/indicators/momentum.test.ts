@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { macd, rsi } from './momentum';
+import { BOLLINGER_CLOSES, RSI_CLOSES, barsFromCloses, expectSeries } from './indicators.test-utils';
+
+describe('rsi', () => {
+  // ChartSchool rounds the average gain and loss at every step, so its table
+  // reads a few hundredths higher (70.53 for the first value); these are the
+  // same Wilder averages carried at full precision.
+  it('matches the ChartSchool 14-day example after the Wilder warm-up', () => {
+    expectSeries(rsi(barsFromCloses(RSI_CLOSES)), 14, [
+      70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34,
+      54.67, 50.39, 40.02, 41.49, 41.90, 45.50, 37.32, 33.09, 37.79,
+    ]);
+  });
+
+  it('is 100 when prices only rise', () => {
+    const values = rsi(barsFromCloses([1, 2, 3, 4, 5]), 3);
+    expect(values).toEqual([null, null, null, 100, 100]);
+  });
+});
+
+describe('macd', () => {
+  // No ChartSchool table covers 12/26/9 on a series this short, so these come
+  // from an independent implementation: MACD.calculate in the technicalindicators
+  // npm package (3.1.0) on the Bollinger example closes, with EMA oscillator and
+  // signal averages (SimpleMAOscillator and SimpleMASignal both false).
+  it('starts the MACD line at the slow period and the signal line signalPeriod - 1 bars later', () => {
+    const { macd: line, signal, histogram } = macd(barsFromCloses(BOLLINGER_CLOSES));
+
+    expectSeries(line, 25, [
+      1.5849, 1.5943, 1.5651, 1.5572, 1.5531, 1.3623, 1.0984, 0.8719, 0.7372,
+      0.6504, 0.3579, 0.1303, 0.0104, 0.0710, 0.0986, 0.1868, 0.1948,
+    ], 4);
+    expectSeries(signal, 33, [1.3249, 1.1900, 1.0236, 0.8450, 0.6780, 0.5566, 0.4650, 0.4094, 0.3665], 4);
+    expectSeries(histogram, 33, [-0.5877, -0.5397, -0.6657, -0.7146, -0.6677, -0.4856, -0.3665, -0.2225, -0.1716], 4);
+  });
+
+  it('rejects a fast period that is not shorter than the slow period', () => {
+    expect(() => macd(barsFromCloses(BOLLINGER_CLOSES), 26, 12)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,84 @@
+import { StockPrice } from '@/types';
+import { ema } from './movingAverages';
+import { IndicatorSeries, MacdResult } from './types';
+import { assertPeriod, closes, emptySeries } from './utils';
+
+/**
+ * Relative Strength Index with Wilder's smoothing. The first value is at
+ * index period, since it needs period price changes.
+ */
+export function rsi(prices: StockPrice[], period = 14): IndicatorSeries {
+  assertPeriod(period);
+  const values = closes(prices);
+  const result = emptySeries(values.length);
+
+  if (values.length <= period) {
+    return result;
+  }
+
+  const toRsi = (gain: number, loss: number) => {
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  };
+
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain += Math.max(change, 0);
+    averageLoss += Math.max(-change, 0);
+  }
+
+  averageGain /= period;
+  averageLoss /= period;
+  result[period] = toRsi(averageGain, averageLoss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi(averageGain, averageLoss);
+  }
+
+  return result;
+}
+
+/**
+ * Moving Average Convergence Divergence: fast EMA minus slow EMA of closes,
+ * with an EMA signal line over the MACD line. The MACD line starts at index
+ * slowPeriod - 1 and the signal line signalPeriod - 1 bars later.
+ */
+export function macd(
+  prices: StockPrice[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): MacdResult {
+  assertPeriod(fastPeriod, 'fastPeriod');
+  assertPeriod(slowPeriod, 'slowPeriod');
+  assertPeriod(signalPeriod, 'signalPeriod');
+
+  if (fastPeriod >= slowPeriod) {
+    throw new RangeError('MACD fastPeriod must be shorter than slowPeriod');
+  }
+
+  const values = closes(prices);
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+
+  const macdLine: IndicatorSeries = values.map((_, i) => {
+    const fastValue = fast[i];
+    const slowValue = slow[i];
+    return fastValue !== null && slowValue !== null ? fastValue - slowValue : null;
+  });
+
+  const signal = ema(macdLine, signalPeriod);
+
+  const histogram: IndicatorSeries = macdLine.map((value, i) => {
+    const signalValue = signal[i];
+    return value !== null && signalValue !== null ? value - signalValue : null;
+  });
+
+  return { macd: macdLine, signal, histogram };
+}
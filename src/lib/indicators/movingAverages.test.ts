@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ema, sma } from './movingAverages';
+import { MOVING_AVERAGE_CLOSES, expectSeries } from './indicators.test-utils';
+
+describe('sma', () => {
+  it('matches the ChartSchool 10-day example', () => {
+    expectSeries(sma(MOVING_AVERAGE_CLOSES, 10), 9, [
+      22.22, 22.21, 22.23, 22.26, 22.30, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21,
+      23.38, 23.52, 23.65, 23.71, 23.68, 23.61, 23.51, 23.43, 23.28, 23.13,
+    ]);
+  });
+
+  it('yields null for windows containing a null', () => {
+    expect(sma([1, null, 3, 4, 5], 2)).toEqual([null, null, null, 3.5, 4.5]);
+  });
+});
+
+describe('ema', () => {
+  it('matches the ChartSchool 10-day example, seeded with the 10-day SMA', () => {
+    expectSeries(ema(MOVING_AVERAGE_CLOSES, 10), 9, [
+      22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34,
+      23.43, 23.51, 23.53, 23.47, 23.40, 23.39, 23.26, 23.23, 23.08, 22.92,
+    ]);
+  });
+
+  it('skips leading nulls before seeding', () => {
+    expect(ema([null, null, 2, 4, 6], 2)).toEqual([null, null, null, 3, 5]);
+  });
+
+  it('rejects a non-positive period', () => {
+    expect(() => ema([1, 2, 3], 0)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,72 @@
+import { IndicatorSeries } from './types';
+import { assertPeriod, emptySeries } from './utils';
+
+/**
+ * Simple moving average; the first value is at index period - 1.
+ * Windows containing a null yield null.
+ */
+export function sma(values: (number | null)[], period: number): IndicatorSeries {
+  assertPeriod(period);
+  const result = emptySeries(values.length);
+  let sum = 0;
+  let nulls = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) nulls++;
+    else sum += value;
+
+    if (i >= period) {
+      const dropped = values[i - period];
+      if (dropped === null) nulls--;
+      else sum -= dropped;
+    }
+
+    if (i >= period - 1 && nulls === 0) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average with smoothing 2 / (period + 1), seeded with
+ * the simple average of the first period values. Leading nulls (e.g. another
+ * indicator's warm-up) are skipped before seeding.
+ */
+export function ema(values: (number | null)[], period: number): IndicatorSeries {
+  assertPeriod(period);
+  const result = emptySeries(values.length);
+  const alpha = 2 / (period + 1);
+
+  const start = values.findIndex(value => value !== null);
+  if (start === -1 || start + period > values.length) {
+    return result;
+  }
+
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    const value = values[i];
+    if (value === null) {
+      // A gap before the seed is complete leaves the series empty
+      return result;
+    }
+    seed += value;
+  }
+
+  let previous = seed / period;
+  result[start + period - 1] = previous;
+
+  for (let i = start + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      // Carry the average through missing values rather than restarting
+      continue;
+    }
+    previous = value * alpha + previous * (1 - alpha);
+    result[i] = previous;
+  }
+
+  return result;
+}
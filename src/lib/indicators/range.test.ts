@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { fiftyTwoWeekRange } from './range';
+import { dailyBars } from './indicators.test-utils';
+
+describe('fiftyTwoWeekRange', () => {
+  // 400 daily bars drifting up from 100, with one spike and one dip
+  const bars = dailyBars(
+    Array.from({ length: 400 }, (_, i) => {
+      const close = 100 + i * 0.1;
+      return { high: close + 1, low: close - 1, close };
+    })
+  );
+  bars[10] = { ...bars[10], high: 500 };  // Older than a year: ignored
+  bars[120] = { ...bars[120], low: 50 };
+  bars[300] = { ...bars[300], high: 200 };
+
+  it('takes the highest high and lowest low of the last 365 days', () => {
+    expect(fiftyTwoWeekRange(bars)).toEqual({
+      high: 200,
+      highTimestamp: bars[300].timestamp,
+      low: 50,
+      lowTimestamp: bars[120].timestamp,
+    });
+  });
+
+  it('excludes the bar exactly a year before the last one', () => {
+    const year = bars.slice(0, 366);
+    year[0] = { ...year[0], low: 10 };
+
+    // Bar 0 is exactly 365 days before bar 365
+    expect(fiftyTwoWeekRange(year)?.low).toBe(50);
+  });
+
+  it('is null for an empty series', () => {
+    expect(fiftyTwoWeekRange([])).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { StockPrice } from '@/types';
+import { PriceRange } from './types';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Highest high and lowest low over the year ending at the last bar.
+ * Returns null for an empty series.
+ */
+export function fiftyTwoWeekRange(prices: StockPrice[]): PriceRange | null {
+  if (prices.length === 0) {
+    return null;
+  }
+
+  const end = prices[prices.length - 1].timestamp;
+  let range: PriceRange | null = null;
+
+  for (const price of prices) {
+    if (price.timestamp <= end - YEAR_MS) continue;
+
+    if (!range) {
+      range = { high: price.high, highTimestamp: price.timestamp, low: price.low, lowTimestamp: price.timestamp };
+      continue;
+    }
+
+    if (price.high > range.high) {
+      range.high = price.high;
+      range.highTimestamp = price.timestamp;
+    }
+    if (price.low < range.low) {
+      range.low = price.low;
+      range.lowTimestamp = price.timestamp;
+    }
+  }
+
+  return range;
+}
@@ -0,0 +1,24 @@
+/**
+ * One value per input bar; null where the indicator is still warming up
+ * or cannot be computed
+ */
+export type IndicatorSeries = (number | null)[];
+
+export interface MacdResult {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export interface BollingerBandsResult {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface PriceRange {
+  high: number;
+  highTimestamp: number;
+  low: number;
+  lowTimestamp: number;
+}
@@ -0,0 +1,15 @@
+import { StockPrice } from '@/types';
+import { IndicatorSeries } from './types';
+
+/**
+ * Reject periods that are not positive integers
+ */
+export function assertPeriod(period: number, name = 'period'): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`Indicator ${name} must be a positive integer, got ${period}`);
+  }
+}
+
+export const closes = (prices: StockPrice[]): number[] => prices.map(price => price.close);
+
+export const emptySeries = (length: number): IndicatorSeries => new Array(length).fill(null);
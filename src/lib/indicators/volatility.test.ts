@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { atr, bollingerBands, trueRange } from './volatility';
+import { ATR_BARS, BOLLINGER_CLOSES, barsFromCloses, dailyBars, expectSeries } from './indicators.test-utils';
+
+const atrBars = dailyBars(ATR_BARS.map(([high, low, close]) => ({ high, low, close })));
+
+describe('bollingerBands', () => {
+  it('matches the ChartSchool 20-day example', () => {
+    const { upper, middle, lower } = bollingerBands(barsFromCloses(BOLLINGER_CLOSES));
+
+    expectSeries(middle, 19, [
+      88.71, 89.05, 89.24, 89.39, 89.51, 89.69, 89.75, 89.91, 90.08, 90.38, 90.66, 90.86,
+      90.88, 90.90, 90.99, 91.15, 91.19, 91.12, 91.17, 91.25, 91.24, 91.17, 91.05,
+    ]);
+    expectSeries(upper, 19, [
+      91.29, 91.95, 92.61, 92.93, 93.31, 93.73, 93.90, 94.26, 94.56, 94.79, 95.04, 94.91,
+      94.90, 94.89, 94.86, 94.67, 94.55, 94.68, 94.57, 94.53, 94.53, 94.37, 94.15,
+    ]);
+    expectSeries(lower, 19, [
+      86.13, 86.14, 85.87, 85.85, 85.70, 85.65, 85.59, 85.56, 85.60, 85.98, 86.27, 86.82,
+      86.86, 86.91, 87.12, 87.63, 87.83, 87.56, 87.76, 87.97, 87.95, 87.96, 87.95,
+    ]);
+  });
+});
+
+describe('trueRange', () => {
+  it('takes the widest of the bar range and the gaps from the previous close', () => {
+    const ranges = trueRange(atrBars);
+
+    expect(ranges[0]).toBeNull();
+    expect(ranges[1]).toBeCloseTo(0.58, 2);  // Bar range
+    expect(ranges[24]).toBeCloseTo(6.77, 2); // Bar range, wider than the gap
+    expect(ranges[26]).toBeCloseTo(2.39, 2); // Gap up from the previous close
+  });
+});
+
+describe('atr', () => {
+  // ChartSchool seeds with the first bar's high - low; here the first true
+  // range needs a previous close, so the seed averages bars 1-14 and the
+  // first values sit a few hundredths below ChartSchool's until it decays.
+  it('matches Wilder smoothing over the ChartSchool 14-day example', () => {
+    expectSeries(atr(atrBars), 14, [
+      0.57, 0.56, 0.55, 0.59, 0.60, 0.62, 0.66, 0.68, 0.76, 0.77, 1.20, 1.29, 1.37, 1.36, 1.33, 1.31,
+    ]);
+  });
+
+  it('is all null when there are not enough bars', () => {
+    expect(atr(atrBars.slice(0, 14))).toEqual(new Array(14).fill(null));
+  });
+});
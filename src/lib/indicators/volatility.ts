@@ -0,0 +1,75 @@
+import { StockPrice } from '@/types';
+import { sma } from './movingAverages';
+import { BollingerBandsResult, IndicatorSeries } from './types';
+import { assertPeriod, closes, emptySeries } from './utils';
+
+/**
+ * Bollinger Bands: a simple moving average of closes plus and minus a number
+ * of population standard deviations over the same window
+ */
+export function bollingerBands(prices: StockPrice[], period = 20, deviations = 2): BollingerBandsResult {
+  assertPeriod(period);
+  const values = closes(prices);
+  const middle = sma(values, period);
+  const upper = emptySeries(values.length);
+  const lower = emptySeries(values.length);
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+
+    let squares = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      squares += (values[j] - mean) ** 2;
+    }
+
+    const deviation = Math.sqrt(squares / period) * deviations;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  }
+
+  return { upper, middle, lower };
+}
+
+/**
+ * True range of each bar; the first bar has no previous close, so it is null
+ */
+export function trueRange(prices: StockPrice[]): IndicatorSeries {
+  return prices.map((price, i) => {
+    if (i === 0) return null;
+    const previousClose = prices[i - 1].close;
+    return Math.max(
+      price.high - price.low,
+      Math.abs(price.high - previousClose),
+      Math.abs(price.low - previousClose)
+    );
+  });
+}
+
+/**
+ * Average True Range with Wilder's smoothing. The first value is at index
+ * period: the mean of the first period true ranges.
+ */
+export function atr(prices: StockPrice[], period = 14): IndicatorSeries {
+  assertPeriod(period);
+  const ranges = trueRange(prices);
+  const result = emptySeries(prices.length);
+
+  if (prices.length <= period) {
+    return result;
+  }
+
+  let average = 0;
+  for (let i = 1; i <= period; i++) {
+    average += ranges[i] as number;
+  }
+  average /= period;
+  result[period] = average;
+
+  for (let i = period + 1; i < prices.length; i++) {
+    average = (average * (period - 1) + (ranges[i] as number)) / period;
+    result[i] = average;
+  }
+
+  return result;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { StockPrice } from '@/types';
+import { obv, vwap } from './volume';
+import { dailyBars } from './indicators.test-utils';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('vwap', () => {
+  const bars = dailyBars([
+    { high: 12, low: 8, close: 10, volume: 100 },  // Typical price 10
+    { high: 13, low: 9, close: 11, volume: 300 },  // Typical price 11
+    { high: 14, low: 11, close: 14, volume: 100 }, // Typical price 13
+  ]);
+
+  it('accumulates the volume-weighted typical price from the first bar', () => {
+    expectValues(vwap(bars), [10, 10.75, 11.2]);
+  });
+
+  it('restarts at each UTC day with resetDaily', () => {
+    const intraday: StockPrice[] = [
+      { ...bars[0], timestamp: bars[0].timestamp + 14 * HOUR_MS },
+      { ...bars[1], timestamp: bars[0].timestamp + 15 * HOUR_MS },
+      { ...bars[2], timestamp: bars[1].timestamp + 14 * HOUR_MS },
+    ];
+
+    expectValues(vwap(intraday, { resetDaily: true }), [10, 10.75, 13]);
+  });
+
+  it('is null until there is volume', () => {
+    const [first, second] = bars;
+    expect(vwap([{ ...first, volume: 0 }, second])).toEqual([null, 11]);
+  });
+});
+
+describe('obv', () => {
+  it('adds volume on up closes, subtracts it on down closes and holds on unchanged closes', () => {
+    const bars = dailyBars([10, 11, 11, 10.5, 12].map((close, i) => ({ high: close, low: close, close, volume: (i + 1) * 100 })));
+    expect(obv(bars)).toEqual([0, 200, 200, -200, 300]);
+  });
+});
+
+function expectValues(actual: (number | null)[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, i) => expect(actual[i]).toBeCloseTo(value, 10));
+}
@@ -0,0 +1,47 @@
+import { StockPrice } from '@/types';
+import { IndicatorSeries } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Volume-weighted average of the typical price (high + low + close) / 3,
+ * accumulated from the first bar. With resetDaily the average restarts at
+ * each UTC day, which is the usual intraday session VWAP.
+ */
+export function vwap(prices: StockPrice[], { resetDaily = false } = {}): IndicatorSeries {
+  let cumulativeValue = 0;
+  let cumulativeVolume = 0;
+  let currentDay: number | null = null;
+
+  return prices.map(price => {
+    const day = Math.floor(price.timestamp / DAY_MS);
+    if (resetDaily && day !== currentDay) {
+      cumulativeValue = 0;
+      cumulativeVolume = 0;
+    }
+    currentDay = day;
+
+    const typicalPrice = (price.high + price.low + price.close) / 3;
+    cumulativeValue += typicalPrice * price.volume;
+    cumulativeVolume += price.volume;
+
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : null;
+  });
+}
+
+/**
+ * On-Balance Volume: running total that adds volume on up closes and
+ * subtracts it on down closes, starting from 0 at the first bar
+ */
+export function obv(prices: StockPrice[]): IndicatorSeries {
+  let total = 0;
+
+  return prices.map((price, i) => {
+    if (i > 0) {
+      const previousClose = prices[i - 1].close;
+      if (price.close > previousClose) total += price.volume;
+      else if (price.close < previousClose) total -= price.volume;
+    }
+    return total;
+  });
+}
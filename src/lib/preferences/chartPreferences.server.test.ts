@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChartPreferences } from './types';
+
+const preferences: ChartPreferences = {
+  range: { range: 'custom', from: '2024-01-01', to: '2024-06-30', interval: '1w' },
+  adjustment: 'total',
+  showEvents: false,
+  chartType: 'candlestick',
+  overlays: ['sma50', 'bollinger'],
+  panes: ['volume', 'rsi'],
+};
+
+let dir: string;
+let store: typeof import('./chartPreferences.server');
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'chart-preferences-'));
+  vi.stubEnv('CHART_PREFERENCES_FILE', path.join(dir, 'preferences.json'));
+  store = await import('./chartPreferences.server');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('chart preferences store', () => {
+  it('has nothing for a user who never saved', async () => {
+    await expect(store.getChartPreferences('nobody')).resolves.toBeNull();
+  });
+
+  it('keeps each user\'s preferences apart', async () => {
+    await store.saveChartPreferences('alice', preferences);
+    await store.saveChartPreferences('bob', { ...preferences, chartType: 'line', overlays: [] });
+
+    await expect(store.getChartPreferences('alice')).resolves.toEqual(preferences);
+    await expect(store.getChartPreferences('bob')).resolves.toMatchObject({ chartType: 'line', overlays: [] });
+  });
+
+  it('drops repeated indicators and fields it does not know', async () => {
+    const saved = await store.saveChartPreferences('carol', {
+      ...preferences,
+      overlays: ['sma50', 'sma50'],
+      extra: 'ignored',
+    } as Partial<Record<keyof ChartPreferences, unknown>>);
+
+    expect(saved.overlays).toEqual(['sma50']);
+    expect(saved).not.toHaveProperty('extra');
+  });
+
+  it.each([
+    ['an unknown chart type', { chartType: 'pie' }],
+    ['an unknown overlay', { overlays: ['sma13'] }],
+    ['an unknown range', { range: { range: '2D' } }],
+    ['a malformed custom date', { range: { range: 'custom', from: 'yesterday' } }],
+    ['a missing adjustment', { adjustment: undefined }],
+  ])('rejects %s', async (_case, change) => {
+    expect(() => store.saveChartPreferences('dave', { ...preferences, ...change })).toThrow(store.ChartPreferencesValidationError);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Server-only persistence for chart preferences
+ *
+ * Preferences are stored per user in a single JSON file
+ * (CHART_PREFERENCES_FILE, default data/chart-preferences.json), keyed by the
+ * id in the user's cookie. Writes are serialized and replace the file
+ * atomically so concurrent requests cannot corrupt it.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { isPriceAdjustment } from '@/lib/api/priceAdjustments';
+import { parseRangeSpec, RangeSpecError } from '@/lib/api/rangeSpec';
+import { RangeSpec } from '@/types';
+import { ChartOverlay, ChartPane, ChartPreferences, ChartType } from './types';
+
+const PREFERENCES_FILE = process.env.CHART_PREFERENCES_FILE || path.join(process.cwd(), 'data', 'chart-preferences.json');
+
+// Every accepted value, typed so a new chart type, overlay or pane must be added here
+const CHART_TYPES: Record<ChartType, true> = { line: true, area: true, candlestick: true, ohlc: true, heikinAshi: true };
+const CHART_OVERLAYS: Record<ChartOverlay, true> = { sma20: true, sma50: true, sma200: true, ema20: true, ema50: true, bollinger: true };
+const CHART_PANES: Record<ChartPane, true> = { volume: true, rsi: true, macd: true };
+
+type StoredPreferences = Record<string, ChartPreferences & { updatedAt: string }>;
+
+/**
+ * Raised when submitted chart preferences fail validation
+ */
+export class ChartPreferencesValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChartPreferencesValidationError';
+  }
+}
+
+// Pending write, so read-modify-write cycles never interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function readPreferences(): Promise<StoredPreferences> {
+  try {
+    return JSON.parse(await fs.readFile(PREFERENCES_FILE, 'utf8')) as StoredPreferences;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writePreferences(preferences: StoredPreferences): Promise<void> {
+  const tempFile = `${PREFERENCES_FILE}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(PREFERENCES_FILE), { recursive: true });
+  await fs.writeFile(tempFile, `${JSON.stringify(preferences, null, 2)}\n`);
+  await fs.rename(tempFile, PREFERENCES_FILE);
+}
+
+const isDay = (value: unknown) => value === undefined || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value));
+
+function validateRange(input: unknown): RangeSpec {
+  const range = (input ?? {}) as Partial<Record<keyof RangeSpec, unknown>>;
+
+  if (typeof range.range !== 'string' || !isDay(range.from) || !isDay(range.to)) {
+    throw new ChartPreferencesValidationError('Range must have a preset or custom YYYY-MM-DD dates');
+  }
+
+  const params = new URLSearchParams({ range: range.range });
+  if (typeof range.from === 'string') params.set('from', range.from);
+  if (typeof range.to === 'string') params.set('to', range.to);
+  if (typeof range.interval === 'string') params.set('interval', range.interval);
+
+  try {
+    return parseRangeSpec(params);
+  } catch (error) {
+    if (error instanceof RangeSpecError) {
+      throw new ChartPreferencesValidationError(`Invalid range: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function validateList<T extends string>(input: unknown, allowed: Record<T, true>, name: string): T[] {
+  if (!Array.isArray(input) || !input.every(item => typeof item === 'string' && item in allowed)) {
+    throw new ChartPreferencesValidationError(`${name} must be a list of ${Object.keys(allowed).join(', ')}`);
+  }
+
+  return [...new Set(input as T[])];
+}
+
+/**
+ * Validate and normalize user input, throwing ChartPreferencesValidationError
+ */
+function validateInput(input: Partial<Record<keyof ChartPreferences, unknown>>): ChartPreferences {
+  if (typeof input.adjustment !== 'string' || !isPriceAdjustment(input.adjustment)) {
+    throw new ChartPreferencesValidationError('Adjustment must be raw, split or total');
+  }
+  if (typeof input.showEvents !== 'boolean') {
+    throw new ChartPreferencesValidationError('showEvents must be true or false');
+  }
+  if (typeof input.chartType !== 'string' || !(input.chartType in CHART_TYPES)) {
+    throw new ChartPreferencesValidationError(`Chart type must be one of ${Object.keys(CHART_TYPES).join(', ')}`);
+  }
+
+  return {
+    range: validateRange(input.range),
+    adjustment: input.adjustment,
+    showEvents: input.showEvents,
+    chartType: input.chartType as ChartType,
+    overlays: validateList(input.overlays, CHART_OVERLAYS, 'Overlays'),
+    panes: validateList(input.panes, CHART_PANES, 'Panes'),
+  };
+}
+
+/**
+ * Get a user's chart preferences, or null if they have not saved any
+ */
+export async function getChartPreferences(userId: string): Promise<ChartPreferences | null> {
+  await writeQueue;
+  const stored = (await readPreferences())[userId];
+
+  if (!stored) {
+    return null;
+  }
+
+  const { range, adjustment, showEvents, chartType, overlays, panes } = stored;
+  return { range, adjustment, showEvents, chartType, overlays, panes };
+}
+
+/**
+ * Replace a user's chart preferences
+ */
+export function saveChartPreferences(
+  userId: string,
+  input: Partial<Record<keyof ChartPreferences, unknown>>
+): Promise<ChartPreferences> {
+  const preferences = validateInput(input);
+
+  const next = writeQueue.then(async () => {
+    const stored = await readPreferences();
+    await writePreferences({ ...stored, [userId]: { ...preferences, updatedAt: new Date().toISOString() } });
+    return preferences;
+  });
+
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
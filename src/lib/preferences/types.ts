@@ -0,0 +1,30 @@
+import { PriceAdjustment, RangeSpec } from '@/types';
+
+export type ChartType = 'line' | 'area' | 'candlestick' | 'ohlc' | 'heikinAshi';
+
+export type ChartOverlay = 'sma20' | 'sma50' | 'sma200' | 'ema20' | 'ema50' | 'bollinger';
+
+export type ChartPane = 'volume' | 'rsi' | 'macd';
+
+/**
+ * A user's chart settings, saved on the server so they follow the user
+ */
+export interface ChartPreferences {
+  // Price history shown: a preset or custom dates, plus the bar interval
+  range: RangeSpec;
+
+  // Raw, split-adjusted or total-return prices
+  adjustment: PriceAdjustment;
+
+  // Whether earnings, split and dividend markers are drawn
+  showEvents: boolean;
+
+  // How the price pane draws each bar
+  chartType: ChartType;
+
+  // Indicators drawn on the price pane
+  overlays: ChartOverlay[];
+
+  // Indicator panes drawn below the price pane, in display order
+  panes: ChartPane[];
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Provenance } from '@/types';
+import { combineProvenance, fromCache } from './provenance';
+
+const live: Provenance = { source: 'live', fetchedAt: 3000 };
+const cachedOld: Provenance = { source: 'cached', fetchedAt: 1000 };
+const cachedNew: Provenance = { source: 'cached', fetchedAt: 2000 };
+const fixture: Provenance = { source: 'fixture', fetchedAt: 4000 };
+const synthetic: Provenance = { source: 'synthetic', fetchedAt: 5000 };
+
+describe('combineProvenance', () => {
+  it('takes the least trustworthy part', () => {
+    expect(combineProvenance([live, cachedNew, fixture])).toBe(fixture);
+    expect(combineProvenance([fixture, synthetic, live])).toBe(synthetic);
+  });
+
+  it('takes the oldest of equally trusted parts', () => {
+    expect(combineProvenance([cachedNew, cachedOld, live])).toBe(cachedOld);
+  });
+
+  it('skips parts without provenance', () => {
+    expect(combineProvenance([undefined, live, undefined])).toBe(live);
+    expect(combineProvenance([undefined])).toBeUndefined();
+    expect(combineProvenance([])).toBeUndefined();
+  });
+});
+
+describe('fromCache', () => {
+  it('marks live data as cached and leaves other sources alone', () => {
+    expect(fromCache(live)).toEqual({ source: 'cached', fetchedAt: 3000 });
+    expect(fromCache(fixture)).toBe(fixture);
+  });
+});
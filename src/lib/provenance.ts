@@ -0,0 +1,56 @@
+/**
+ * Data provenance: where a price or company payload came from, carried from
+ * the provider through the cache to the badges next to the data
+ */
+
+import { DataSource, Provenance } from '@/types';
+import { formatRelativeTime } from '@/lib/utils/formatters';
+
+export const PROVENANCE_LABELS: Record<DataSource, string> = {
+  live: 'Live',
+  cached: 'Cached',
+  fixture: 'Fixture data',
+  synthetic: 'Synthetic data',
+};
+
+/**
+ * Provenance of a payload served again from the cache: live data becomes
+ * cached (keeping when it was fetched), fixture data stays fixture data
+ */
+export function fromCache(provenance: Provenance): Provenance {
+  return provenance.source === 'live' ? { ...provenance, source: 'cached' } : provenance;
+}
+
+// Sources from least to most trustworthy
+const SOURCE_TRUST: DataSource[] = ['synthetic', 'fixture', 'cached', 'live'];
+
+/**
+ * Provenance of a payload assembled from several others: that of the least
+ * trustworthy part, and of the oldest one among equally trusted parts
+ */
+export function combineProvenance(provenances: (Provenance | undefined)[]): Provenance | undefined {
+  return provenances.reduce<Provenance | undefined>((worst, provenance) => {
+    if (!provenance || !worst) return worst ?? provenance;
+
+    const trust = SOURCE_TRUST.indexOf(provenance.source) - SOURCE_TRUST.indexOf(worst.source);
+    return trust < 0 || (trust === 0 && provenance.fetchedAt < worst.fetchedAt) ? provenance : worst;
+  }, undefined);
+}
+
+/**
+ * Whether the payload holds made-up numbers that must not be used for anything
+ */
+export function isSynthetic(provenance: Provenance | undefined): boolean {
+  return provenance?.source === 'synthetic';
+}
+
+/**
+ * Short badge text, with the age of cached data
+ */
+export function describeProvenance(provenance: Provenance, now: Date = new Date()): string {
+  if (provenance.source === 'cached') {
+    return `Cached ${formatRelativeTime(new Date(provenance.fetchedAt), now)}`;
+  }
+
+  return PROVENANCE_LABELS[provenance.source];
+}
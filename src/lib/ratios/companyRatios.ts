@@ -0,0 +1,44 @@
+/**
+ * Fetch the statements and price a company's ratios are computed from
+ */
+
+import { DEFAULT_TIME_RANGE } from '@/lib/api/rangeSpec';
+import { getCompanyDetails, getFinancials, getStockPriceData } from '@/lib/api/stockApi';
+import { isSynthetic } from '@/lib/provenance';
+import { ApiResponse } from '@/types';
+import { computeRatios } from './compute';
+import { CompanyRatios } from './types';
+
+/**
+ * Compute every ratio for a symbol from its financials and latest close, taken
+ * from the default range's bars so a stock page's cached chart data is reused
+ */
+export async function getCompanyRatios(symbol: string): Promise<ApiResponse<CompanyRatios>> {
+  try {
+    const [financialsResponse, pricesResponse, companyResponse] = await Promise.all([
+      getFinancials(symbol),
+      getStockPriceData(symbol, DEFAULT_TIME_RANGE),
+      getCompanyDetails(symbol),
+    ]);
+
+    if (!financialsResponse.success || !financialsResponse.data) {
+      return { success: false, error: financialsResponse.error || 'No financial statements found', code: financialsResponse.code };
+    }
+
+    // Ratios are left without a price rather than computed from generated prices
+    const prices = isSynthetic(pricesResponse.provenance) ? [] : pricesResponse.data || [];
+    const price = prices.length > 0 ? prices[prices.length - 1].close : null;
+
+    const ratios = computeRatios({
+      price,
+      marketCap: isSynthetic(companyResponse.provenance) ? undefined : companyResponse.data?.marketCap,
+      quarterly: financialsResponse.data.quarterly,
+      annual: financialsResponse.data.annual,
+    });
+
+    return { success: true, data: { symbol: symbol.toUpperCase(), price, ratios } };
+  } catch (error) {
+    console.error(`Error computing ratios for ${symbol}:`, error);
+    return { success: false, error: 'Failed to compute ratios' };
+  }
+}
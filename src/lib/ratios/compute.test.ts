@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { computeRatio, percentChange } from './compute';
+import { cagr, getRatioDefinition } from './definitions';
+import { RATIO_INPUT_LABELS } from './inputs';
+import { RatioInputKey, RatioInputs, RatioKey } from './types';
+
+// Every input unknown unless given
+const inputsWith = (values: Partial<RatioInputs>): RatioInputs => ({
+  ...Object.fromEntries(Object.keys(RATIO_INPUT_LABELS).map(key => [key, null])) as RatioInputs,
+  ...values,
+});
+
+const ratio = (key: RatioKey, values: Partial<RatioInputs>) => computeRatio(getRatioDefinition(key)!, inputsWith(values));
+
+// A company trading at 150 with 10 diluted shares, summing its last four quarters:
+// revenue 460, operating income 139, D&A 20, net income 95, EPS 6, dividends 8
+const reference: Partial<Record<RatioInputKey, number>> = {
+  price: 150,
+  marketCap: 1500,
+  ttmRevenue: 460,
+  ttmOperatingIncome: 139,
+  ttmNetIncome: 95,
+  ttmEps: 6,
+  ttmEbitda: 159,
+  ttmDividendsPaid: 8,
+  totalAssets: 1000,
+  currentAssets: 300,
+  currentLiabilities: 200,
+  totalDebt: 250,
+  cashAndEquivalents: 100,
+  equity: 500,
+};
+
+describe('ratio definitions', () => {
+  it.each([
+    ['pe', 25], // 150 / 6
+    ['pb', 3], // 1500 / 500
+    ['evEbitda', 10.377358490566039], // (1500 + 250 - 100) / 159
+    ['roe', 19], // 95 / 500
+    ['roce', 17.375], // 139 / (1000 - 200)
+    ['debtToEquity', 0.5], // 250 / 500
+    ['currentRatio', 1.5], // 300 / 200
+    ['dividendYield', 0.5333333333333333], // 8 / 1500
+    ['operatingMargin', 30.217391304347824], // 139 / 460
+    ['netMargin', 20.652173913043477], // 95 / 460
+    ['eps', 6],
+  ] as [RatioKey, number][])('computes %s for the reference company', (key, expected) => {
+    expect(ratio(key, reference).value).toBeCloseTo(expected, 10);
+  });
+
+  it('leaves P/E unavailable for negative trailing EPS but still reports the EPS', () => {
+    expect(ratio('pe', { price: 150, ttmEps: -2 })).toEqual({ value: null, reason: 'Trailing EPS is negative' });
+    expect(ratio('eps', { ttmEps: -2 })).toEqual({ value: -2 });
+  });
+
+  it('reports a zero denominator instead of dividing by it', () => {
+    expect(ratio('pe', { price: 150, ttmEps: 0 })).toEqual({ value: null, reason: 'Trailing EPS is zero' });
+    expect(ratio('pb', { marketCap: 1500, equity: 0 })).toEqual({ value: null, reason: "Shareholders' equity is zero" });
+    expect(ratio('roe', { ttmNetIncome: 95, equity: 0 })).toEqual({ value: null, reason: "Shareholders' equity is zero" });
+    expect(ratio('currentRatio', { currentAssets: 300, currentLiabilities: 0 })).toEqual({ value: null, reason: 'Current liabilities is zero' });
+    expect(ratio('netMargin', { ttmNetIncome: 95, ttmRevenue: 0 })).toEqual({ value: null, reason: 'Trailing revenue is zero' });
+    expect(ratio('evEbitda', { ...reference, ttmEbitda: 0 })).toEqual({ value: null, reason: 'Trailing EBITDA is zero' });
+  });
+
+  it('reports capital employed that nets to zero or below', () => {
+    expect(ratio('roce', { ttmOperatingIncome: 139, totalAssets: 200, currentLiabilities: 200 }))
+      .toEqual({ value: null, reason: 'Capital employed is zero' });
+    expect(ratio('roce', { ttmOperatingIncome: 139, totalAssets: 150, currentLiabilities: 200 }))
+      .toEqual({ value: null, reason: 'Capital employed is negative' });
+  });
+
+  it('keeps a negative numerator, such as a loss over positive equity', () => {
+    expect(ratio('roe', { ttmNetIncome: -50, equity: 500 }).value).toBe(-10);
+  });
+
+  it('names every missing input', () => {
+    expect(ratio('pe', { ttmEps: 6 })).toEqual({ value: null, reason: 'Missing current price' });
+    expect(ratio('evEbitda', { marketCap: 1500, totalDebt: 250 })).toEqual({
+      value: null,
+      reason: 'Missing cash and equivalents, trailing EBITDA',
+    });
+  });
+
+  it('treats a non-finite input as missing', () => {
+    expect(ratio('pe', { price: Number.NaN, ttmEps: 6 })).toEqual({ value: null, reason: 'Missing current price' });
+  });
+
+  it('compounds growth over the period', () => {
+    expect(ratio('salesGrowth3Y', { annualRevenue: 133.1, revenue3YAgo: 100 }).value).toBeCloseTo(10, 10);
+    // 0.8 ^ (1/5) - 1
+    expect(ratio('profitGrowth5Y', { annualNetIncome: 80, netIncome5YAgo: 100 }).value).toBeCloseTo(-4.3648, 4);
+  });
+});
+
+describe('cagr', () => {
+  it('matches a doubling over ten years', () => {
+    // 2 ^ (1/10) - 1
+    expect(cagr(100, 200, 10).value).toBeCloseTo(7.1773462536, 8);
+  });
+
+  it('is undefined across a loss', () => {
+    expect(cagr(-10, 20, 3).value).toBeNull();
+    expect(cagr(10, 0, 3).value).toBeNull();
+  });
+});
+
+describe('percentChange', () => {
+  it('measures the change from the first price', () => {
+    expect(percentChange(100, 110)).toBeCloseTo(10, 10);
+    expect(percentChange(200, 150)).toBe(-25);
+  });
+
+  it('is null without a positive starting price', () => {
+    expect(percentChange(0, 10)).toBeNull();
+    expect(percentChange(-5, 10)).toBeNull();
+    expect(percentChange(Number.NaN, 10)).toBeNull();
+  });
+});
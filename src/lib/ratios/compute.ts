@@ -0,0 +1,66 @@
+/**
+ * Ratio engine: resolves inputs once and evaluates every ratio definition
+ */
+
+import { RATIO_DEFINITIONS } from './definitions';
+import { RATIO_INPUT_LABELS, resolveRatioInputs } from './inputs';
+import { RatioContext, RatioDefinition, RatioInputKey, RatioInputs, RatioResult, Ratios } from './types';
+
+/**
+ * Evaluate one ratio, returning a reason instead of a value when an input is missing
+ */
+export function computeRatio(definition: RatioDefinition, inputs: RatioInputs): RatioResult {
+  const missing = definition.inputs.filter(input => inputs[input] === null || !Number.isFinite(inputs[input]));
+
+  if (missing.length > 0) {
+    return {
+      value: null,
+      reason: `Missing ${missing.map(input => RATIO_INPUT_LABELS[input]).join(', ')}`,
+    };
+  }
+
+  const result = definition.compute(inputs as Record<RatioInputKey, number>);
+
+  if (result.value !== null && !Number.isFinite(result.value)) {
+    return { value: null, reason: 'Result is not a finite number' };
+  }
+
+  return result;
+}
+
+/**
+ * Compute every ratio for a company
+ */
+export function computeRatios(context: RatioContext): Ratios {
+  const inputs = resolveRatioInputs(context);
+  const ratios = {} as Ratios;
+
+  for (const definition of RATIO_DEFINITIONS) {
+    ratios[definition.key] = computeRatio(definition, inputs);
+  }
+
+  return ratios;
+}
+
+/**
+ * Flatten ratios to their values, e.g. for screener metrics
+ */
+export function ratioValues(ratios: Ratios): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+
+  for (const [key, result] of Object.entries(ratios)) {
+    values[key] = result.value;
+  }
+
+  return values;
+}
+
+/**
+ * Percentage change between two prices; null when the starting price is not positive
+ */
+export function percentChange(from: number, to: number): number | null {
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from <= 0) {
+    return null;
+  }
+  return ((to - from) / from) * 100;
+}
@@ -0,0 +1,167 @@
+/**
+ * Definitions of every derived financial ratio
+ *
+ * Keys match the screener field keys, and percent ratios are expressed in
+ * percentage points (a 15% return on equity is 15).
+ */
+
+import { GROWTH_YEARS } from './inputs';
+import { GrowthYears, RatioDefinition, RatioKey, RatioResult } from './types';
+
+const unavailable = (reason: string): RatioResult => ({ value: null, reason });
+
+/**
+ * Divide, reporting a zero or negative denominator instead of returning a meaningless ratio
+ */
+function divide(numerator: number, denominator: number, denominatorName: string): RatioResult {
+  if (denominator === 0) {
+    return unavailable(`${denominatorName} is zero`);
+  }
+  if (denominator < 0) {
+    return unavailable(`${denominatorName} is negative`);
+  }
+  return { value: numerator / denominator };
+}
+
+const asPercent = (result: RatioResult): RatioResult =>
+  result.value === null ? result : { value: result.value * 100 };
+
+/**
+ * Compounded annual growth rate in percent
+ */
+export function cagr(start: number, end: number, years: number): RatioResult {
+  if (start <= 0 || end <= 0) {
+    return unavailable('Growth is undefined when the start or end value is not positive');
+  }
+  return { value: (Math.pow(end / start, 1 / years) - 1) * 100 };
+}
+
+function growthDefinitions(years: GrowthYears): RatioDefinition[] {
+  return [
+    {
+      key: `salesGrowth${years}Y`,
+      label: `Sales growth ${years}Y`,
+      unit: 'percent',
+      description: `${years}-year compounded annual revenue growth`,
+      inputs: ['annualRevenue', `revenue${years}YAgo`],
+      compute: inputs => cagr(inputs[`revenue${years}YAgo`], inputs.annualRevenue, years),
+    },
+    {
+      key: `profitGrowth${years}Y`,
+      label: `Profit growth ${years}Y`,
+      unit: 'percent',
+      description: `${years}-year compounded annual net income growth`,
+      inputs: ['annualNetIncome', `netIncome${years}YAgo`],
+      compute: inputs => cagr(inputs[`netIncome${years}YAgo`], inputs.annualNetIncome, years),
+    },
+  ];
+}
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+  {
+    key: 'pe',
+    label: 'P/E',
+    unit: 'ratio',
+    description: 'Current price divided by trailing diluted EPS',
+    inputs: ['price', 'ttmEps'],
+    compute: inputs => divide(inputs.price, inputs.ttmEps, 'Trailing EPS'),
+  },
+  {
+    key: 'pb',
+    label: 'P/B',
+    unit: 'ratio',
+    description: 'Market cap divided by shareholders\' equity',
+    inputs: ['marketCap', 'equity'],
+    compute: inputs => divide(inputs.marketCap, inputs.equity, 'Shareholders\' equity'),
+  },
+  {
+    key: 'evEbitda',
+    label: 'EV/EBITDA',
+    unit: 'ratio',
+    description: 'Market cap plus debt minus cash, divided by trailing EBITDA',
+    inputs: ['marketCap', 'totalDebt', 'cashAndEquivalents', 'ttmEbitda'],
+    compute: inputs => divide(
+      inputs.marketCap + inputs.totalDebt - inputs.cashAndEquivalents,
+      inputs.ttmEbitda,
+      'Trailing EBITDA'
+    ),
+  },
+  {
+    key: 'roe',
+    label: 'ROE',
+    unit: 'percent',
+    description: 'Trailing net income as a percentage of shareholders\' equity',
+    inputs: ['ttmNetIncome', 'equity'],
+    compute: inputs => asPercent(divide(inputs.ttmNetIncome, inputs.equity, 'Shareholders\' equity')),
+  },
+  {
+    key: 'roce',
+    label: 'ROCE',
+    unit: 'percent',
+    description: 'Trailing operating income as a percentage of capital employed (total assets minus current liabilities)',
+    inputs: ['ttmOperatingIncome', 'totalAssets', 'currentLiabilities'],
+    compute: inputs => asPercent(divide(
+      inputs.ttmOperatingIncome,
+      inputs.totalAssets - inputs.currentLiabilities,
+      'Capital employed'
+    )),
+  },
+  {
+    key: 'debtToEquity',
+    label: 'Debt to Equity',
+    unit: 'ratio',
+    description: 'Total debt divided by shareholders\' equity',
+    inputs: ['totalDebt', 'equity'],
+    compute: inputs => divide(inputs.totalDebt, inputs.equity, 'Shareholders\' equity'),
+  },
+  {
+    key: 'currentRatio',
+    label: 'Current Ratio',
+    unit: 'ratio',
+    description: 'Current assets divided by current liabilities',
+    inputs: ['currentAssets', 'currentLiabilities'],
+    compute: inputs => divide(inputs.currentAssets, inputs.currentLiabilities, 'Current liabilities'),
+  },
+  {
+    key: 'dividendYield',
+    label: 'Dividend Yield',
+    unit: 'percent',
+    description: 'Trailing dividends paid as a percentage of market cap',
+    inputs: ['ttmDividendsPaid', 'marketCap'],
+    compute: inputs => asPercent(divide(inputs.ttmDividendsPaid, inputs.marketCap, 'Market cap')),
+  },
+  {
+    key: 'operatingMargin',
+    label: 'Operating Margin',
+    unit: 'percent',
+    description: 'Trailing operating income as a percentage of revenue',
+    inputs: ['ttmOperatingIncome', 'ttmRevenue'],
+    compute: inputs => asPercent(divide(inputs.ttmOperatingIncome, inputs.ttmRevenue, 'Trailing revenue')),
+  },
+  {
+    key: 'netMargin',
+    label: 'Net Margin',
+    unit: 'percent',
+    description: 'Trailing net income as a percentage of revenue',
+    inputs: ['ttmNetIncome', 'ttmRevenue'],
+    compute: inputs => asPercent(divide(inputs.ttmNetIncome, inputs.ttmRevenue, 'Trailing revenue')),
+  },
+  {
+    key: 'eps',
+    label: 'EPS',
+    unit: 'currency',
+    description: 'Trailing twelve months diluted earnings per share',
+    inputs: ['ttmEps'],
+    compute: inputs => ({ value: inputs.ttmEps }),
+  },
+  ...GROWTH_YEARS.flatMap(growthDefinitions),
+];
+
+const definitionsByKey = new Map(RATIO_DEFINITIONS.map(definition => [definition.key, definition]));
+
+/**
+ * Look up a ratio definition by key
+ */
+export function getRatioDefinition(key: RatioKey): RatioDefinition | undefined {
+  return definitionsByKey.get(key);
+}
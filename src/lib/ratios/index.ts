@@ -0,0 +1,13 @@
+/**
+ * Financial ratios derived from statements and the latest price
+ *
+ * Each ratio declares the inputs it needs and yields null with a reason when
+ * any of them is unknown, so the stock page and the screener share one
+ * definition of every ratio.
+ */
+
+export * from './types';
+export { RATIO_DEFINITIONS, getRatioDefinition, cagr } from './definitions';
+export { GROWTH_YEARS, RATIO_INPUT_LABELS, resolveRatioInputs } from './inputs';
+export { computeRatio, computeRatios, ratioValues, percentChange } from './compute';
+export { getCompanyRatios } from './companyRatios';
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { BalanceSheet, CashFlowStatement, FinancialPeriod, IncomeStatement } from '@/types';
+import { resolveRatioInputs } from './inputs';
+
+const emptyIncome: IncomeStatement = {
+  revenue: null, operatingIncome: null, netIncome: null, eps: null,
+  dilutedShares: null, depreciationAndAmortization: null, interestExpense: null,
+};
+const emptyBalance: BalanceSheet = {
+  totalAssets: null, currentAssets: null, currentLiabilities: null, totalLiabilities: null,
+  totalDebt: null, cashAndEquivalents: null, equity: null,
+};
+const emptyCashFlow: CashFlowStatement = {
+  operatingCashFlow: null, capitalExpenditure: null, freeCashFlow: null, dividendsPaid: null,
+};
+
+interface PeriodValues {
+  income?: Partial<IncomeStatement>;
+  balance?: Partial<BalanceSheet>;
+  cashFlow?: Partial<CashFlowStatement>;
+}
+
+const quarter = (fiscalYear: number, number: 1 | 2 | 3 | 4, values: PeriodValues = {}): FinancialPeriod => ({
+  periodType: 'quarterly',
+  fiscalYear,
+  fiscalPeriod: `Q${number}`,
+  startDate: `${fiscalYear}-${String(number * 3 - 2).padStart(2, '0')}-01`,
+  endDate: `${fiscalYear}-${String(number * 3).padStart(2, '0')}-28`,
+  incomeStatement: { ...emptyIncome, ...values.income },
+  balanceSheet: { ...emptyBalance, ...values.balance },
+  cashFlow: { ...emptyCashFlow, ...values.cashFlow },
+});
+
+const year = (fiscalYear: number, values: PeriodValues = {}): FinancialPeriod => ({
+  periodType: 'annual',
+  fiscalYear,
+  fiscalPeriod: 'FY',
+  startDate: `${fiscalYear}-01-01`,
+  endDate: `${fiscalYear}-12-31`,
+  incomeStatement: { ...emptyIncome, ...values.income },
+  balanceSheet: { ...emptyBalance, ...values.balance },
+  cashFlow: { ...emptyCashFlow, ...values.cashFlow },
+});
+
+describe('resolveRatioInputs', () => {
+  it('sums the last four quarters into trailing values', () => {
+    const quarterly = [
+      quarter(2023, 3, { income: { revenue: 999, eps: 9 } }),
+      quarter(2023, 4, { income: { revenue: 100, eps: 1.5, netIncome: 20 }, cashFlow: { dividendsPaid: 2 } }),
+      quarter(2024, 1, { income: { revenue: 110, eps: 1.4, netIncome: 22 }, cashFlow: { dividendsPaid: 2 } }),
+      quarter(2024, 2, { income: { revenue: 120, eps: 1.6, netIncome: 25 }, cashFlow: { dividendsPaid: 2 } }),
+      quarter(2024, 3, { income: { revenue: 130, eps: 1.5, netIncome: 28 }, cashFlow: { dividendsPaid: 2 } }),
+    ];
+
+    const inputs = resolveRatioInputs({ price: 150, quarterly, annual: [] });
+
+    expect(inputs.ttmRevenue).toBe(460);
+    expect(inputs.ttmEps).toBeCloseTo(6, 10);
+    expect(inputs.ttmNetIncome).toBe(95);
+    expect(inputs.ttmDividendsPaid).toBe(8);
+  });
+
+  it('sums negative quarters as they are', () => {
+    const quarterly = [
+      quarter(2024, 1, { income: { eps: -0.5 } }),
+      quarter(2024, 2, { income: { eps: -0.75 } }),
+      quarter(2024, 3, { income: { eps: 0.25 } }),
+      quarter(2024, 4, { income: { eps: -1 } }),
+    ];
+
+    expect(resolveRatioInputs({ price: 10, quarterly, annual: [] }).ttmEps).toBe(-2);
+  });
+
+  it('falls back to the latest fiscal year with fewer than four quarters', () => {
+    const quarterly = [quarter(2024, 1, { income: { revenue: 110 } }), quarter(2024, 2, { income: { revenue: 120 } })];
+    const annual = [year(2022, { income: { revenue: 380 } }), year(2023, { income: { revenue: 400 } })];
+
+    expect(resolveRatioInputs({ price: null, quarterly, annual }).ttmRevenue).toBe(400);
+  });
+
+  it('falls back to the latest fiscal year when one of the last four quarters is unknown', () => {
+    const quarterly = [
+      quarter(2024, 1, { income: { revenue: 100 } }),
+      quarter(2024, 2, { income: { revenue: null } }),
+      quarter(2024, 3, { income: { revenue: 120 } }),
+      quarter(2024, 4, { income: { revenue: 130 } }),
+    ];
+    const annual = [year(2023, { income: { revenue: 400 } })];
+
+    expect(resolveRatioInputs({ price: null, quarterly, annual }).ttmRevenue).toBe(400);
+    expect(resolveRatioInputs({ price: null, quarterly, annual: [] }).ttmRevenue).toBeNull();
+  });
+
+  it('adds trailing depreciation to operating income for EBITDA', () => {
+    const quarterly = [1, 2, 3, 4].map(number =>
+      quarter(2024, number as 1 | 2 | 3 | 4, { income: { operatingIncome: 30, depreciationAndAmortization: 5 } })
+    );
+
+    expect(resolveRatioInputs({ price: null, quarterly, annual: [] }).ttmEbitda).toBe(140);
+  });
+
+  it('takes balance sheet values from the most recent period of either type', () => {
+    const quarterly = [quarter(2024, 3, { balance: { equity: 500 } })];
+    const annual = [year(2023, { balance: { equity: 450 } })];
+
+    expect(resolveRatioInputs({ price: null, quarterly, annual }).equity).toBe(500);
+    expect(resolveRatioInputs({ price: null, quarterly: [quarter(2023, 2, { balance: { equity: 400 } })], annual }).equity).toBe(450);
+  });
+
+  it('prices market cap from the latest diluted share count, falling back to the profile', () => {
+    const quarterly = [quarter(2024, 3, { income: { dilutedShares: 10 } })];
+
+    expect(resolveRatioInputs({ price: 150, marketCap: 999, quarterly, annual: [] }).marketCap).toBe(1500);
+    expect(resolveRatioInputs({ price: null, marketCap: 999, quarterly, annual: [] }).marketCap).toBe(999);
+    expect(resolveRatioInputs({ price: 150, quarterly: [quarter(2024, 3)], annual: [] }).marketCap).toBeNull();
+  });
+
+  it('finds growth baselines by fiscal year, leaving a gap unknown', () => {
+    const annual = [
+      year(2014, { income: { revenue: 50 } }),
+      year(2019, { income: { revenue: 80, netIncome: 8 } }),
+      year(2021, { income: { revenue: 100, netIncome: 10 } }),
+      year(2024, { income: { revenue: 133.1, netIncome: 12 } }),
+    ];
+
+    const inputs = resolveRatioInputs({ price: null, quarterly: [], annual });
+
+    expect(inputs.annualRevenue).toBe(133.1);
+    expect(inputs.revenue3YAgo).toBe(100);
+    expect(inputs.netIncome5YAgo).toBe(8);
+    expect(inputs.revenue10YAgo).toBe(50);
+    expect(inputs.netIncome10YAgo).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Resolve the named inputs ratios depend on from statements and price
+ */
+
+import { FinancialPeriod, IncomeStatement, CashFlowStatement } from '@/types';
+import { GrowthYears, RatioContext, RatioInputKey, RatioInputs } from './types';
+
+export const GROWTH_YEARS: GrowthYears[] = [3, 5, 10];
+
+// Human-readable names used in "missing input" reasons
+export const RATIO_INPUT_LABELS: Record<RatioInputKey, string> = {
+  price: 'current price',
+  marketCap: 'market cap',
+  ttmRevenue: 'trailing revenue',
+  ttmOperatingIncome: 'trailing operating income',
+  ttmNetIncome: 'trailing net income',
+  ttmEps: 'trailing EPS',
+  ttmEbitda: 'trailing EBITDA',
+  ttmDividendsPaid: 'trailing dividends paid',
+  totalAssets: 'total assets',
+  currentAssets: 'current assets',
+  currentLiabilities: 'current liabilities',
+  totalDebt: 'total debt',
+  cashAndEquivalents: 'cash and equivalents',
+  equity: 'shareholders\' equity',
+  annualRevenue: 'latest annual revenue',
+  annualNetIncome: 'latest annual net income',
+  revenue3YAgo: 'revenue 3 years ago',
+  revenue5YAgo: 'revenue 5 years ago',
+  revenue10YAgo: 'revenue 10 years ago',
+  netIncome3YAgo: 'net income 3 years ago',
+  netIncome5YAgo: 'net income 5 years ago',
+  netIncome10YAgo: 'net income 10 years ago',
+};
+
+const sum = (values: (number | null)[]): number | null =>
+  values.some(value => value === null) ? null : values.reduce<number>((total, value) => total + (value as number), 0);
+
+/**
+ * Trailing twelve months value: the last four quarters summed, or the latest fiscal year
+ */
+function trailing(context: RatioContext, pick: (period: FinancialPeriod) => number | null): number | null {
+  const lastFour = context.quarterly.slice(-4);
+
+  if (lastFour.length === 4) {
+    const total = sum(lastFour.map(pick));
+    if (total !== null) {
+      return total;
+    }
+  }
+
+  const latestAnnual = context.annual[context.annual.length - 1];
+  return latestAnnual ? pick(latestAnnual) : null;
+}
+
+const income = (key: keyof IncomeStatement) => (period: FinancialPeriod) => period.incomeStatement[key];
+const cashFlow = (key: keyof CashFlowStatement) => (period: FinancialPeriod) => period.cashFlow[key];
+
+/**
+ * The most recent period of either type, for point-in-time balance sheet values
+ */
+function latestPeriod(context: RatioContext): FinancialPeriod | undefined {
+  const quarter = context.quarterly[context.quarterly.length - 1];
+  const year = context.annual[context.annual.length - 1];
+
+  if (!quarter) return year;
+  if (!year) return quarter;
+  return quarter.endDate >= year.endDate ? quarter : year;
+}
+
+/**
+ * Resolve every ratio input from a context; unknown values are null
+ */
+export function resolveRatioInputs(context: RatioContext): RatioInputs {
+  const latest = latestPeriod(context);
+  const balance = latest?.balanceSheet;
+  const annual = context.annual;
+  const latestAnnual = annual[annual.length - 1];
+
+  const ttmOperatingIncome = trailing(context, income('operatingIncome'));
+  const ttmDepreciation = trailing(context, income('depreciationAndAmortization'));
+
+  // Prefer price x shares so market cap moves with the price used for every other ratio
+  const shares = latest?.incomeStatement.dilutedShares ?? null;
+  const marketCap = context.price !== null && shares !== null
+    ? context.price * shares
+    : context.marketCap ?? null;
+
+  // Match by fiscal year so a gap in the history cannot shorten the period
+  const yearsAgo = (years: number, key: keyof IncomeStatement): number | null => {
+    const period = latestAnnual && annual.find(p => p.fiscalYear === latestAnnual.fiscalYear - years);
+    return period ? period.incomeStatement[key] : null;
+  };
+
+  return {
+    price: context.price,
+    marketCap,
+    ttmRevenue: trailing(context, income('revenue')),
+    ttmOperatingIncome,
+    ttmNetIncome: trailing(context, income('netIncome')),
+    ttmEps: trailing(context, income('eps')),
+    ttmEbitda: sum([ttmOperatingIncome, ttmDepreciation]),
+    ttmDividendsPaid: trailing(context, cashFlow('dividendsPaid')),
+    totalAssets: balance?.totalAssets ?? null,
+    currentAssets: balance?.currentAssets ?? null,
+    currentLiabilities: balance?.currentLiabilities ?? null,
+    totalDebt: balance?.totalDebt ?? null,
+    cashAndEquivalents: balance?.cashAndEquivalents ?? null,
+    equity: balance?.equity ?? null,
+    annualRevenue: latestAnnual?.incomeStatement.revenue ?? null,
+    annualNetIncome: latestAnnual?.incomeStatement.netIncome ?? null,
+    revenue3YAgo: yearsAgo(3, 'revenue'),
+    revenue5YAgo: yearsAgo(5, 'revenue'),
+    revenue10YAgo: yearsAgo(10, 'revenue'),
+    netIncome3YAgo: yearsAgo(3, 'netIncome'),
+    netIncome5YAgo: yearsAgo(5, 'netIncome'),
+    netIncome10YAgo: yearsAgo(10, 'netIncome'),
+  };
+}
@@ -0,0 +1,89 @@
+import { FinancialPeriod } from '@/types';
+
+/**
+ * Everything the ratios are derived from
+ */
+export interface RatioContext {
+  price: number | null;           // latest close
+  marketCap?: number | null;      // profile market cap, used when share counts are missing
+  quarterly: FinancialPeriod[];   // oldest first
+  annual: FinancialPeriod[];      // oldest first
+}
+
+export type GrowthYears = 3 | 5 | 10;
+
+/**
+ * Named values resolved from a RatioContext that ratios can depend on.
+ * "ttm" values are the sum of the last four quarters, falling back to the
+ * latest fiscal year; balance sheet values come from the latest period.
+ */
+export type RatioInputKey =
+  | 'price'
+  | 'marketCap'
+  | 'ttmRevenue'
+  | 'ttmOperatingIncome'
+  | 'ttmNetIncome'
+  | 'ttmEps'
+  | 'ttmEbitda'
+  | 'ttmDividendsPaid'
+  | 'totalAssets'
+  | 'currentAssets'
+  | 'currentLiabilities'
+  | 'totalDebt'
+  | 'cashAndEquivalents'
+  | 'equity'
+  | 'annualRevenue'
+  | 'annualNetIncome'
+  | `revenue${GrowthYears}YAgo`
+  | `netIncome${GrowthYears}YAgo`;
+
+export type RatioInputs = Record<RatioInputKey, number | null>;
+
+export type RatioKey =
+  | 'pe'
+  | 'pb'
+  | 'evEbitda'
+  | 'roe'
+  | 'roce'
+  | 'debtToEquity'
+  | 'currentRatio'
+  | 'dividendYield'
+  | 'operatingMargin'
+  | 'netMargin'
+  | 'eps'
+  | `salesGrowth${GrowthYears}Y`
+  | `profitGrowth${GrowthYears}Y`;
+
+export type RatioUnit = 'ratio' | 'percent' | 'currency';
+
+/**
+ * A computed ratio; value is null when it cannot be computed, with the reason why
+ */
+export interface RatioResult {
+  value: number | null;
+  reason?: string;
+}
+
+/**
+ * Definition of one ratio. The engine only calls compute once every declared
+ * input is known, so compute receives non-null values for those inputs.
+ */
+export interface RatioDefinition {
+  key: RatioKey;
+  label: string;
+  unit: RatioUnit;
+  description: string;
+  inputs: RatioInputKey[];
+  compute(inputs: Record<RatioInputKey, number>): RatioResult;
+}
+
+export type Ratios = Record<RatioKey, RatioResult>;
+
+/**
+ * Ratios for one company along with the price they were computed at
+ */
+export interface CompanyRatios {
+  symbol: string;
+  price: number | null;
+  ratios: Ratios;
+}
@@ -0,0 +1,19 @@
+import { SourceSpan } from './types';
+
+/**
+ * Error raised for an invalid screener query, carrying the offending span
+ */
+export class ScreenerSyntaxError extends Error {
+  constructor(message: string, public readonly span: SourceSpan) {
+    super(message);
+    this.name = 'ScreenerSyntaxError';
+  }
+
+  /**
+   * Render the error with the query and a caret under the offending text
+   */
+  format(query: string): string {
+    const width = Math.max(1, this.span.end - this.span.start);
+    return `${this.message} at position ${this.span.start + 1}\n${query}\n${' '.repeat(this.span.start)}${'^'.repeat(width)}`;
+  }
+}
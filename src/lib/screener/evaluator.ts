@@ -0,0 +1,111 @@
+import { getFieldValue } from './fields';
+import { parseScreenQuery } from './parser';
+import { ScreenCandidate, ScreenExpression } from './types';
+
+// Conditions use three-valued logic: null means "unknown" (a metric was missing)
+type Truth = boolean | null;
+
+/**
+ * Evaluate a value expression; null when any input is missing or undefined (x / 0)
+ */
+function evaluateValue(node: ScreenExpression, candidate: ScreenCandidate): number | null {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+
+    case 'field':
+      return getFieldValue(candidate, node.key);
+
+    case 'negate': {
+      const value = evaluateValue(node.operand, candidate);
+      return value === null ? null : -value;
+    }
+
+    case 'arithmetic': {
+      const left = evaluateValue(node.left, candidate);
+      const right = evaluateValue(node.right, candidate);
+
+      if (left === null || right === null) {
+        return null;
+      }
+
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+      }
+    }
+
+    default:
+      throw new Error(`Expected a value expression, got ${node.type}`);
+  }
+}
+
+/**
+ * Evaluate a condition for one candidate
+ */
+function evaluateCondition(node: ScreenExpression, candidate: ScreenCandidate): Truth {
+  switch (node.type) {
+    case 'comparison': {
+      const left = evaluateValue(node.left, candidate);
+      const right = evaluateValue(node.right, candidate);
+
+      if (left === null || right === null) {
+        return null;
+      }
+
+      switch (node.operator) {
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '=': return left === right;
+        case '!=': return left !== right;
+      }
+    }
+
+    case 'logical': {
+      const left = evaluateCondition(node.left, candidate);
+      const right = evaluateCondition(node.right, candidate);
+
+      if (node.operator === 'AND') {
+        if (left === false || right === false) return false;
+        return left === null || right === null ? null : true;
+      }
+
+      if (left === true || right === true) return true;
+      return left === null || right === null ? null : false;
+    }
+
+    case 'not': {
+      const operand = evaluateCondition(node.operand, candidate);
+      return operand === null ? null : !operand;
+    }
+
+    default:
+      throw new Error(`Expected a condition, got ${node.type}`);
+  }
+}
+
+/**
+ * Check whether a candidate satisfies a parsed query.
+ * Candidates whose result is unknown because of missing metrics do not match.
+ */
+export function matchesScreen(expression: ScreenExpression, candidate: ScreenCandidate): boolean {
+  return evaluateCondition(expression, candidate) === true;
+}
+
+/**
+ * Filter a universe of candidates with a parsed query
+ */
+export function evaluateScreen(expression: ScreenExpression, candidates: ScreenCandidate[]): ScreenCandidate[] {
+  return candidates.filter(candidate => matchesScreen(expression, candidate));
+}
+
+/**
+ * Parse and run a query over a universe of candidates
+ */
+export function runScreen(query: string, candidates: ScreenCandidate[]): ScreenCandidate[] {
+  return evaluateScreen(parseScreenQuery(query), candidates);
+}
@@ -0,0 +1,205 @@
+/**
+ * Fields available in screener queries
+ *
+ * Each field is referenced by its label or any alias, case-insensitively
+ * (e.g. "Market Cap", "market capitalization"). Percent fields are expressed
+ * in percentage points, so "ROE > 15" means a return on equity above 15%.
+ */
+
+import { ScreenCandidate, ScreenField } from './types';
+
+export const SCREEN_FIELDS: ScreenField[] = [
+  {
+    key: 'marketCap',
+    label: 'Market Cap',
+    aliases: ['Market Capitalization', 'MCap'],
+    unit: 'currency',
+    description: 'Market capitalization',
+  },
+  {
+    key: 'price',
+    label: 'Current Price',
+    aliases: ['Price', 'CMP'],
+    unit: 'currency',
+    description: 'Latest closing price',
+  },
+  {
+    key: 'pe',
+    label: 'PE',
+    aliases: ['Price to Earning', 'Price to Earnings', 'PE Ratio'],
+    unit: 'ratio',
+    description: 'Price to trailing earnings per share',
+  },
+  {
+    key: 'pb',
+    label: 'PB',
+    aliases: ['Price to Book', 'Price to Book Value'],
+    unit: 'ratio',
+    description: 'Price to book value per share',
+  },
+  {
+    key: 'evEbitda',
+    label: 'EV to EBITDA',
+    aliases: ['EV EBITDA'],
+    unit: 'ratio',
+    description: 'Enterprise value to EBITDA',
+  },
+  {
+    key: 'roe',
+    label: 'ROE',
+    aliases: ['Return on Equity'],
+    unit: 'percent',
+    description: 'Return on equity',
+  },
+  {
+    key: 'roce',
+    label: 'ROCE',
+    aliases: ['Return on Capital Employed'],
+    unit: 'percent',
+    description: 'Return on capital employed',
+  },
+  {
+    key: 'debtToEquity',
+    label: 'Debt to Equity',
+    aliases: ['DE', 'Debt Equity'],
+    unit: 'ratio',
+    description: 'Total debt divided by shareholders\' equity',
+  },
+  {
+    key: 'currentRatio',
+    label: 'Current Ratio',
+    aliases: [],
+    unit: 'ratio',
+    description: 'Current assets divided by current liabilities',
+  },
+  {
+    key: 'dividendYield',
+    label: 'Dividend Yield',
+    aliases: ['Yield'],
+    unit: 'percent',
+    description: 'Trailing dividends per share divided by price',
+  },
+  {
+    key: 'operatingMargin',
+    label: 'OPM',
+    aliases: ['Operating Margin', 'Operating Profit Margin'],
+    unit: 'percent',
+    description: 'Operating profit as a percentage of sales',
+  },
+  {
+    key: 'netMargin',
+    label: 'NPM',
+    aliases: ['Net Margin', 'Net Profit Margin'],
+    unit: 'percent',
+    description: 'Net income as a percentage of sales',
+  },
+  {
+    key: 'eps',
+    label: 'EPS',
+    aliases: ['Earnings per Share'],
+    unit: 'currency',
+    description: 'Trailing earnings per share',
+  },
+  {
+    key: 'salesGrowth3Y',
+    label: 'Sales growth 3Y',
+    aliases: ['Sales growth 3Years', 'Revenue growth 3Y'],
+    unit: 'percent',
+    description: '3-year compounded sales growth',
+  },
+  {
+    key: 'salesGrowth5Y',
+    label: 'Sales growth 5Y',
+    aliases: ['Sales growth 5Years', 'Revenue growth 5Y'],
+    unit: 'percent',
+    description: '5-year compounded sales growth',
+  },
+  {
+    key: 'salesGrowth10Y',
+    label: 'Sales growth 10Y',
+    aliases: ['Sales growth 10Years', 'Revenue growth 10Y'],
+    unit: 'percent',
+    description: '10-year compounded sales growth',
+  },
+  {
+    key: 'profitGrowth3Y',
+    label: 'Profit growth 3Y',
+    aliases: ['Profit growth 3Years'],
+    unit: 'percent',
+    description: '3-year compounded net profit growth',
+  },
+  {
+    key: 'profitGrowth5Y',
+    label: 'Profit growth 5Y',
+    aliases: ['Profit growth 5Years'],
+    unit: 'percent',
+    description: '5-year compounded net profit growth',
+  },
+  {
+    key: 'profitGrowth10Y',
+    label: 'Profit growth 10Y',
+    aliases: ['Profit growth 10Years'],
+    unit: 'percent',
+    description: '10-year compounded net profit growth',
+  },
+  {
+    key: 'return1Y',
+    label: 'Return 1Y',
+    aliases: ['Return over 1year', '1Y Return'],
+    unit: 'percent',
+    description: 'Price return over the last year',
+  },
+  {
+    key: 'employees',
+    label: 'Employees',
+    aliases: ['Number of Employees'],
+    unit: 'number',
+    description: 'Full-time employees',
+  },
+];
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const fieldsByName = new Map<string, ScreenField>();
+for (const field of SCREEN_FIELDS) {
+  for (const name of [field.label, field.key, ...field.aliases]) {
+    fieldsByName.set(normalizeName(name), field);
+  }
+}
+
+const fieldsByKey = new Map(SCREEN_FIELDS.map(field => [field.key, field]));
+
+/**
+ * Look up a field by label or alias
+ */
+export function findScreenField(name: string): ScreenField | undefined {
+  return fieldsByName.get(normalizeName(name));
+}
+
+/**
+ * Look up a field by key
+ */
+export function getScreenField(key: string): ScreenField | undefined {
+  return fieldsByKey.get(key);
+}
+
+/**
+ * Resolve a field's value for a candidate, preferring derived metrics over
+ * the company profile. Returns null when the value is not known.
+ */
+export function getFieldValue(candidate: ScreenCandidate, key: string): number | null {
+  const metric = candidate.metrics[key];
+  if (typeof metric === 'number' && Number.isFinite(metric)) {
+    return metric;
+  }
+
+  if (key === 'marketCap' && candidate.company.marketCap) {
+    return candidate.company.marketCap;
+  }
+
+  if (key === 'employees' && candidate.company.employees) {
+    return candidate.company.employees;
+  }
+
+  return null;
+}
@@ -0,0 +1,15 @@
+/**
+ * Screener query language
+ *
+ * Queries combine conditions on company fields with AND, OR, NOT and
+ * parentheses, e.g. "Market Cap > 10B AND PE < 25 AND Sales growth 3Y > 15".
+ * Numbers accept K/M/B/T magnitude suffixes and an optional % sign, and values
+ * can be combined arithmetically ("Current Price / EPS < 20").
+ */
+
+export * from './types';
+export { ScreenerSyntaxError } from './errors';
+export { tokenize } from './tokenizer';
+export { parseScreenQuery, getReferencedFields } from './parser';
+export { evaluateScreen, matchesScreen, runScreen } from './evaluator';
+export { SCREEN_FIELDS, findScreenField, getScreenField, getFieldValue } from './fields';
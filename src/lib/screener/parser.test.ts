@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { ScreenerSyntaxError } from './errors';
+import { getReferencedFields, parseScreenQuery } from './parser';
+import { ScreenExpression } from './types';
+
+// The AST as a prefix expression, so tests can check its shape at a glance
+function show(node: ScreenExpression): string {
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'field':
+      return node.key;
+    case 'negate':
+      return `(- ${show(node.operand)})`;
+    case 'not':
+      return `(NOT ${show(node.operand)})`;
+    default:
+      return `(${node.operator} ${show(node.left)} ${show(node.right)})`;
+  }
+}
+
+// The syntax error a query raises, rendered with its caret line
+function syntaxError(query: string): string {
+  try {
+    parseScreenQuery(query);
+  } catch (error) {
+    if (error instanceof ScreenerSyntaxError) {
+      return error.format(query);
+    }
+    throw error;
+  }
+
+  throw new Error(`"${query}" parsed without an error`);
+}
+
+describe('parseScreenQuery', () => {
+  it('builds a comparison with field, number and source spans', () => {
+    expect(parseScreenQuery('Market Cap > 10B')).toEqual({
+      type: 'comparison',
+      operator: '>',
+      left: { type: 'field', key: 'marketCap', name: 'Market Cap', span: { start: 0, end: 10 } },
+      right: { type: 'number', value: 10e9, span: { start: 13, end: 16 } },
+      span: { start: 0, end: 16 },
+    });
+  });
+
+  it('resolves fields by label, alias or key, case-insensitively', () => {
+    expect(show(parseScreenQuery('market capitalization > 1 AND sales GROWTH 3y > 2 AND pe < 3'))).toBe(
+      '(AND (AND (> marketCap 1) (> salesGrowth3Y 2)) (< pe 3))'
+    );
+  });
+
+  it('normalizes alternative comparison operators', () => {
+    expect(show(parseScreenQuery('PE == 20 OR PE <> 30'))).toBe('(OR (= pe 20) (!= pe 30))');
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(show(parseScreenQuery('PE < 20 OR ROE > 15 AND PB < 3'))).toBe(
+      '(OR (< pe 20) (AND (> roe 15) (< pb 3)))'
+    );
+  });
+
+  it('binds NOT tighter than AND', () => {
+    expect(show(parseScreenQuery('NOT PE > 20 AND ROE > 15'))).toBe('(AND (NOT (> pe 20)) (> roe 15))');
+  });
+
+  it('lets parentheses override precedence', () => {
+    expect(show(parseScreenQuery('(PE < 20 OR ROE > 15) AND PB < 3'))).toBe(
+      '(AND (OR (< pe 20) (> roe 15)) (< pb 3))'
+    );
+  });
+
+  it('binds * and / tighter than + and -, and unary minus tightest', () => {
+    expect(show(parseScreenQuery('Current Price / EPS + 1 * -2 < 20'))).toBe(
+      '(< (+ (/ price eps) (* 1 (- 2))) 20)'
+    );
+  });
+
+  it('groups arithmetic from the left', () => {
+    expect(show(parseScreenQuery('PE - 1 - 2 > 0'))).toBe('(> (- (- pe 1) 2) 0)');
+  });
+
+  it('widens a parenthesized span to include the parentheses', () => {
+    const expression = parseScreenQuery('(PE < 20) AND ROE > 15');
+
+    expect(expression.type === 'logical' && expression.left.span).toEqual({ start: 0, end: 9 });
+  });
+});
+
+describe('parseScreenQuery errors', () => {
+  it('points at the end of an unterminated parenthesis', () => {
+    expect(syntaxError('(PE < 20 AND ROE > 15')).toBe(
+      'Expected ")" but found end of query at position 22\n' +
+      '(PE < 20 AND ROE > 15\n' +
+      '                     ^'
+    );
+  });
+
+  it('points at the end of a comparison missing its right side', () => {
+    expect(syntaxError('PE <')).toBe(
+      'Unexpected end of query at position 5\n' +
+      'PE <\n' +
+      '    ^'
+    );
+  });
+
+  it('underlines the whole of an unknown field name', () => {
+    expect(syntaxError('PE < 20 AND Foo Bar > 3')).toBe(
+      'Unknown field "Foo Bar" at position 13\n' +
+      'PE < 20 AND Foo Bar > 3\n' +
+      '            ^^^^^^^'
+    );
+  });
+
+  it('suggests fields that start like an unknown one', () => {
+    expect(syntaxError('Sales > 10')).toBe(
+      'Unknown field "Sales"; did you mean "Sales growth 3Y" or "Sales growth 5Y" or "Sales growth 10Y"? at position 1\n' +
+      'Sales > 10\n' +
+      '^^^^^'
+    );
+  });
+
+  it('points at a trailing condition missing AND/OR', () => {
+    expect(syntaxError('PE < 20 ROE > 15')).toBe(
+      'Unexpected "ROE" (missing AND/OR?) at position 9\n' +
+      'PE < 20 ROE > 15\n' +
+      '        ^^^'
+    );
+  });
+
+  it('points at a trailing value missing a comparison operator', () => {
+    expect(syntaxError('PE 20')).toBe(
+      'Unexpected "20" (missing comparison operator?) at position 4\n' +
+      'PE 20\n' +
+      '   ^^'
+    );
+  });
+
+  it('points at a stray closing parenthesis', () => {
+    expect(syntaxError('PE < 20)')).toBe(
+      'Unexpected ")" at position 8\n' +
+      'PE < 20)\n' +
+      '       ^'
+    );
+  });
+
+  it('points at the second operator of a chained comparison', () => {
+    expect(syntaxError('10 < PE < 20')).toBe(
+      'Comparisons cannot be chained; combine them with AND at position 9\n' +
+      '10 < PE < 20\n' +
+      '        ^'
+    );
+  });
+
+  it('underlines a value used where a condition is expected', () => {
+    expect(syntaxError('PE AND ROE > 15')).toBe(
+      'Expected a condition such as "PE < 20" at position 1\n' +
+      'PE AND ROE > 15\n' +
+      '^^'
+    );
+  });
+
+  it('rejects an empty query', () => {
+    expect(syntaxError('   ')).toBe('Query is empty at position 4\n   \n   ^');
+  });
+});
+
+describe('getReferencedFields', () => {
+  it('lists each field once, in order of first appearance', () => {
+    expect(getReferencedFields(parseScreenQuery('ROE > 15 AND (PE < 20 OR ROE > PB * 10)'))).toEqual(['roe', 'pe', 'pb']);
+  });
+});
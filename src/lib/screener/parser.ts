@@ -0,0 +1,280 @@
+import { ScreenerSyntaxError } from './errors';
+import { findScreenField, SCREEN_FIELDS } from './fields';
+import { Token, tokenize } from './tokenizer';
+import { ArithmeticOperator, ComparisonOperator, ScreenExpression, SourceSpan } from './types';
+
+const COMPARISON_OPERATORS: Record<string, ComparisonOperator> = {
+  '>': '>',
+  '>=': '>=',
+  '<': '<',
+  '<=': '<=',
+  '=': '=',
+  '==': '=',
+  '!=': '!=',
+  '<>': '!=',
+};
+
+const isCondition = (node: ScreenExpression) =>
+  node.type === 'comparison' || node.type === 'logical' || node.type === 'not';
+
+const joinSpans = (left: SourceSpan, right: SourceSpan): SourceSpan => ({
+  start: left.start,
+  end: right.end,
+});
+
+const describeToken = (token: Token) =>
+  token.type === 'eof' ? 'end of query' : `"${token.text}"`;
+
+/**
+ * Recursive-descent parser for screener queries.
+ *
+ * Precedence, loosest first: OR, AND, NOT, comparisons, + -, * /, unary minus.
+ */
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScreenExpression {
+    if (this.peek().type === 'eof') {
+      throw new ScreenerSyntaxError('Query is empty', this.peek().span);
+    }
+
+    const expression = this.parseOr();
+    const next = this.peek();
+
+    if (next.type !== 'eof') {
+      const missing = isCondition(expression) ? 'AND/OR' : 'comparison operator';
+      const hint = next.type === 'word' || next.type === 'number' ? ` (missing ${missing}?)` : '';
+      throw new ScreenerSyntaxError(`Unexpected ${describeToken(next)}${hint}`, next.span);
+    }
+
+    this.expectCondition(expression);
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private expectCondition(node: ScreenExpression): void {
+    if (!isCondition(node)) {
+      throw new ScreenerSyntaxError('Expected a condition such as "PE < 20"', node.span);
+    }
+  }
+
+  private expectValue(node: ScreenExpression): void {
+    if (isCondition(node)) {
+      throw new ScreenerSyntaxError('Expected a value but found a condition', node.span);
+    }
+  }
+
+  private parseOr(): ScreenExpression {
+    let left = this.parseAnd();
+
+    while (this.peek().type === 'or') {
+      this.advance();
+      const right = this.parseAnd();
+      this.expectCondition(left);
+      this.expectCondition(right);
+      left = { type: 'logical', operator: 'OR', left, right, span: joinSpans(left.span, right.span) };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): ScreenExpression {
+    let left = this.parseNot();
+
+    while (this.peek().type === 'and') {
+      this.advance();
+      const right = this.parseNot();
+      this.expectCondition(left);
+      this.expectCondition(right);
+      left = { type: 'logical', operator: 'AND', left, right, span: joinSpans(left.span, right.span) };
+    }
+
+    return left;
+  }
+
+  private parseNot(): ScreenExpression {
+    if (this.peek().type === 'not') {
+      const token = this.advance();
+      const operand = this.parseNot();
+      this.expectCondition(operand);
+      return { type: 'not', operand, span: joinSpans(token.span, operand.span) };
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ScreenExpression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    const operator = token.type === 'operator' ? COMPARISON_OPERATORS[token.text] : undefined;
+
+    if (!operator) {
+      return left;
+    }
+
+    this.advance();
+    const right = this.parseAdditive();
+    this.expectValue(left);
+    this.expectValue(right);
+
+    const next = this.peek();
+    if (next.type === 'operator' && COMPARISON_OPERATORS[next.text]) {
+      throw new ScreenerSyntaxError('Comparisons cannot be chained; combine them with AND', next.span);
+    }
+
+    return { type: 'comparison', operator, left, right, span: joinSpans(left.span, right.span) };
+  }
+
+  private parseAdditive(): ScreenExpression {
+    let left = this.parseMultiplicative();
+
+    while (this.peek().type === 'operator' && (this.peek().text === '+' || this.peek().text === '-')) {
+      const operator = this.advance().text as ArithmeticOperator;
+      const right = this.parseMultiplicative();
+      this.expectValue(left);
+      this.expectValue(right);
+      left = { type: 'arithmetic', operator, left, right, span: joinSpans(left.span, right.span) };
+    }
+
+    return left;
+  }
+
+  private parseMultiplicative(): ScreenExpression {
+    let left = this.parseUnary();
+
+    while (this.peek().type === 'operator' && (this.peek().text === '*' || this.peek().text === '/')) {
+      const operator = this.advance().text as ArithmeticOperator;
+      const right = this.parseUnary();
+      this.expectValue(left);
+      this.expectValue(right);
+      left = { type: 'arithmetic', operator, left, right, span: joinSpans(left.span, right.span) };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ScreenExpression {
+    const token = this.peek();
+
+    if (token.type === 'operator' && token.text === '-') {
+      this.advance();
+      const operand = this.parseUnary();
+      this.expectValue(operand);
+      return { type: 'negate', operand, span: joinSpans(token.span, operand.span) };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ScreenExpression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'number', value: token.value!, span: token.span };
+
+      case 'word':
+        return this.parseField();
+
+      case 'lparen': {
+        this.advance();
+        const inner = this.parseOr();
+        const closing = this.peek();
+
+        if (closing.type !== 'rparen') {
+          throw new ScreenerSyntaxError(`Expected ")" but found ${describeToken(closing)}`, closing.span);
+        }
+
+        this.advance();
+        // Widen the span to include the parentheses for error reporting
+        return { ...inner, span: joinSpans(token.span, closing.span) };
+      }
+
+      case 'eof':
+        throw new ScreenerSyntaxError('Unexpected end of query', token.span);
+
+      default:
+        throw new ScreenerSyntaxError(
+          `Expected a field name, number or "(" but found ${describeToken(token)}`,
+          token.span
+        );
+    }
+  }
+
+  private parseField(): ScreenExpression {
+    const first = this.peek();
+    const words: string[] = [];
+    let last = first;
+
+    // Field names are runs of words: "Sales growth 3Y"
+    while (this.peek().type === 'word') {
+      last = this.advance();
+      words.push(last.text);
+    }
+
+    const name = words.join(' ');
+    const span = joinSpans(first.span, last.span);
+    const field = findScreenField(name);
+
+    if (!field) {
+      const suggestions = SCREEN_FIELDS
+        .filter(candidate => candidate.label.toLowerCase().startsWith(words[0].toLowerCase()))
+        .map(candidate => `"${candidate.label}"`);
+      const hint = suggestions.length > 0 ? `; did you mean ${suggestions.join(' or ')}?` : '';
+      throw new ScreenerSyntaxError(`Unknown field "${name}"${hint}`, span);
+    }
+
+    return { type: 'field', key: field.key, name, span };
+  }
+}
+
+/**
+ * Parse a screener query into an AST, throwing ScreenerSyntaxError on bad input
+ */
+export function parseScreenQuery(query: string): ScreenExpression {
+  return new Parser(tokenize(query)).parse();
+}
+
+/**
+ * Keys of every field referenced by a query, in order of first appearance
+ */
+export function getReferencedFields(expression: ScreenExpression): string[] {
+  const keys: string[] = [];
+
+  const visit = (node: ScreenExpression) => {
+    switch (node.type) {
+      case 'field':
+        if (!keys.includes(node.key)) {
+          keys.push(node.key);
+        }
+        break;
+      case 'negate':
+      case 'not':
+        visit(node.operand);
+        break;
+      case 'arithmetic':
+      case 'comparison':
+      case 'logical':
+        visit(node.left);
+        visit(node.right);
+        break;
+    }
+  };
+
+  visit(expression);
+  return keys;
+}
@@ -0,0 +1,96 @@
+/**
+ * Peer groups: companies in the screening universe that share an industry or sector
+ */
+
+import { getFieldValue } from './fields';
+import { buildCandidate, getScreenUniverse, toScreenResultRow } from './universe';
+import { ScreenCandidate, ScreenResultRow } from './types';
+
+// Columns shown in the peer comparison table
+export const PEER_COLUMNS = ['marketCap', 'pe', 'roe', 'salesGrowth3Y', 'return1Y'];
+
+// Fall back from industry to sector when an industry has fewer peers than this
+const MIN_PEERS = 2;
+
+export interface PeerGroup {
+  symbol: string;
+  basis: 'industry' | 'sector';
+  group: string;
+  rows: ScreenResultRow[];
+  median: Record<string, number | null>;
+  columns: string[];
+}
+
+/**
+ * Median of the known values; null when none are known
+ */
+export function median(values: (number | null)[]): number | null {
+  const known = values
+    .filter((value): value is number => value !== null && Number.isFinite(value))
+    .sort((a, b) => a - b);
+
+  if (known.length === 0) {
+    return null;
+  }
+
+  const middle = Math.floor(known.length / 2);
+  return known.length % 2 === 0 ? (known[middle - 1] + known[middle]) / 2 : known[middle];
+}
+
+/**
+ * Median of every peer column over a set of candidates
+ */
+function medianValues(candidates: ScreenCandidate[]): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+
+  for (const key of PEER_COLUMNS) {
+    values[key] = median(candidates.map(candidate => getFieldValue(candidate, key)));
+  }
+
+  return values;
+}
+
+/**
+ * Find a company's peers, including the company itself. Returns null when the
+ * company has neither an industry nor a sector to group by.
+ */
+export async function getPeerGroup(symbol: string): Promise<PeerGroup | null> {
+  const upperSymbol = symbol.toUpperCase();
+  const universe = await getScreenUniverse();
+
+  // Companies outside the universe are compared against it too
+  const target = universe.find(candidate => candidate.company.symbol === upperSymbol)
+    || await buildCandidate(upperSymbol);
+
+  if (!target) {
+    return null;
+  }
+
+  const others = universe.filter(candidate => candidate.company.symbol !== upperSymbol);
+  const { industry, sector } = target.company;
+
+  let basis: PeerGroup['basis'] = 'industry';
+  let group = industry;
+  let peers = industry ? others.filter(candidate => candidate.company.industry === industry) : [];
+
+  if (peers.length < MIN_PEERS && sector) {
+    basis = 'sector';
+    group = sector;
+    peers = others.filter(candidate => candidate.company.sector === sector);
+  }
+
+  if (!group) {
+    return null;
+  }
+
+  const members = [target, ...peers];
+
+  return {
+    symbol: upperSymbol,
+    basis,
+    group,
+    rows: members.map(toScreenResultRow),
+    median: medianValues(members),
+    columns: PEER_COLUMNS,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Helpers for presenting screen results: columns, sorting and formatting
+ */
+
+import { formatCurrency, formatNumber } from '@/lib/utils/formatters';
+import { getScreenField } from './fields';
+import { ScreenFieldUnit, ScreenResultRow, ScreenSort } from './types';
+
+// Columns shown when a screen does not specify any
+export const DEFAULT_SCREEN_COLUMNS = ['price', 'marketCap', 'pe', 'roe', 'return1Y'];
+
+/**
+ * Keep only known field keys, without duplicates
+ */
+export function normalizeColumns(columns: string[]): string[] {
+  return columns.filter((key, index) => getScreenField(key) && columns.indexOf(key) === index);
+}
+
+/**
+ * Parse a comma-separated column list (e.g. "pe,roe")
+ */
+export function parseColumnsParam(param: string | null | undefined): string[] {
+  if (!param) return [];
+  return normalizeColumns(param.split(',').map(key => key.trim()));
+}
+
+/**
+ * Parse a sort parameter such as "pe:asc,marketCap:desc"
+ */
+export function parseSortParam(param: string | null | undefined): ScreenSort[] {
+  if (!param) return [];
+
+  return param
+    .split(',')
+    .map(part => {
+      const [key, direction] = part.trim().split(':');
+      return { key, direction: direction === 'asc' ? 'asc' : 'desc' } as ScreenSort;
+    })
+    .filter(sort => getScreenField(sort.key) || sort.key === 'symbol' || sort.key === 'name');
+}
+
+export function serializeSort(sorts: ScreenSort[]): string {
+  return sorts.map(sort => `${sort.key}:${sort.direction}`).join(',');
+}
+
+/**
+ * Sort rows by each sort level in turn; missing values always sort last
+ */
+export function sortScreenRows(rows: ScreenResultRow[], sorts: ScreenSort[]): ScreenResultRow[] {
+  if (sorts.length === 0) {
+    return rows;
+  }
+
+  const valueOf = (row: ScreenResultRow, key: string): number | string | null => {
+    if (key === 'symbol') return row.symbol;
+    if (key === 'name') return row.name;
+    return row.values[key] ?? null;
+  };
+
+  return [...rows].sort((a, b) => {
+    for (const { key, direction } of sorts) {
+      const left = valueOf(a, key);
+      const right = valueOf(b, key);
+
+      if (left === right) continue;
+      if (left === null) return 1;
+      if (right === null) return -1;
+
+      const comparison = typeof left === 'string' || typeof right === 'string'
+        ? String(left).localeCompare(String(right))
+        : left - right;
+
+      if (comparison !== 0) {
+        return direction === 'asc' ? comparison : -comparison;
+      }
+    }
+
+    return 0;
+  });
+}
+
+/**
+ * Format a field value for display according to its unit
+ */
+export function formatScreenValue(value: number | null, unit: ScreenFieldUnit): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '—';
+  }
+
+  switch (unit) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'ratio':
+      return value.toFixed(2);
+    default:
+      return formatNumber(value);
+  }
+}
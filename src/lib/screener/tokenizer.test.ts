@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ScreenerSyntaxError } from './errors';
+import { tokenize } from './tokenizer';
+
+// Token types and text, without spans
+const summarize = (query: string) => tokenize(query).map(token => `${token.type}:${token.text}`);
+
+describe('tokenize', () => {
+  it('splits a query into fields, operators, numbers and keywords', () => {
+    expect(summarize('PE < 20 and (ROE >= 15 OR not PB > 3)')).toEqual([
+      'word:PE', 'operator:<', 'number:20', 'and:and',
+      'lparen:(', 'word:ROE', 'operator:>=', 'number:15', 'or:OR',
+      'not:not', 'word:PB', 'operator:>', 'number:3', 'rparen:)',
+      'eof:',
+    ]);
+  });
+
+  it('records where each token starts and ends', () => {
+    expect(tokenize('PE >= 20').map(token => token.span)).toEqual([
+      { start: 0, end: 2 },
+      { start: 3, end: 5 },
+      { start: 6, end: 8 },
+      { start: 8, end: 8 },
+    ]);
+  });
+
+  it('reads the longest operator first', () => {
+    expect(summarize('a>=b<=c!=d<>e==f')).toEqual([
+      'word:a', 'operator:>=', 'word:b', 'operator:<=', 'word:c', 'operator:!=',
+      'word:d', 'operator:<>', 'word:e', 'operator:==', 'word:f', 'eof:',
+    ]);
+  });
+
+  it('applies magnitude suffixes and percent signs to numbers', () => {
+    const values = tokenize('10B 2.5m 500k 1T 15% .5 7').filter(token => token.type === 'number').map(token => token.value);
+
+    expect(values).toEqual([10e9, 2.5e6, 500e3, 1e12, 15, 0.5, 7]);
+  });
+
+  it('keeps digits that run into letters as part of a field name', () => {
+    expect(summarize('Sales growth 3Y > 15')).toEqual([
+      'word:Sales', 'word:growth', 'word:3Y', 'operator:>', 'number:15', 'eof:',
+    ]);
+  });
+
+  it('reports an unexpected character with its position', () => {
+    const query = 'PE < 20 & ROE > 15';
+    let error: unknown;
+
+    try {
+      tokenize(query);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ScreenerSyntaxError);
+    expect((error as ScreenerSyntaxError).span).toEqual({ start: 8, end: 9 });
+    expect((error as ScreenerSyntaxError).format(query)).toBe(
+      'Unexpected character "&" at position 9\n' +
+      'PE < 20 & ROE > 15\n' +
+      '        ^'
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { ScreenerSyntaxError } from './errors';
+import { SourceSpan } from './types';
+
+export type TokenType = 'number' | 'word' | 'operator' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  value?: number;
+  span: SourceSpan;
+}
+
+// Magnitude suffixes allowed directly after a number (10B, 500M, 15%)
+const NUMBER_SUFFIXES: Record<string, number> = {
+  k: 1e3,
+  m: 1e6,
+  b: 1e9,
+  t: 1e12,
+  '%': 1,
+};
+
+const KEYWORDS: Record<string, TokenType> = {
+  and: 'and',
+  or: 'or',
+  not: 'not',
+};
+
+// Longest operators first so ">=" wins over ">"
+const OPERATORS = ['>=', '<=', '!=', '<>', '==', '>', '<', '=', '+', '-', '*', '/'];
+
+const isDigit = (char: string) => char >= '0' && char <= '9';
+const isWordChar = (char: string) => /[A-Za-z0-9_]/.test(char);
+
+/**
+ * Split a screener query into tokens
+ */
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const char = query[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({
+        type: char === '(' ? 'lparen' : 'rparen',
+        text: char,
+        span: { start: position, end: position + 1 },
+      });
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => query.startsWith(op, position));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, span: { start: position, end: position + operator.length } });
+      position += operator.length;
+      continue;
+    }
+
+    if (isDigit(char) || (char === '.' && isDigit(query[position + 1] || ''))) {
+      const match = /^(\d*\.?\d+)([kKmMbBtT%])?/.exec(query.slice(position))!;
+      const end = position + match[0].length;
+
+      // Digits running into letters (3Y, 52w) are part of a field name, not a number
+      if (!isWordChar(query[end] || '') || match[2] === '%') {
+        const suffix = match[2] ? NUMBER_SUFFIXES[match[2].toLowerCase()] : 1;
+        tokens.push({
+          type: 'number',
+          text: match[0],
+          value: parseFloat(match[1]) * suffix,
+          span: { start: position, end },
+        });
+        position = end;
+        continue;
+      }
+    }
+
+    if (isWordChar(char)) {
+      let end = position;
+      while (end < query.length && isWordChar(query[end])) {
+        end++;
+      }
+
+      const text = query.slice(position, end);
+      tokens.push({
+        type: KEYWORDS[text.toLowerCase()] || 'word',
+        text,
+        span: { start: position, end },
+      });
+      position = end;
+      continue;
+    }
+
+    throw new ScreenerSyntaxError(`Unexpected character "${char}"`, { start: position, end: position + 1 });
+  }
+
+  tokens.push({ type: 'eof', text: '', span: { start: query.length, end: query.length } });
+  return tokens;
+}
@@ -0,0 +1,71 @@
+import { Company } from '@/types';
+
+/**
+ * Source position of a token or AST node (character offsets into the query)
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+export type LogicalOperator = 'AND' | 'OR';
+
+/**
+ * Screener query AST
+ */
+export type ScreenExpression =
+  | { type: 'number'; value: number; span: SourceSpan }
+  | { type: 'field'; key: string; name: string; span: SourceSpan }
+  | { type: 'negate'; operand: ScreenExpression; span: SourceSpan }
+  | { type: 'arithmetic'; operator: ArithmeticOperator; left: ScreenExpression; right: ScreenExpression; span: SourceSpan }
+  | { type: 'comparison'; operator: ComparisonOperator; left: ScreenExpression; right: ScreenExpression; span: SourceSpan }
+  | { type: 'logical'; operator: LogicalOperator; left: ScreenExpression; right: ScreenExpression; span: SourceSpan }
+  | { type: 'not'; operand: ScreenExpression; span: SourceSpan };
+
+/**
+ * Derived metrics for a company, keyed by screen field key.
+ * A null or missing value means the metric could not be computed.
+ */
+export type ScreenMetrics = Record<string, number | null | undefined>;
+
+/**
+ * A company in the screening universe together with its derived metrics
+ */
+export interface ScreenCandidate {
+  company: Company;
+  metrics: ScreenMetrics;
+}
+
+export type ScreenFieldUnit = 'currency' | 'percent' | 'ratio' | 'number';
+
+/**
+ * A field that can be referenced by name in a screener query
+ */
+export interface ScreenField {
+  key: string;
+  label: string;
+  aliases: string[];
+  unit: ScreenFieldUnit;
+  description: string;
+}
+
+/**
+ * A screen match flattened for display: every field value keyed by field key
+ */
+export interface ScreenResultRow {
+  symbol: string;
+  name: string;
+  values: Record<string, number | null>;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * One level of a (possibly multi-column) sort
+ */
+export interface ScreenSort {
+  key: string;
+  direction: SortDirection;
+}
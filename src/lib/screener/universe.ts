@@ -0,0 +1,161 @@
+/**
+ * Screening universe: the companies a screen runs over, with derived metrics
+ */
+
+import { createHash } from 'crypto';
+import { getCompanyDetails, getFinancials, getQuotes, getStockPriceData } from '@/lib/api/stockApi';
+import cacheService from '@/lib/cache/cacheService';
+import { FEATURED_SYMBOLS } from '@/lib/cache/prefetch';
+import { isSynthetic } from '@/lib/provenance';
+import { computeRatios, percentChange, ratioValues } from '@/lib/ratios';
+import { Quote } from '@/types';
+import { evaluateScreen } from './evaluator';
+import { getFieldValue, SCREEN_FIELDS } from './fields';
+import { getReferencedFields, parseScreenQuery } from './parser';
+import { ScreenCandidate, ScreenMetrics, ScreenResultRow } from './types';
+
+const UNIVERSE_CACHE_TTL = 60 * 60; // 1 hour
+// A universe missing symbols that failed to load is rebuilt sooner
+const PARTIAL_UNIVERSE_CACHE_TTL = 5 * 60; // 5 minutes
+
+/**
+ * Symbols in the universe, from SCREENER_UNIVERSE (comma-separated) or the featured list
+ */
+export function getUniverseSymbols(): string[] {
+  const configured = process.env.SCREENER_UNIVERSE;
+
+  if (!configured) {
+    return FEATURED_SYMBOLS;
+  }
+
+  return configured
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(symbol => symbol.length > 0);
+}
+
+/**
+ * Cache key for a universe: a hash of its symbols, so changing
+ * SCREENER_UNIVERSE never serves the universe built for the old list
+ */
+function universeCacheKey(symbols: string[]): string {
+  const hash = createHash('sha1').update(symbols.join(',')).digest('hex').slice(0, 12);
+  return `screen:universe:${hash}`;
+}
+
+/**
+ * Build a screening candidate for one symbol, priced from its quote when one
+ * is given and from the last close of its '1Y' range bars otherwise
+ */
+export async function buildCandidate(symbol: string, quote?: Quote): Promise<ScreenCandidate | null> {
+  const [companyResponse, yearlyResponse, financialsResponse] = await Promise.all([
+    getCompanyDetails(symbol),
+    getStockPriceData(symbol, '1Y'),
+    getFinancials(symbol),
+  ]);
+
+  if (!companyResponse.success || !companyResponse.data || isSynthetic(companyResponse.provenance)) {
+    console.warn(`Skipping ${symbol} in screen universe: ${companyResponse.error || 'no real company details'}`);
+    return null;
+  }
+
+  // Generated prices must never feed a screen
+  const prices = isSynthetic(yearlyResponse.provenance) ? [] : yearlyResponse.data || [];
+  const price = quote?.price ?? (prices.length > 0 ? prices[prices.length - 1].close : null);
+
+  const ratios = computeRatios({
+    price,
+    marketCap: companyResponse.data.marketCap,
+    quarterly: financialsResponse.data?.quarterly || [],
+    annual: financialsResponse.data?.annual || [],
+  });
+
+  const metrics: ScreenMetrics = ratioValues(ratios);
+
+  if (price !== null) {
+    metrics.price = price;
+  }
+
+  if (price !== null && prices.length > 0) {
+    metrics.return1Y = percentChange(prices[0].close, price);
+  }
+
+  return { company: companyResponse.data, metrics };
+}
+
+/**
+ * Get every company in the universe with its derived metrics
+ */
+export async function getScreenUniverse(): Promise<ScreenCandidate[]> {
+  const symbols = getUniverseSymbols();
+  const cacheKey = universeCacheKey(symbols);
+  const cachedUniverse = await cacheService.get<ScreenCandidate[]>(cacheKey);
+
+  if (cachedUniverse) {
+    console.log('Cache hit for screen universe');
+    return cachedUniverse;
+  }
+
+  console.log('Cache miss for screen universe, building from API');
+
+  // Latest prices for the whole universe in one call
+  const quotesResponse = await getQuotes(symbols);
+  const quotes = new Map((quotesResponse.data || []).map(quote => [quote.symbol, quote]));
+
+  const candidates = await Promise.all(
+    symbols.map(symbol =>
+      buildCandidate(symbol, quotes.get(symbol)).catch(error => {
+        console.error(`Error building screen candidate for ${symbol}:`, error);
+        return null;
+      })
+    )
+  );
+
+  const universe = candidates.filter((candidate): candidate is ScreenCandidate => candidate !== null);
+
+  if (universe.length > 0) {
+    const complete = quotesResponse.success && universe.length === symbols.length;
+
+    if (!complete) {
+      console.warn(`Screen universe built with ${universe.length} of ${symbols.length} symbols; caching it briefly`);
+    }
+
+    await cacheService.set(cacheKey, universe, complete ? UNIVERSE_CACHE_TTL : PARTIAL_UNIVERSE_CACHE_TTL);
+  }
+
+  return universe;
+}
+
+/**
+ * Flatten a candidate into a display row with every field resolved
+ */
+export function toScreenResultRow(candidate: ScreenCandidate): ScreenResultRow {
+  const values: Record<string, number | null> = {};
+
+  for (const field of SCREEN_FIELDS) {
+    values[field.key] = getFieldValue(candidate, field.key);
+  }
+
+  return {
+    symbol: candidate.company.symbol,
+    name: candidate.company.name,
+    values,
+  };
+}
+
+/**
+ * Parse a query and run it over the universe.
+ * Throws ScreenerSyntaxError for an invalid query.
+ */
+export async function runScreenQuery(query: string): Promise<{
+  rows: ScreenResultRow[];
+  referencedFields: string[];
+}> {
+  const expression = parseScreenQuery(query);
+  const universe = await getScreenUniverse();
+
+  return {
+    rows: evaluateScreen(expression, universe).map(toScreenResultRow),
+    referencedFields: getReferencedFields(expression),
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * Server-only persistence for saved screens
+ *
+ * Screens are stored in a single JSON file (SAVED_SCREENS_FILE, default
+ * data/saved-screens.json). Writes are serialized and replace the file
+ * atomically so concurrent requests cannot corrupt it.
+ */
+
+import { randomBytes, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseScreenQuery } from '@/lib/screener';
+import { normalizeColumns } from '@/lib/screener/results';
+import { SavedScreen, SavedScreenInput } from './types';
+
+const SCREENS_FILE = process.env.SAVED_SCREENS_FILE || path.join(process.cwd(), 'data', 'saved-screens.json');
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Raised when a saved screen fails validation
+ */
+export class SavedScreenValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedScreenValidationError';
+  }
+}
+
+// Pending write, so read-modify-write cycles never interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+async function readScreens(): Promise<SavedScreen[]> {
+  try {
+    return JSON.parse(await fs.readFile(SCREENS_FILE, 'utf8')) as SavedScreen[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeScreens(screens: SavedScreen[]): Promise<void> {
+  const tempFile = `${SCREENS_FILE}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(SCREENS_FILE), { recursive: true });
+  await fs.writeFile(tempFile, `${JSON.stringify(screens, null, 2)}\n`);
+  await fs.rename(tempFile, SCREENS_FILE);
+}
+
+/**
+ * Run a read-modify-write against the store, one at a time
+ */
+function updateScreens<T>(update: (screens: SavedScreen[]) => { screens: SavedScreen[]; result: T }): Promise<T> {
+  const next = writeQueue.then(async () => {
+    const { screens, result } = update(await readScreens());
+    await writeScreens(screens);
+    return result;
+  });
+
+  writeQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Validate and normalize user input, throwing SavedScreenValidationError
+ */
+function validateInput(input: Partial<SavedScreenInput>): SavedScreenInput {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const description = typeof input.description === 'string' ? input.description.trim() : '';
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  const columns = Array.isArray(input.columns) ? normalizeColumns(input.columns.map(String)) : [];
+
+  if (!name) {
+    throw new SavedScreenValidationError('Name is required');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new SavedScreenValidationError(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    throw new SavedScreenValidationError(`Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  if (!query) {
+    throw new SavedScreenValidationError('Query is required');
+  }
+
+  try {
+    parseScreenQuery(query);
+  } catch (error) {
+    throw new SavedScreenValidationError(`Invalid query: ${(error as Error).message}`);
+  }
+
+  return { name, description, query, columns };
+}
+
+/**
+ * List a user's screens, most recently updated first
+ */
+export async function listSavedScreens(userId: string): Promise<SavedScreen[]> {
+  await writeQueue;
+  const screens = await readScreens();
+
+  return screens
+    .filter(screen => screen.userId === userId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get one of a user's screens
+ */
+export async function getSavedScreen(userId: string, id: string): Promise<SavedScreen | null> {
+  await writeQueue;
+  const screens = await readScreens();
+  return screens.find(screen => screen.id === id && screen.userId === userId) || null;
+}
+
+/**
+ * Get a screen by its public share id (read-only access for anyone with the link)
+ */
+export async function getSharedScreen(shareId: string): Promise<SavedScreen | null> {
+  await writeQueue;
+  const screens = await readScreens();
+  return screens.find(screen => screen.shareId === shareId) || null;
+}
+
+export function createSavedScreen(userId: string, input: Partial<SavedScreenInput>): Promise<SavedScreen> {
+  const values = validateInput(input);
+  const now = new Date().toISOString();
+
+  const screen: SavedScreen = {
+    id: randomUUID(),
+    userId,
+    name: values.name,
+    description: values.description || '',
+    query: values.query,
+    columns: values.columns || [],
+    shareId: randomBytes(8).toString('hex'),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return updateScreens(screens => ({ screens: [...screens, screen], result: screen }));
+}
+
+/**
+ * Update one of a user's screens; resolves to null if it does not exist
+ */
+export function updateSavedScreen(
+  userId: string,
+  id: string,
+  input: Partial<SavedScreenInput>
+): Promise<SavedScreen | null> {
+  const values = validateInput(input);
+
+  return updateScreens(screens => {
+    const existing = screens.find(screen => screen.id === id && screen.userId === userId);
+
+    if (!existing) {
+      return { screens, result: null };
+    }
+
+    const updated: SavedScreen = {
+      ...existing,
+      name: values.name,
+      description: values.description || '',
+      query: values.query,
+      columns: values.columns || [],
+      updatedAt: new Date().toISOString(),
+    };
+
+    return {
+      screens: screens.map(screen => (screen.id === id ? updated : screen)),
+      result: updated,
+    };
+  });
+}
+
+/**
+ * Delete one of a user's screens; resolves to false if it does not exist
+ */
+export function deleteSavedScreen(userId: string, id: string): Promise<boolean> {
+  return updateScreens(screens => {
+    const remaining = screens.filter(screen => !(screen.id === id && screen.userId === userId));
+    return { screens: remaining, result: remaining.length !== screens.length };
+  });
+}
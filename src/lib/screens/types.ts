@@ -0,0 +1,24 @@
+/**
+ * A screen saved by a user
+ */
+export interface SavedScreen {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  query: string;
+  columns: string[];
+  shareId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields a user can set when creating or editing a saved screen
+ */
+export interface SavedScreenInput {
+  name: string;
+  description?: string;
+  query: string;
+  columns?: string[];
+}
@@ -0,0 +1,43 @@
+/**
+ * Anonymous per-browser user identity for saved screens
+ *
+ * There are no accounts yet, so each browser gets a random id in a long-lived
+ * cookie and screens are keyed by it.
+ */
+
+import { randomUUID } from 'crypto';
+import { cookies } from 'next/headers';
+
+const USER_COOKIE = 'screener_user';
+const USER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year
+
+/**
+ * Get the current user's id, assigning one if the browser has none.
+ * Assigning only works where cookies can be set (route handlers, server actions).
+ */
+export async function getOrCreateUserId(): Promise<string> {
+  const cookieStore = await cookies();
+  const existing = cookieStore.get(USER_COOKIE)?.value;
+
+  if (existing) {
+    return existing;
+  }
+
+  const userId = randomUUID();
+  cookieStore.set(USER_COOKIE, userId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: USER_COOKIE_MAX_AGE,
+  });
+
+  return userId;
+}
+
+/**
+ * Get the current user's id without assigning one (safe in server components)
+ */
+export async function getUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(USER_COOKIE)?.value || null;
+}
@@ -5,8 +5,8 @@ export function formatCurrency(value: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
-    notation: value >= 1000000 ? 'compact' : 'standard',
-    maximumFractionDigits: value >= 1000000 ? 1 : 2,
+    notation: Math.abs(value) >= 1000000 ? 'compact' : 'standard',
+    maximumFractionDigits: Math.abs(value) >= 1000000 ? 1 : 2,
   }).format(value);
 }
 
@@ -15,8 +15,8 @@ export function formatCurrency(value: number): string {
  */
 export function formatNumber(value: number): string {
   return new Intl.NumberFormat('en-US', {
-    notation: value >= 1000000 ? 'compact' : 'standard',
-    maximumFractionDigits: value >= 1000000 ? 1 : 0,
+    notation: Math.abs(value) >= 1000000 ? 'compact' : 'standard',
+    maximumFractionDigits: Math.abs(value) >= 1000000 ? 1 : 0,
   }).format(value);
 }
 
@@ -44,6 +44,21 @@ export function formatDate(date: string | Date): string {
   });
 }
 
+/**
+ * A YYYY-MM-DD calendar day as a local date. Noon keeps the calendar day the
+ * same in every time zone.
+ */
+export function calendarDay(day: string): Date {
+  return new Date(`${day}T12:00:00`);
+}
+
+/**
+ * Format a YYYY-MM-DD calendar day
+ */
+export function formatDay(day: string): string {
+  return formatDate(calendarDay(day));
+}
+
 /**
  * Format a time
  */
@@ -61,4 +76,18 @@ export function formatTime(date: string | Date): string {
 export function formatDateTime(date: string | Date): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
   return `${formatDate(dateObj)} ${formatTime(dateObj)}`;
-} 
\ No newline at end of file
+} 
+/**
+ * Format how long ago a moment was ("5m ago", "3h ago", "2d ago"), falling
+ * back to the date after a week
+ */
+export function formatRelativeTime(date: string | Date, now: Date = new Date()): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const minutes = Math.floor((now.getTime() - dateObj.getTime()) / 60000);
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+  if (minutes < 7 * 24 * 60) return `${Math.floor(minutes / (24 * 60))}d ago`;
+  return formatDate(dateObj);
+}
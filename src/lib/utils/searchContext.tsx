@@ -2,8 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { Trie } from './trie';
-import { searchStocks } from '@/lib/api/stockApi';
-import { SearchResult } from '@/types';
+import { ApiResponse, Company, SearchResult } from '@/types';
 
 interface SearchContextType {
   searchTerm: string;
@@ -25,6 +24,12 @@ const SearchContext = createContext<SearchContextType>({
 
 export const useSearch = () => useContext(SearchContext);
 
+// Search through the API route so the server's market data providers are used
+const searchStocks = async (query: string): Promise<ApiResponse<Company[]>> => {
+  const response = await fetch(`/api/stocks/search?q=${encodeURIComponent(query)}`);
+  return response.json();
+};
+
 // Default mock search results to use when API fails
 const defaultSearchResults: SearchResult[] = [
   { symbol: 'AAPL', name: 'Apple Inc.' },
@@ -0,0 +1,22 @@
+/**
+ * Parsing of user-entered ticker symbol lists
+ */
+
+const SYMBOL_PATTERN = /^[A-Z0-9.\-]{1,10}$/;
+
+/**
+ * Parse a comma-separated symbol list (e.g. "AAPL,msft, NVDA"), dropping
+ * blanks, malformed symbols and duplicates and keeping at most `limit`
+ */
+export function parseSymbolList(param: string | null | undefined, limit: number): string[] {
+  if (!param) return [];
+
+  const symbols = param
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(symbol => SYMBOL_PATTERN.test(symbol));
+
+  return symbols
+    .filter((symbol, index) => symbols.indexOf(symbol) === index)
+    .slice(0, limit);
+}
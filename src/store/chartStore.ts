@@ -0,0 +1,142 @@
+import { create } from 'zustand';
+import { DEFAULT_PRICE_ADJUSTMENT } from '@/lib/api/priceAdjustments';
+import { DEFAULT_RANGE_SPEC } from '@/lib/api/rangeSpec';
+import { ChartOverlay, ChartPane, ChartPreferences, ChartType } from '@/lib/preferences/types';
+import { PriceAdjustment, RangeSpec } from '@/types';
+
+interface ChartState extends ChartPreferences {
+  // Actions
+  setRange: (range: RangeSpec) => void;
+  setAdjustment: (adjustment: PriceAdjustment) => void;
+  toggleEvents: () => void;
+  setChartType: (chartType: ChartType) => void;
+  toggleOverlay: (overlay: ChartOverlay) => void;
+  togglePane: (pane: ChartPane) => void;
+  resetIndicators: () => void;
+}
+
+const DEFAULT_OVERLAYS: ChartOverlay[] = [];
+const DEFAULT_PANES: ChartPane[] = ['volume'];
+
+// Changes are saved together once the user has paused for this long
+const SAVE_DELAY_MS = 500;
+
+const PREFERENCE_KEYS: (keyof ChartPreferences)[] = ['range', 'adjustment', 'showEvents', 'chartType', 'overlays', 'panes'];
+
+const toggle = <T>(items: T[], item: T): T[] =>
+  items.includes(item) ? items.filter(existing => existing !== item) : [...items, item];
+
+const pickPreferences = (state: ChartPreferences): ChartPreferences => ({
+  range: state.range,
+  adjustment: state.adjustment,
+  showEvents: state.showEvents,
+  chartType: state.chartType,
+  overlays: state.overlays,
+  panes: state.panes,
+});
+
+// Starts from the defaults on the server and the client alike, so both render
+// the same markup; the user's saved preferences are loaded after mount
+export const useChartStore = create<ChartState>()((set, get) => ({
+  range: DEFAULT_RANGE_SPEC,
+  adjustment: DEFAULT_PRICE_ADJUSTMENT,
+  showEvents: true,
+  chartType: 'line',
+  overlays: DEFAULT_OVERLAYS,
+  panes: DEFAULT_PANES,
+
+  setRange: (range: RangeSpec) => {
+    set({ range });
+  },
+
+  setAdjustment: (adjustment: PriceAdjustment) => {
+    set({ adjustment });
+  },
+
+  toggleEvents: () => {
+    set({ showEvents: !get().showEvents });
+  },
+
+  setChartType: (chartType: ChartType) => {
+    set({ chartType });
+  },
+
+  toggleOverlay: (overlay: ChartOverlay) => {
+    set({ overlays: toggle(get().overlays, overlay) });
+  },
+
+  togglePane: (pane: ChartPane) => {
+    set({ panes: toggle(get().panes, pane) });
+  },
+
+  resetIndicators: () => {
+    set({ overlays: DEFAULT_OVERLAYS, panes: DEFAULT_PANES });
+  },
+}));
+
+let loadRequest: Promise<void> | null = null;
+let loaded = false;
+let applyingSaved = false;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Preferences changed before the saved ones arrived, which win over them
+const changedBeforeLoad = new Set<keyof ChartPreferences>();
+
+function saveChartPreferences(): void {
+  clearTimeout(saveTimer);
+
+  saveTimer = setTimeout(() => {
+    fetch('/api/preferences/chart', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(pickPreferences(useChartStore.getState())),
+    }).catch(error => console.error('Error saving chart preferences:', error));
+  }, SAVE_DELAY_MS);
+}
+
+useChartStore.subscribe((state, previous) => {
+  if (applyingSaved) return;
+
+  const changed = PREFERENCE_KEYS.filter(key => state[key] !== previous[key]);
+  if (changed.length === 0) return;
+
+  if (loaded) {
+    saveChartPreferences();
+  } else {
+    changed.forEach(key => changedBeforeLoad.add(key));
+  }
+});
+
+/**
+ * Load the current user's saved chart preferences from the server; later
+ * changes are saved back. Runs once per page load.
+ */
+export function loadChartPreferences(): Promise<void> {
+  loadRequest ??= fetch('/api/preferences/chart')
+    .then(response => response.json())
+    .then(result => {
+      if (!result.success) throw new Error(result.error || 'Failed to load chart preferences');
+
+      const saved: ChartPreferences | null = result.data;
+      const current = useChartStore.getState();
+
+      if (saved) {
+        const merged = { ...saved };
+        changedBeforeLoad.forEach(key => Object.assign(merged, { [key]: current[key] }));
+
+        applyingSaved = true;
+        useChartStore.setState(merged);
+        applyingSaved = false;
+      }
+    })
+    .finally(() => {
+      loaded = true;
+
+      if (changedBeforeLoad.size > 0) {
+        changedBeforeLoad.clear();
+        saveChartPreferences();
+      }
+    });
+
+  return loadRequest;
+}
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+// Most symbols a watchlist holds, which also bounds the combined news feed
+export const MAX_WATCHLIST_SYMBOLS = 20;
+
+interface WatchlistState {
+  // Watched symbols in the order they were added
+  symbols: string[];
+
+  // Actions
+  toggleSymbol: (symbol: string) => void;
+  removeSymbol: (symbol: string) => void;
+}
+
+// Saved to localStorage; there are no accounts to store it against yet
+export const useWatchlistStore = create<WatchlistState>()(
+  persist(
+    (set, get) => ({
+      symbols: [],
+
+      toggleSymbol: (symbol: string) => {
+        const { symbols } = get();
+        const normalized = symbol.toUpperCase();
+
+        if (symbols.includes(normalized)) {
+          set({ symbols: symbols.filter(existing => existing !== normalized) });
+        } else if (symbols.length < MAX_WATCHLIST_SYMBOLS) {
+          set({ symbols: [...symbols, normalized] });
+        }
+      },
+
+      removeSymbol: (symbol: string) => {
+        set({ symbols: get().symbols.filter(existing => existing !== symbol.toUpperCase()) });
+      },
+    }),
+    {
+      name: 'watchlist',
+      // Rehydrated after mount so server and client render the same markup
+      skipHydration: true,
+    }
+  )
+);
@@ -1,3 +1,7 @@
+/**
+ * A listed security: the one company model shared by the providers, the
+ * cache, the API routes and the pages
+ */
 export interface Company {
   symbol: string;
   name: string;
@@ -9,10 +13,17 @@ export interface Company {
   ceo?: string;
   website?: string;
   exchange?: string;
+  logo?: string;
+  country?: string;
+  ipoDate?: string; // YYYY-MM-DD
+  provenance?: Provenance;
 }
 
+/**
+ * One OHLCV bar, oldest first wherever bars are listed
+ */
 export interface StockPrice {
-  timestamp: number;
+  timestamp: number; // Start of the bar, ms since the epoch
   open: number;
   high: number;
   low: number;
@@ -20,13 +31,155 @@ export interface StockPrice {
   volume: number;
 }
 
-export interface StockData {
-  company: Company;
-  prices: StockPrice[];
-  dailyPrices: StockPrice[];
-  weeklyPrices: StockPrice[];
-  monthlyPrices: StockPrice[];
-  yearlyPrices: StockPrice[];
+/**
+ * Split-adjusted bars of a symbol for each preset range at its default
+ * interval, with where each series came from
+ */
+export interface StockPrices {
+  bars: Partial<Record<TimeRange, StockPrice[]>>;
+  provenance: Partial<Record<TimeRange, Provenance>>;
+}
+
+// Which corporate actions a price series is adjusted for: none, splits, or
+// splits plus reinvested dividends
+export type PriceAdjustment = 'raw' | 'split' | 'total';
+
+export interface StockSplit {
+  executionDate: string; // YYYY-MM-DD
+  splitFrom: number;     // e.g. 1 for a 4-for-1 split
+  splitTo: number;       // e.g. 4 for a 4-for-1 split
+}
+
+export interface Dividend {
+  exDividendDate: string; // YYYY-MM-DD
+  declarationDate?: string;
+  recordDate?: string;
+  payDate?: string;
+  cashAmount: number; // Per share at the time, not adjusted for later splits
+  currency?: string;
+  frequency?: number; // Payments per year; 0 for one-off
+}
+
+/**
+ * Splits and cash dividends of a symbol, oldest first
+ */
+export interface CorporateActions {
+  symbol: string;
+  splits: StockSplit[];
+  dividends: Dividend[];
+}
+
+// When an earnings report is released relative to the trading session:
+// before the open, after the close, or during market hours
+export type EarningsTiming = 'bmo' | 'amc' | 'dmh';
+
+/**
+ * One quarterly earnings report, past or scheduled. Actuals are null until
+ * the report is out; estimates are the consensus before the release.
+ */
+export interface EarningsReport {
+  symbol: string;
+  reportDate: string; // YYYY-MM-DD
+  timing?: EarningsTiming;
+  fiscalYear?: number;
+  fiscalPeriod?: string; // Q1-Q4
+  epsEstimate: number | null;
+  epsActual: number | null;
+  revenueEstimate: number | null;
+  revenueActual: number | null;
+}
+
+/**
+ * A news article about one or more symbols
+ */
+export interface NewsArticle {
+  id: string;
+  title: string;
+  source: string;       // Publisher name
+  url: string;
+  publishedAt: string;  // ISO 8601 timestamp
+  symbols: string[];    // Tickers the article is tagged with
+  summary?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Latest trading snapshot of a symbol for the current (or last) session
+ */
+export interface Quote {
+  symbol: string;
+  price: number;           // Last trade, or the session close
+  previousClose: number;
+  change: number;          // Versus the previous close
+  percentChange: number;
+  open: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  volume: number | null;
+  updatedAt: number;       // Milliseconds since the epoch
+  provenance?: Provenance;
+}
+
+export type FinancialPeriodType = 'quarterly' | 'annual';
+
+/**
+ * Income statement line items for one reporting period (null when not reported)
+ */
+export interface IncomeStatement {
+  revenue: number | null;
+  operatingIncome: number | null;
+  netIncome: number | null;
+  eps: number | null;              // diluted earnings per share
+  dilutedShares: number | null;    // weighted average diluted shares
+  depreciationAndAmortization: number | null;
+  interestExpense: number | null;
+}
+
+/**
+ * Balance sheet line items at the end of one reporting period
+ */
+export interface BalanceSheet {
+  totalAssets: number | null;
+  currentAssets: number | null;
+  currentLiabilities: number | null;
+  totalLiabilities: number | null;
+  totalDebt: number | null;
+  cashAndEquivalents: number | null;
+  equity: number | null;
+}
+
+/**
+ * Cash flow statement line items for one reporting period
+ */
+export interface CashFlowStatement {
+  operatingCashFlow: number | null;
+  capitalExpenditure: number | null; // reported as a positive outflow
+  freeCashFlow: number | null;
+  dividendsPaid: number | null;      // reported as a positive outflow
+}
+
+/**
+ * Financial statements for one fiscal quarter or year
+ */
+export interface FinancialPeriod {
+  periodType: FinancialPeriodType;
+  fiscalYear: number;
+  fiscalPeriod: 'Q1' | 'Q2' | 'Q3' | 'Q4' | 'FY';
+  startDate: string; // YYYY-MM-DD
+  endDate: string;   // YYYY-MM-DD
+  filingDate?: string;
+  incomeStatement: IncomeStatement;
+  balanceSheet: BalanceSheet;
+  cashFlow: CashFlowStatement;
+}
+
+/**
+ * Quarterly and annual statements for a company, oldest period first
+ */
+export interface Financials {
+  symbol: string;
+  quarterly: FinancialPeriod[];
+  annual: FinancialPeriod[];
 }
 
 export interface SearchResult {
@@ -36,8 +189,56 @@ export interface SearchResult {
 
 export type TimeRange = '1D' | '1W' | '1M' | '3M' | '1Y' | '5Y';
 
+// Preset ranges the price chart offers; YTD starts on January 1st and MAX
+// reaches as far back as the data provider keeps bars of the chosen size
+export type RangePreset = TimeRange | 'YTD' | 'MAX';
+
+// Bar sizes a price history can be requested in
+export type BarInterval = '1m' | '5m' | '1h' | '1d' | '1w' | '1mo';
+
+/**
+ * Which slice of price history to load: a preset or an explicit date range,
+ * optionally with a bar interval other than the range's default
+ */
+export interface RangeSpec {
+  range: RangePreset | 'custom';
+  from?: string;          // YYYY-MM-DD, required for custom ranges
+  to?: string;            // YYYY-MM-DD, defaults to today
+  interval?: BarInterval;
+}
+
+// Where a payload came from: fetched from a live provider just now, served
+// from the cache (fetched earlier), read from offline fixture or recorded
+// files, or generated because no real data was available
+export type DataSource = 'live' | 'cached' | 'fixture' | 'synthetic';
+
+/**
+ * Origin of a price or company payload, so fake or stale data is never
+ * mistaken for a fresh quote
+ */
+export interface Provenance {
+  source: DataSource;
+  fetchedAt: number; // When it was fetched or generated, ms since the epoch
+}
+
+// Why a request to a market-data provider failed: not found, rate limited,
+// rejected credentials, timed out, provider error (5xx or unreachable), a
+// payload that could not be read, a request with no recorded response in
+// replay mode, or anything else
+export type ApiErrorCode =
+  | 'not_found'
+  | 'rate_limited'
+  | 'unauthorized'
+  | 'timeout'
+  | 'upstream_error'
+  | 'malformed_payload'
+  | 'unrecorded'
+  | 'unknown';
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: ApiErrorCode; // Set on failures caused by the data provider
+  provenance?: Provenance; // Set on market data payloads
 } 
\ No newline at end of file